@@ -0,0 +1,95 @@
+/**
+ * Benchmarks for the object reader backend: a detailed check of a branch with
+ * many conflicting files, with and without the long-lived `git cat-file`
+ * processes.
+ *
+ * Run with `deno task bench`; set `BENCH_FILES` to change the number of
+ * conflicting files (default: 100).
+ */
+
+import { join } from "@std/path";
+import { checkConflicts } from "../src/checker.ts";
+import { resolveCommit } from "../src/lib.ts";
+import { ObjectReader } from "../src/object_reader.ts";
+
+const FILES = Number(Deno.env.get("BENCH_FILES") ?? 100);
+
+async function git(dir: string, args: string[]): Promise<void> {
+  const { success } = await new Deno.Command("git", {
+    args,
+    cwd: dir,
+    stdout: "null",
+    stderr: "null",
+  }).output();
+  if (!success) throw new Error(`git ${args.join(" ")} failed`);
+}
+
+async function commitAll(dir: string, content: string, message: string) {
+  for (let i = 0; i < FILES; i++) {
+    await Deno.writeTextFile(
+      join(dir, `src/file_${i}.txt`),
+      `header\n${content}\nfooter\n`,
+    );
+  }
+  await git(dir, ["add", "."]);
+  await git(dir, ["commit", "-q", "-m", message]);
+}
+
+/**
+ * Creates `main` and `feature` branches that conflict in every file, and a
+ * ref that only exists on the last of three remotes.
+ */
+async function setupRepo(): Promise<string> {
+  const dir = await Deno.makeTempDir({ prefix: "git_check_conflicts_bench_" });
+  await git(dir, ["init", "-q", "-b", "main"]);
+  await git(dir, ["config", "user.email", "bench@example.com"]);
+  await git(dir, ["config", "user.name", "Bench"]);
+  await Deno.mkdir(join(dir, "src"));
+  await commitAll(dir, "base", "base");
+  await git(dir, ["checkout", "-q", "-b", "feature"]);
+  await commitAll(dir, "feature", "feature");
+  await git(dir, ["checkout", "-q", "main"]);
+  await commitAll(dir, "main", "main");
+  for (const remote of ["origin", "upstream", "fork"]) {
+    await git(dir, ["remote", "add", remote, "https://example.com/repo.git"]);
+  }
+  await git(dir, ["update-ref", "refs/remotes/fork/topic", "feature"]);
+  return dir;
+}
+
+const dir = await setupRepo();
+globalThis.addEventListener("unload", () => {
+  Deno.removeSync(dir, { recursive: true });
+});
+
+for (const batch of [false, true]) {
+  Deno.bench({
+    name: `check ${FILES} conflicting files${batch ? " (batch)" : ""}`,
+    group: "check",
+    baseline: !batch,
+    fn: async () => {
+      const result = await checkConflicts({
+        repo: dir,
+        theirs: "feature",
+        details: true,
+        batch,
+      });
+      if (result.conflicted_files.length !== FILES) {
+        throw new Error("Unexpected benchmark result");
+      }
+    },
+  });
+}
+
+for (const batch of [false, true]) {
+  Deno.bench({
+    name: `resolve 10 refs of the last remote${batch ? " (batch)" : ""}`,
+    group: "resolve",
+    baseline: !batch,
+    fn: async () => {
+      await using reader = new ObjectReader({ cwd: dir });
+      const ctx = { cwd: dir, objects: batch ? reader : undefined };
+      for (let i = 0; i < 10; i++) await resolveCommit("topic", ctx);
+    },
+  });
+}
@@ -0,0 +1,251 @@
+/**
+ * Pluggable access to a Git repository.
+ *
+ * A {@link GitBackend} provides the few operations conflict detection needs:
+ * resolving refs, finding merge bases, listing trees, reading blobs and
+ * merging file contents. {@link CliBackend} runs the `git` binary;
+ * {@link MemoryBackend} serves a commit graph declared in code, so detection
+ * logic can be exercised without repositories or processes; {@link FsBackend}
+ * reads refs and objects from the Git directory without the binary.
+ *
+ * A `ConflictChecker` created with a `backend` runs its checks through
+ * it, merging the trees with the `index-merge` engine.
+ *
+ * @example
+ * ```ts
+ * const backend = new MemoryBackend({
+ *   base: { files: { "a.txt": "one\n" } },
+ *   ours: { parents: ["base"], files: { "a.txt": "ours\n" } },
+ *   theirs: { parents: ["base"], files: { "a.txt": "theirs\n" } },
+ * });
+ * await using checker = new ConflictChecker({ backend });
+ * const result = await checker.check("theirs", await checker.resolveOurs("ours"));
+ * console.log(result.conflicted_files); // ["a.txt"]
+ * ```
+ *
+ * @module
+ */
+
+import {
+  DEFAULT_CONTEXT,
+  getMergeBases,
+  GitError,
+  type RepoContext,
+  resolveCommit,
+  runCmd,
+  runGitBytes,
+} from "./lib.ts";
+
+export { FsBackend, UnsupportedRepositoryError } from "./fs_backend.ts";
+export {
+  MemoryBackend,
+  type MemoryCommit,
+  type MemoryFile,
+  mergeText,
+  unifiedDiff,
+} from "./memory_backend.ts";
+
+/**
+ * File entry of a commit's tree, listed recursively.
+ */
+export interface TreeFile {
+  /** Path relative to the repository root */
+  path: string;
+  /** Octal mode: "100644", "100755", "120000" (symlink) or "160000" (submodule) */
+  mode: string;
+  /** Object ID of the blob (or commit, for submodules) */
+  oid: string;
+}
+
+/**
+ * Result of a three-way merge of file contents.
+ */
+export interface MergeFileResult {
+  /** True if the contents merged without conflicts */
+  clean: boolean;
+  /** Merged text, with diff3-style conflict markers where the sides conflict */
+  content: string;
+}
+
+/**
+ * Operations conflict detection needs from a repository.
+ */
+export interface GitBackend {
+  /**
+   * Resolves a ref or revision to a commit.
+   *
+   * @param rev - Branch, tag, commit SHA or other revision
+   * @returns Promise resolving to the commit ID, or null if there is none
+   */
+  resolveCommit(rev: string): Promise<string | null>;
+
+  /**
+   * Gets the branch HEAD points to.
+   *
+   * @returns Promise resolving to the short branch name, or null if HEAD is
+   *   detached or there is no HEAD
+   */
+  getCurrentBranch(): Promise<string | null>;
+
+  /**
+   * Computes all merge bases of two commits.
+   *
+   * @param a - First commit ID
+   * @param b - Second commit ID
+   * @returns Promise resolving to the merge bases, empty for unrelated
+   *   histories
+   */
+  getMergeBases(a: string, b: string): Promise<string[]>;
+
+  /**
+   * Lists the files of a commit, recursively.
+   *
+   * @param commit - Commit ID
+   * @returns Promise resolving to the files, sorted by path
+   */
+  listTree(commit: string): Promise<TreeFile[]>;
+
+  /**
+   * Reads the content of a blob.
+   *
+   * @param oid - Blob ID
+   * @returns Promise resolving to the content, or null if there is no such
+   *   blob
+   */
+  readBlob(oid: string): Promise<Uint8Array | null>;
+
+  /**
+   * Merges three versions of a file, like `git merge-file`.
+   *
+   * @param base - Blob ID of the common version, or null for an empty file
+   * @param ours - Blob ID of our version
+   * @param theirs - Blob ID of their version
+   * @returns Promise resolving to the merge result; binary contents never
+   *   merge cleanly
+   */
+  mergeFile(
+    base: string | null,
+    ours: string,
+    theirs: string,
+  ): Promise<MergeFileResult>;
+}
+
+/**
+ * {@link GitBackend} that runs the `git` binary.
+ *
+ * Blobs are read through the context's object reader when it has one.
+ */
+export class CliBackend implements GitBackend {
+  /** Repository to run in, without a backend */
+  readonly ctx: RepoContext;
+
+  /**
+   * @param ctx - Repository to run in (default: the current working
+   *   directory); its backend, if any, is not used
+   */
+  constructor(ctx: RepoContext = DEFAULT_CONTEXT) {
+    const { backend: _, ...git } = ctx;
+    this.ctx = git;
+  }
+
+  async resolveCommit(rev: string): Promise<string | null> {
+    try {
+      return (await resolveCommit(rev, this.ctx)).commit;
+    } catch (e) {
+      if (e instanceof GitError) return null;
+      throw e;
+    }
+  }
+
+  async getCurrentBranch(): Promise<string | null> {
+    const result = await runCmd(
+      ["git", "symbolic-ref", "--quiet", "--short", "HEAD"],
+      undefined,
+      this.ctx,
+    );
+    return result.code === 0 && result.stdout ? result.stdout : null;
+  }
+
+  async getMergeBases(a: string, b: string): Promise<string[]> {
+    return await getMergeBases(a, b, this.ctx);
+  }
+
+  async listTree(commit: string): Promise<TreeFile[]> {
+    const result = await runCmd(
+      ["git", "ls-tree", "-r", "-z", "--full-tree", commit],
+      undefined,
+      this.ctx,
+    );
+    if (result.code !== 0) {
+      throw new GitError(`Cannot list the tree of '${commit}'`, 2);
+    }
+    // Each entry is "<mode> <type> <oid>\t<path>"
+    return result.stdout.split("\0").filter(Boolean).map((entry) => {
+      const tab = entry.indexOf("\t");
+      const [mode, , oid] = entry.slice(0, tab).split(" ");
+      return { path: entry.slice(tab + 1), mode, oid };
+    });
+  }
+
+  async readBlob(oid: string): Promise<Uint8Array | null> {
+    if (this.ctx.objects) {
+      const object = await this.ctx.objects.read(oid);
+      return object?.type === "blob" ? object.content : null;
+    }
+    const result = await runGitBytes(
+      ["cat-file", "blob", oid],
+      undefined,
+      undefined,
+      this.ctx,
+    );
+    return result.code === 0 ? result.stdout : null;
+  }
+
+  async mergeFile(
+    base: string | null,
+    ours: string,
+    theirs: string,
+  ): Promise<MergeFileResult> {
+    const dir = await Deno.makeTempDir({ prefix: "git_check_conflicts_" });
+    try {
+      const files: string[] = [];
+      const sides: [string, string | null][] = [
+        ["ours", ours],
+        ["base", base],
+        ["theirs", theirs],
+      ];
+      for (const [name, oid] of sides) {
+        const blob = oid ? await this.readBlob(oid) : new Uint8Array(0);
+        if (!blob) throw new GitError(`Cannot read blob '${oid}'`, 2);
+        files.push(`${dir}/${name}`);
+        await Deno.writeFile(`${dir}/${name}`, blob);
+      }
+
+      // Exit code is the number of conflicts; above 127 on errors such as
+      // binary files
+      const merged = await runGitBytes(
+        [
+          "merge-file",
+          "-p",
+          "--diff3",
+          "-L",
+          "ours",
+          "-L",
+          "base",
+          "-L",
+          "theirs",
+          ...files,
+        ],
+        undefined,
+        undefined,
+        this.ctx,
+      );
+      return {
+        clean: merged.code === 0,
+        content: new TextDecoder().decode(merged.stdout),
+      };
+    } finally {
+      await Deno.remove(dir, { recursive: true }).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,941 @@
+/**
+ * Programmatic API for checking merge conflicts.
+ *
+ * {@link checkConflicts} checks a single pair of refs and returns the same
+ * result the CLI prints with `--json`. A {@link ConflictChecker} keeps its
+ * options across several checks of one repository: against many targets,
+ * between every pair of branches, or replaying commits onto release
+ * branches.
+ *
+ * @example
+ * ```ts
+ * import { checkConflicts } from "@fry69/git-check-conflicts";
+ *
+ * const result = await checkConflicts({
+ *   repo: "/path/to/repo",
+ *   theirs: "main",
+ *   details: true,
+ *   paths: ["src/"],
+ *   signal: AbortSignal.timeout(30_000),
+ * });
+ * for (const file of result.conflicted_files) {
+ *   console.log(file, result.files[file].conflict_type);
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { globToRegExp } from "@std/path";
+import {
+  type BackportCheckResult,
+  checkConflictsWithBackend,
+  checkConflictsWithMergeOrt,
+  checkConflictsWithMergeTree,
+  checkConflictsWithReadTree,
+  type ConflictCheckResult,
+  createAnalysisContext,
+  createSnapshotCommit,
+  detectDefaultBranch,
+  expandRefPattern,
+  getChangedFilesBetween,
+  getConflictingFilesFromMergeTree,
+  getCurrentRef,
+  getEmptyTreeHash,
+  getFileConflictDetail,
+  getMergeBase,
+  getMergeBases,
+  getObjectFormat,
+  GitError,
+  isRefPattern,
+  Limiter,
+  listCommitsInRange,
+  mapConcurrent,
+  type MatrixCheckResult,
+  type MergeOrtResult,
+  type PairwiseCell,
+  type PairwiseCheckResult,
+  replayCommits,
+  type RepoContext,
+  resolveCommit,
+  revToTree,
+  simulateRebase,
+  supportsMergeOrt,
+  TempIndex,
+  type UncommittedSource,
+  writeUncommittedTree,
+} from "./lib.ts";
+import type { GitBackend } from "./backend.ts";
+import { JSON_SCHEMA_VERSION, type NdjsonEvent } from "./format.ts";
+import { ObjectReader } from "./object_reader.ts";
+
+export { GitError } from "./lib.ts";
+export type {
+  BackportCheckResult,
+  BackportTargetResult,
+  CommitReplayResult,
+  ConflictCheckResult,
+  ConflictEngine,
+  ConflictHunk,
+  ConflictHunkSide,
+  ConflictType,
+  FileConflictDetail,
+  MatrixCheckResult,
+  PairwiseCell,
+  PairwiseCheckResult,
+  RenameInfo,
+  RepoContext,
+  UncommittedSource,
+} from "./lib.ts";
+
+/**
+ * Merge engine to check with.
+ *
+ * `auto` uses merge-ort when Git supports it (2.38 and newer). Otherwise it
+ * uses read-tree and falls back to the trivial merge-tree when read-tree
+ * finds no conflicts. With a `backend`, `auto` merges the trees through the
+ * backend (the `index-merge` engine).
+ */
+export type EngineChoice = "auto" | "merge-ort" | "read-tree" | "merge-tree";
+
+/**
+ * Options for a {@link ConflictChecker}.
+ */
+export interface ConflictCheckerOptions {
+  /** Repository to check (default: the current working directory) */
+  repo?: string;
+  /** Gather per-file conflict types, hunks and diffs (default: false) */
+  details?: boolean;
+  /** Merge engine (default: `auto`) */
+  engine?: EngineChoice;
+  /**
+   * Only report conflicts in these paths: file names, directories or globs
+   * such as `docs/*.md`. Not supported with rebase or backport simulation,
+   * which stop at the first conflicting commit.
+   */
+  paths?: string[];
+  /** Simulate a rebase instead of a merge (default: false) */
+  rebase?: boolean;
+  /** Include uncommitted changes in our side when it is the current HEAD */
+  uncommitted?: UncommittedSource;
+  /** Cancels the checks; pending calls reject with the signal's reason */
+  signal?: AbortSignal;
+  /**
+   * Read objects through long-lived `git cat-file` processes instead of
+   * spawning Git for each lookup (default: true). The processes end with
+   * {@link ConflictChecker.close}.
+   */
+  batch?: boolean;
+  /**
+   * Resolves refs, finds merge bases, lists trees, reads blobs and merges
+   * files instead of the `git` binary, such as an `FsBackend` or a
+   * `MemoryBackend` (default: none)
+   */
+  backend?: GitBackend;
+  /**
+   * Maximum number of Git commands run in parallel, shared by the files,
+   * targets and ref pairs checked at once (default: the number of CPUs)
+   */
+  jobs?: number;
+  /**
+   * Called with each conflicting file as soon as its details, and those of
+   * the files before it, are known
+   */
+  onFileConflict?: (result: ConflictCheckResult, file: string) => void;
+}
+
+/**
+ * Options for {@link checkConflicts}.
+ */
+export interface CheckConflictsOptions extends ConflictCheckerOptions {
+  /** Ref the other side is merged into (default: the current HEAD) */
+  ours?: string;
+  /** Ref to merge */
+  theirs: string;
+}
+
+/**
+ * Our side of a check: the commit the other side is merged into.
+ */
+export interface OursSide {
+  /** Reference name, reported as `current_ref` */
+  ref: string;
+  /** Commit SHA; a snapshot commit when uncommitted changes are included */
+  commit: string;
+  /** Uncommitted changes included in the commit, if any */
+  uncommitted?: UncommittedSource;
+}
+
+/**
+ * A ref resolved to a commit.
+ */
+export interface ResolvedRef {
+  /** Commit SHA */
+  commit: string;
+  /** Resolved reference name */
+  resolvedRef: string;
+}
+
+/**
+ * Checks whether merging one commit into another would conflict.
+ *
+ * Computes the merge bases, runs the selected engine and optionally gathers
+ * per-file conflict details. With `options.rebase`, simulates rebasing our
+ * side onto theirs commit by commit instead of a single merge.
+ *
+ * @param ours - Our side
+ * @param theirs - Side being merged
+ * @param options - Checker options, with the checker's number of jobs
+ * @param matches - Path filter for the reported conflicts
+ * @param getEmptyTree - Gets the empty tree SHA of the repository's object
+ *   format
+ * @param ctx - Repository to check
+ * @returns Promise resolving to the conflict check result
+ * @throws {GitError} If merge-ort is requested on Git older than 2.38
+ */
+async function checkPair(
+  ours: OursSide,
+  theirs: ResolvedRef,
+  options: ConflictCheckerOptions & { jobs: number },
+  matches: (file: string) => boolean,
+  getEmptyTree: () => Promise<string>,
+  ctx: RepoContext,
+): Promise<ConflictCheckResult> {
+  const engine = options.engine ?? "auto";
+  const oursCommit = ours.commit;
+  const theirsCommit = theirs.commit;
+
+  // Compute merge bases; criss-cross histories have more than one
+  const mergeBases = await getMergeBases(oursCommit, theirsCommit, ctx);
+  const mergeBase = mergeBases[0] ?? "";
+
+  // Prepare result object
+  const result: ConflictCheckResult = {
+    current_ref: ours.ref,
+    other_ref: theirs.resolvedRef,
+    ours_commit: oursCommit,
+    ...(ours.uncommitted ? { uncommitted: ours.uncommitted } : {}),
+    theirs_commit: theirsCommit,
+    merge_base: mergeBase || null,
+    merge_bases: mergeBases,
+    criss_cross: mergeBases.length > 1,
+    engine: "merge-ort",
+    conflicts: false,
+    conflicted_files: [],
+    files: {},
+  };
+
+  // Collects details for the conflicting files within the path filter
+  const recordConflicts = async (
+    conflicting: string[],
+    oursSide = oursCommit,
+    theirsSide = theirsCommit,
+    base = mergeBase,
+    mergeOrt?: MergeOrtResult,
+  ) => {
+    const files = conflicting.filter(matches);
+    if (files.length === 0) return result;
+    result.conflicts = true;
+    result.conflicted_files = files;
+
+    if (options.details) {
+      // Rename detection is shared by all files of this check
+      const analysis = createAnalysisContext(ctx);
+      // Details are gathered in parallel but recorded in file order
+      await mapConcurrent(
+        files,
+        options.jobs,
+        (f) =>
+          getFileConflictDetail(
+            f,
+            oursSide,
+            theirsSide,
+            base || undefined,
+            mergeOrt,
+            analysis,
+          ),
+        (detail, i) => {
+          ctx.signal?.throwIfAborted();
+          result.files[files[i]] = detail;
+          options.onFileConflict?.(result, files[i]);
+        },
+      );
+    }
+    return result;
+  };
+
+  // Rebase simulation: replay our commits onto theirs one by one
+  if (options.rebase) {
+    result.engine = "index-merge";
+    const emptyTree = await getEmptyTree();
+    const { steps, stop } = await simulateRebase(
+      theirsCommit,
+      oursCommit,
+      emptyTree,
+      ctx,
+    );
+    result.rebase = steps;
+    if (stop) {
+      // Like the stopped rebase: the commit, against its parent, is merged
+      // into the commits replayed before it
+      return await recordConflicts(
+        steps.find((step) => step.commit === stop.commit)!.conflicted_files,
+        stop.tree,
+        stop.commit,
+        stop.parent || emptyTree,
+      );
+    }
+    return result;
+  }
+
+  // A backend merges the trees itself, without the git binary
+  const { backend } = ctx;
+  if (backend && engine === "auto") {
+    result.engine = "index-merge";
+    const conflicting = new Set<string>();
+    for (const base of mergeBases.length > 0 ? mergeBases : [null]) {
+      const files = await checkConflictsWithBackend(
+        base,
+        oursCommit,
+        theirsCommit,
+        { ...ctx, backend },
+      );
+      for (const f of files) conflicting.add(f);
+    }
+    return await recordConflicts([...conflicting].sort());
+  }
+
+  // Check for conflicts using merge-ort when the installed git supports it;
+  // like a real merge, it builds a virtual merge base from multiple bases
+  const hasMergeOrt = await supportsMergeOrt();
+  if (engine === "merge-ort" && !hasMergeOrt) {
+    throw new GitError("The merge-ort engine requires Git 2.38 or newer.", 2);
+  }
+  if (engine === "merge-ort" || (engine === "auto" && hasMergeOrt)) {
+    const ortResult = await checkConflictsWithMergeOrt(
+      oursCommit,
+      theirsCommit,
+      ctx,
+    );
+    if (!ortResult.clean) {
+      return await recordConflicts(
+        ortResult.conflicted_files,
+        oursCommit,
+        theirsCommit,
+        mergeBase,
+        ortResult,
+      );
+    }
+    return result;
+  }
+
+  // The older engines take a single base: with several merge bases, check
+  // against each one and report the union of the conflicting files
+  const bases = mergeBases.length > 0 ? mergeBases : [""];
+  const emptyTree = await getEmptyTree();
+
+  // Check for conflicts using read-tree
+  if (engine !== "merge-tree") {
+    result.engine = "read-tree";
+    const oursTree = await revToTree(oursCommit, emptyTree, ctx);
+    const theirsTree = await revToTree(theirsCommit, emptyTree, ctx);
+    const unmergedFiles = new Set<string>();
+    for (const base of bases) {
+      const tempIndex = new TempIndex(ctx);
+      try {
+        await tempIndex.create();
+        const files = await checkConflictsWithReadTree(
+          await revToTree(base, emptyTree, ctx),
+          oursTree,
+          theirsTree,
+          tempIndex,
+        );
+        for (const f of files) unmergedFiles.add(f);
+      } finally {
+        await tempIndex.cleanup();
+      }
+    }
+    if (unmergedFiles.size > 0) {
+      return await recordConflicts([...unmergedFiles]);
+    }
+    if (engine === "read-tree") return result;
+  }
+
+  // Fallback: use merge-tree
+  result.engine = "merge-tree";
+  const conflictingFiles = new Set<string>();
+  for (const base of bases) {
+    const hasConflicts = await checkConflictsWithMergeTree(
+      base || emptyTree,
+      oursCommit,
+      theirsCommit,
+      emptyTree,
+      ctx,
+    );
+    if (!hasConflicts) continue;
+    const files = await getConflictingFilesFromMergeTree(
+      base || emptyTree,
+      oursCommit,
+      theirsCommit,
+      emptyTree,
+      ctx,
+    );
+    for (const f of files) conflictingFiles.add(f);
+  }
+  if (conflictingFiles.size > 0) {
+    return await recordConflicts([...conflictingFiles]);
+  }
+
+  return result;
+}
+
+/**
+ * Checks refs of one repository for merge conflicts.
+ *
+ * The working tree, the index and the refs are never modified: merges are
+ * simulated in memory or in temporary index files. A checker keeps Git
+ * processes alive between checks; close it when done, or dispose of it with
+ * `await using`.
+ *
+ * @example
+ * ```ts
+ * await using checker = new ConflictChecker({ repo: "/path/to/repo" });
+ * const ours = await checker.resolveOurs();
+ * for (const target of ["main", "release/1.x"]) {
+ *   const result = await checker.check(target, ours);
+ *   console.log(target, result.conflicts ? "conflicts" : "clean");
+ * }
+ * ```
+ */
+export class ConflictChecker {
+  /** Repository context every Git command of the checker runs with */
+  readonly ctx: RepoContext;
+  /** Maximum number of Git commands run in parallel */
+  readonly jobs: number;
+  private filters: { dir: string; glob: RegExp }[] | null;
+  private emptyTree: Promise<string> | null = null;
+
+  /**
+   * @param options - Checker options
+   * @throws {GitError} If path filters are combined with rebase simulation,
+   *   or `jobs` is not a positive integer
+   */
+  constructor(readonly options: ConflictCheckerOptions = {}) {
+    if (options.paths?.length && options.rebase) {
+      throw new GitError(
+        "Path filters are not supported with rebase simulation.",
+        2,
+      );
+    }
+    this.jobs = options.jobs ?? navigator.hardwareConcurrency;
+    if (!Number.isInteger(this.jobs) || this.jobs < 1) {
+      throw new GitError(
+        `Invalid jobs '${options.jobs}'. Expected a positive integer.`,
+        2,
+      );
+    }
+    // One limiter for every level of parallelism: targets checked at once
+    // and the files of each target share the same `jobs` Git processes
+    const repo: RepoContext = {
+      cwd: options.repo,
+      signal: options.signal,
+      limiter: new Limiter(this.jobs),
+      backend: options.backend,
+    };
+    this.ctx = options.batch === false || options.backend
+      ? repo
+      : { ...repo, objects: new ObjectReader(repo) };
+    this.filters = options.paths?.length
+      ? options.paths.map((path) => ({
+        dir: path.replace(/\/+$/, ""),
+        glob: globToRegExp(path),
+      }))
+      : null;
+  }
+
+  /**
+   * Ends the Git processes the checker keeps alive. The checker stays usable
+   * and restarts them when needed.
+   */
+  async close(): Promise<void> {
+    await this.ctx.objects?.close();
+  }
+
+  /** Closes the checker at the end of an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  /**
+   * Tells whether a file is within the `paths` filter.
+   *
+   * A file matches a filter that names it, a directory containing it or a
+   * glob matching it. Without filters every file matches.
+   *
+   * @param file - Path relative to the repository root
+   * @returns True if conflicts in the file are reported
+   */
+  matchesPaths(file: string): boolean {
+    return this.filters?.some(({ dir, glob }) =>
+      file === dir || file.startsWith(`${dir}/`) || glob.test(file)
+    ) ?? true;
+  }
+
+  /**
+   * Lists the files changed on either side of a result since the merge base,
+   * or since the empty tree without one, within the `paths` filter.
+   *
+   * @param result - Conflict check result of this checker
+   * @returns Promise resolving to the sorted file paths
+   */
+  async getChangedFiles(result: ConflictCheckResult): Promise<string[]> {
+    const { backend } = this.ctx;
+    let files: Set<string>;
+    if (backend) {
+      // Paths whose entry on either side differs from the merge base's
+      const list = async (commit: string | null) => {
+        const tree = commit ? await backend.listTree(commit) : [];
+        return new Map(tree.map((f) => [f.path, `${f.mode} ${f.oid}`]));
+      };
+      const base = await list(result.merge_base);
+      files = new Set();
+      for (const commit of [result.ours_commit, result.theirs_commit]) {
+        const side = await list(commit);
+        for (const path of new Set([...base.keys(), ...side.keys()])) {
+          if (base.get(path) !== side.get(path)) files.add(path);
+        }
+      }
+    } else {
+      const from = result.merge_base ?? await this.getEmptyTree();
+      files = new Set([
+        ...await getChangedFilesBetween(from, result.ours_commit, this.ctx),
+        ...await getChangedFilesBetween(from, result.theirs_commit, this.ctx),
+      ]);
+    }
+    return Array.from(files).filter((file) => this.matchesPaths(file)).sort();
+  }
+
+  /**
+   * Gets the empty tree SHA of the repository's object format (SHA-1 or
+   * SHA-256), detecting the format on first use.
+   *
+   * @returns Promise resolving to the empty tree SHA
+   */
+  getEmptyTree(): Promise<string> {
+    this.emptyTree ??= getObjectFormat(this.ctx).then(getEmptyTreeHash);
+    return this.emptyTree;
+  }
+
+  /**
+   * Resolves our side of the checks.
+   *
+   * With the `uncommitted` option, our side is a snapshot commit of HEAD
+   * plus the uncommitted changes, unless there are none.
+   *
+   * @param ref - Ref to check (default: the current HEAD)
+   * @returns Promise resolving to our side
+   * @throws {GitError} If the ref cannot be resolved, or uncommitted changes
+   *   are requested for a ref other than HEAD
+   */
+  async resolveOurs(ref?: string): Promise<OursSide> {
+    const { uncommitted } = this.options;
+    if (ref !== undefined && uncommitted) {
+      throw new GitError(
+        `Uncommitted changes only apply to the current HEAD, not to '${ref}'.`,
+        2,
+      );
+    }
+
+    let resolved;
+    try {
+      resolved = await resolveCommit(ref ?? "HEAD", this.ctx);
+    } catch (e) {
+      this.ctx.signal?.throwIfAborted();
+      if (ref === undefined) throw e;
+      throw new GitError(
+        `Couldn't resolve our branch/ref '${ref}' to a commit. Ensure it exists locally or as a remote-tracking ref.`,
+        2,
+      );
+    }
+    const ours: OursSide = {
+      ref: ref !== undefined
+        ? resolved.resolvedRef
+        : await getCurrentRef(this.ctx),
+      commit: resolved.commit,
+    };
+
+    // Uncommitted changes: check a snapshot commit of them on top of HEAD
+    if (uncommitted) {
+      const tree = await writeUncommittedTree(uncommitted, this.ctx);
+      const emptyTree = await this.getEmptyTree();
+      if (tree !== await revToTree(ours.commit, emptyTree, this.ctx)) {
+        ours.commit = await createSnapshotCommit(
+          tree,
+          ours.commit,
+          `Uncommitted changes (${uncommitted})`,
+          this.ctx,
+        );
+        ours.uncommitted = uncommitted;
+      }
+    }
+    return ours;
+  }
+
+  /**
+   * Resolves a ref to merge, with a user-facing error message.
+   *
+   * @param ref - Branch or ref name
+   * @returns Promise resolving to the commit SHA and resolved ref name
+   * @throws {GitError} If the ref cannot be resolved
+   */
+  async resolveTarget(ref: string): Promise<ResolvedRef> {
+    try {
+      return await resolveCommit(ref, this.ctx);
+    } catch (_e) {
+      this.ctx.signal?.throwIfAborted();
+      throw new GitError(
+        `Couldn't resolve other branch/ref '${ref}' to a commit. Ensure it exists locally or as a remote-tracking ref.`,
+        2,
+      );
+    }
+  }
+
+  /**
+   * Expands ref arguments, replacing glob patterns with the matching refs.
+   *
+   * @param args - Ref names and/or glob patterns
+   * @param exclude - Ref to leave out of the pattern matches, such as our
+   *   side's ref
+   * @returns Promise resolving to the unique ref names, in argument order
+   * @throws {GitError} If a pattern matches no refs
+   */
+  async expandRefs(args: string[], exclude?: string): Promise<string[]> {
+    const refs: string[] = [];
+    for (const arg of args) {
+      if (isRefPattern(arg)) {
+        const matches = (await expandRefPattern(arg, this.ctx)).filter((ref) =>
+          ref !== exclude
+        );
+        if (matches.length === 0) {
+          throw new GitError(`No refs match pattern '${arg}'.`, 2);
+        }
+        refs.push(...matches);
+      } else {
+        refs.push(arg);
+      }
+    }
+    return Array.from(new Set(refs));
+  }
+
+  /**
+   * Detects the default branch to check our side against.
+   *
+   * @param ours - Our side
+   * @returns Promise resolving to the detected branch name
+   * @throws {GitError} If no default branch can be found
+   */
+  async detectTarget(ours: OursSide): Promise<string> {
+    try {
+      return await detectDefaultBranch(ours.ref, this.ctx);
+    } catch (_e) {
+      this.ctx.signal?.throwIfAborted();
+      throw new GitError(
+        "Could not detect a default branch to compare against. Provide one manually as an argument.",
+        2,
+      );
+    }
+  }
+
+  /**
+   * Checks whether merging a ref into our side would conflict.
+   *
+   * @param theirs - Ref to merge
+   * @param ours - Our side (default: the current HEAD, see
+   *   {@link ConflictChecker.resolveOurs})
+   * @returns Promise resolving to the conflict check result
+   * @throws {GitError} If a ref cannot be resolved
+   */
+  async check(theirs: string, ours?: OursSide): Promise<ConflictCheckResult> {
+    const side = ours ?? await this.resolveOurs();
+    return await this.checkResolved(side, await this.resolveTarget(theirs));
+  }
+
+  /**
+   * Checks whether merging a resolved commit into our side would conflict.
+   *
+   * @param ours - Our side
+   * @param theirs - Side being merged
+   * @param onFileConflict - Called with each conflicting file of this check
+   *   (default: the `onFileConflict` option)
+   * @returns Promise resolving to the conflict check result
+   * @throws {GitError} If merge-ort is requested on Git older than 2.38
+   */
+  async checkResolved(
+    ours: OursSide,
+    theirs: ResolvedRef,
+    onFileConflict = this.options.onFileConflict,
+  ): Promise<ConflictCheckResult> {
+    return await checkPair(
+      ours,
+      theirs,
+      { ...this.options, jobs: this.jobs, onFileConflict },
+      (file) => this.matchesPaths(file),
+      () => this.getEmptyTree(),
+      this.ctx,
+    );
+  }
+
+  /**
+   * Checks our side against several targets.
+   *
+   * Up to `jobs` targets are checked in parallel. Progress is reported as
+   * `start`, `target_resolved`, `file_conflict`, `target_done` and `summary`
+   * events, in target order, as streamed by `--format ndjson`.
+   *
+   * @param targets - Ref names to merge
+   * @param ours - Our side (default: the current HEAD, see
+   *   {@link ConflictChecker.resolveOurs})
+   * @param onEvent - Called with each progress event
+   * @returns Promise resolving to the results, one per target
+   * @throws {GitError} If a target is our side's ref or cannot be resolved
+   */
+  async checkMatrix(
+    targets: string[],
+    ours?: OursSide,
+    onEvent: (event: NdjsonEvent) => void = () => {},
+  ): Promise<MatrixCheckResult> {
+    const side = ours ?? await this.resolveOurs();
+    const same = targets.find((target) => target === side.ref);
+    if (same !== undefined) {
+      throw new GitError(
+        `Other branch ('${same}') is the same as current ('${side.ref}'). Nothing to do.`,
+        2,
+      );
+    }
+
+    onEvent({
+      event: "start",
+      schema_version: JSON_SCHEMA_VERSION,
+      current_ref: side.ref,
+      ours_commit: side.commit,
+      targets,
+    });
+    // Targets are checked in parallel. The first unfinished target streams
+    // its events as they happen; later ones hold theirs back until it is
+    // done, so the stream keeps the target order.
+    const held: NdjsonEvent[][] = targets.map(() => []);
+    let streaming = 0;
+    const results = await mapConcurrent(
+      targets,
+      this.jobs,
+      (target, i) =>
+        this.checkTarget(side, target, (event) => {
+          if (i === streaming) onEvent(event);
+          else held[i].push(event);
+        }),
+      (_result, i) => {
+        streaming = i + 1;
+        held[streaming]?.splice(0).forEach(onEvent);
+      },
+    );
+
+    const conflicting = results.filter((result) => result.conflicts);
+    onEvent({
+      event: "summary",
+      conflicts: conflicting.length > 0,
+      targets: results.length,
+      conflicting_targets: conflicting.map((result) => result.other_ref),
+    });
+    return {
+      current_ref: side.ref,
+      ours_commit: side.commit,
+      conflicts: conflicting.length > 0,
+      targets: results,
+    };
+  }
+
+  /**
+   * Resolves a target ref and checks it against our side, reporting the
+   * `target_resolved`, `file_conflict` and `target_done` events.
+   *
+   * @param ours - Our side
+   * @param target - Ref to merge
+   * @param onEvent - Called with each progress event
+   * @returns Promise resolving to the conflict check result
+   */
+  private async checkTarget(
+    ours: OursSide,
+    target: string,
+    onEvent: (event: NdjsonEvent) => void,
+  ): Promise<ConflictCheckResult> {
+    const theirs = await this.resolveTarget(target);
+    onEvent({
+      event: "target_resolved",
+      requested: target,
+      target: theirs.resolvedRef,
+      theirs_commit: theirs.commit,
+    });
+    const result = await this.checkResolved(
+      ours,
+      theirs,
+      (partial, file) =>
+        onEvent({
+          event: "file_conflict",
+          target: partial.other_ref,
+          file,
+          detail: partial.files[file],
+        }),
+    );
+    const { files: _, ...summary } = result;
+    onEvent({
+      event: "target_done",
+      target: result.other_ref,
+      result: summary,
+    });
+    return result;
+  }
+
+  /**
+   * Checks every pair of refs against each other.
+   *
+   * Pairs whose merge base equals one of the tips are skipped, since merging
+   * them is a fast-forward and cannot conflict. Each remaining pair is
+   * checked once and mirrored, as conflicts are symmetric; up to `jobs`
+   * pairs are checked in parallel. Conflict details are not gathered.
+   *
+   * @param refs - Ref names to check (at least two)
+   * @returns Promise resolving to the pairwise conflict matrix
+   * @throws {GitError} If a ref cannot be resolved
+   */
+  async checkPairwise(refs: string[]): Promise<PairwiseCheckResult> {
+    const resolved: ResolvedRef[] = [];
+    for (const ref of refs) resolved.push(await this.resolveTarget(ref));
+
+    const result: PairwiseCheckResult = {
+      refs: resolved.map((r) => r.resolvedRef),
+      commits: resolved.map((r) => r.commit),
+      conflicts: false,
+      matrix: resolved.map(() => []),
+    };
+    const pairOptions = { engine: this.options.engine, jobs: this.jobs };
+
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < resolved.length; i++) {
+      result.matrix[i][i] = { status: "self", conflicted_files: [] };
+      for (let j = i + 1; j < resolved.length; j++) pairs.push([i, j]);
+    }
+
+    await mapConcurrent(pairs, this.jobs, async ([i, j]) => {
+      const ours = resolved[i];
+      const theirs = resolved[j];
+      const mergeBase = await getMergeBase(
+        ours.commit,
+        theirs.commit,
+        this.ctx,
+      );
+
+      let cell: PairwiseCell;
+      if (mergeBase === ours.commit || mergeBase === theirs.commit) {
+        cell = { status: "skipped", conflicted_files: [] };
+      } else {
+        const pair = await checkPair(
+          { ref: ours.resolvedRef, commit: ours.commit },
+          theirs,
+          pairOptions,
+          (file) => this.matchesPaths(file),
+          () => this.getEmptyTree(),
+          this.ctx,
+        );
+        cell = {
+          status: pair.conflicts ? "conflict" : "clean",
+          conflicted_files: pair.conflicted_files,
+        };
+        if (pair.conflicts) result.conflicts = true;
+      }
+      result.matrix[i][j] = cell;
+      result.matrix[j][i] = cell;
+    });
+
+    return result;
+  }
+
+  /**
+   * Simulates cherry-picking a commit or range onto each target.
+   *
+   * Every commit of the range is replayed, in order, onto each target; the
+   * result reports which commit fails on which files.
+   *
+   * @param range - Commit or range (e.g. `main~3..main`)
+   * @param targets - Ref names to replay onto
+   * @returns Promise resolving to the per-target outcome
+   * @throws {GitError} If the range or a target cannot be resolved, or path
+   *   filters are set
+   */
+  async checkBackport(
+    range: string,
+    targets: string[],
+  ): Promise<BackportCheckResult> {
+    if (this.filters) {
+      throw new GitError(
+        "Path filters are not supported with backport simulation.",
+        2,
+      );
+    }
+
+    const commits = await listCommitsInRange(range, this.ctx);
+    const emptyTree = await this.getEmptyTree();
+    const result: BackportCheckResult = {
+      range,
+      commits: commits.map((c) => c.commit),
+      clean: true,
+      targets: [],
+    };
+
+    for (const target of targets) {
+      const resolved = await this.resolveTarget(target);
+      const { steps } = await replayCommits(
+        commits,
+        resolved.commit,
+        emptyTree,
+        this.ctx,
+      );
+      const failed = steps.find((step) => step.status === "conflict");
+      result.targets.push({
+        target: resolved.resolvedRef,
+        target_commit: resolved.commit,
+        clean: !failed,
+        label: failed ? "backport-needs-manual" : "backport-clean",
+        failed_commit: failed?.commit ?? null,
+        conflicted_files: failed?.conflicted_files ?? [],
+        commits: steps,
+      });
+      if (failed) result.clean = false;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Checks whether merging one ref into another would conflict.
+ *
+ * @param options - Refs to check and checker options
+ * @returns Promise resolving to the conflict check result, as printed by
+ *   the CLI with `--json`
+ * @throws {GitError} If a ref cannot be resolved
+ *
+ * @example
+ * ```ts
+ * const result = await checkConflicts({ ours: "feature", theirs: "main" });
+ * if (result.conflicts) console.log(result.conflicted_files);
+ * ```
+ */
+export async function checkConflicts(
+  options: CheckConflictsOptions,
+): Promise<ConflictCheckResult> {
+  await using checker = new ConflictChecker(options);
+  return await checker.check(
+    options.theirs,
+    await checker.resolveOurs(options.ours),
+  );
+}
@@ -0,0 +1,1084 @@
+/**
+ * Output formatters for conflict check results.
+ *
+ * Each formatter is a pure function turning a result object into the text to
+ * print, so the rendering can be tested without running Git.
+ *
+ * @module
+ */
+
+import type {
+  BackportCheckResult,
+  ConflictCheckResult,
+  ConflictHunk,
+  ConflictHunkSide,
+  ConflictType,
+  FileConflictDetail,
+  FileVersions,
+  PairwiseCell,
+  PairwiseCheckResult,
+} from "./lib.ts";
+
+/** Output formats supported by the CLI */
+export const OUTPUT_FORMATS = [
+  "text",
+  "json",
+  "csv",
+  "sarif",
+  "junit",
+  "github",
+  "markdown",
+  "html",
+  "ndjson",
+] as const;
+
+/** Output format name */
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Version of the JSON output schema (`src/schema.json`).
+ *
+ * Bumped whenever a field is removed, renamed or changes meaning; new
+ * optional fields keep the version.
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * Checks whether a string names a supported output format.
+ *
+ * @param format - Format name from the command line
+ * @returns True if the format is supported
+ */
+export function isOutputFormat(format: string): format is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Renders a check result as the pretty-printed JSON document of `--json`,
+ * tagged with the {@link JSON_SCHEMA_VERSION}.
+ *
+ * @param result - Conflict, matrix, pairwise or backport check result
+ * @returns JSON document
+ *
+ * @example
+ * ```ts
+ * console.log(formatJson(result)); // { "schema_version": 1, ... }
+ * ```
+ */
+export function formatJson(result: object): string {
+  return JSON.stringify(
+    { schema_version: JSON_SCHEMA_VERSION, ...result },
+    null,
+    2,
+  );
+}
+
+/**
+ * Event of the `ndjson` output format, printed as one JSON object per line
+ * while the checks run.
+ *
+ * - `start`: our side and the requested targets
+ * - `target_resolved`: a target ref was resolved to a commit
+ * - `file_conflict`: a conflicting file of a target, with its details
+ * - `target_done`: the result of a target, without the per-file details
+ *   already streamed as `file_conflict` events
+ * - `summary`: overall outcome; always the last event
+ */
+export type NdjsonEvent =
+  | {
+    event: "start";
+    schema_version: number;
+    current_ref: string;
+    ours_commit: string;
+    targets: string[];
+  }
+  | {
+    event: "target_resolved";
+    requested: string;
+    target: string;
+    theirs_commit: string;
+  }
+  | {
+    event: "file_conflict";
+    target: string;
+    file: string;
+    detail: FileConflictDetail;
+  }
+  | {
+    event: "target_done";
+    target: string;
+    result: Omit<ConflictCheckResult, "files">;
+  }
+  | {
+    event: "summary";
+    conflicts: boolean;
+    targets: number;
+    conflicting_targets: string[];
+  };
+
+/**
+ * Renders one event of the `ndjson` output format as a single line of JSON.
+ *
+ * @param event - Progress or result event
+ * @returns JSON without line breaks
+ *
+ * @example
+ * ```ts
+ * console.log(formatNdjsonEvent({ event: "target_resolved", requested: "main", target: "main", theirs_commit: sha }));
+ * ```
+ */
+export function formatNdjsonEvent(event: NdjsonEvent): string {
+  return JSON.stringify(event);
+}
+
+/**
+ * Short marker used for a pairwise cell in the text grid and CSV output.
+ *
+ * @param cell - Pairwise matrix cell
+ * @returns "-" for the diagonal, "=" for skipped pairs, "." for clean pairs
+ */
+function cellMarker(cell: PairwiseCell): string {
+  switch (cell.status) {
+    case "self":
+      return "-";
+    case "skipped":
+      return "=";
+    case "clean":
+      return ".";
+    case "conflict":
+      return String(cell.conflicted_files.length);
+  }
+}
+
+/**
+ * Renders a pairwise conflict matrix as a text grid.
+ *
+ * Refs are numbered and the grid shows the number of conflicting files per
+ * pair, followed by the list of conflicting files for each conflicting pair.
+ *
+ * @param result - Pairwise check result
+ * @returns Multi-line text report
+ *
+ * @example
+ * ```ts
+ * console.log(formatPairwiseText(result));
+ * // Pairwise conflict matrix (3 refs):
+ * //   [1] feature/a
+ * //   ...
+ * ```
+ */
+export function formatPairwiseText(result: PairwiseCheckResult): string {
+  const n = result.refs.length;
+  const labels = result.refs.map((_, i) => `[${i + 1}]`);
+  const width = Math.max(
+    ...labels.map((l) => l.length),
+    ...result.matrix.flat().map((c) => cellMarker(c).length),
+  );
+  const row = (head: string, cells: string[]) =>
+    ("  " + [head, ...cells].map((c) => c.padEnd(width)).join("  "))
+      .trimEnd();
+
+  const lines = [`Pairwise conflict matrix (${n} refs):`];
+  result.refs.forEach((ref, i) => {
+    lines.push(`  ${labels[i]} ${ref} (${result.commits[i]})`);
+  });
+  lines.push("");
+  lines.push(row("", labels));
+  result.matrix.forEach((cells, i) => {
+    lines.push(row(labels[i], cells.map(cellMarker)));
+  });
+  lines.push("");
+  lines.push(
+    "Legend: N = conflicting files, . = clean, = = skipped (fast-forward), - = same ref",
+  );
+
+  const conflicting: string[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const cell = result.matrix[i][j];
+      if (cell.status !== "conflict") continue;
+      conflicting.push(
+        `  ${result.refs[i]} <-> ${result.refs[j]}: ${
+          cell.conflicted_files.join(", ")
+        }`,
+      );
+    }
+  }
+  lines.push("");
+  if (conflicting.length > 0) {
+    lines.push("Conflicting pairs:", ...conflicting);
+  } else {
+    lines.push("No conflicts expected between any pair.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Quotes a CSV field if needed (RFC 4180).
+ *
+ * @param field - Raw field value
+ * @returns Field safe to embed in a CSV row
+ */
+function csvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Renders a pairwise conflict matrix as CSV.
+ *
+ * The first row and column hold the ref names. Conflicting cells list the
+ * conflicting files separated by `;`, clean cells are empty, and the
+ * diagonal and skipped pairs use the `-` and `=` markers of the text grid.
+ *
+ * @param result - Pairwise check result
+ * @returns CSV document
+ */
+export function formatPairwiseCsv(result: PairwiseCheckResult): string {
+  const rows = [["", ...result.refs]];
+  result.matrix.forEach((cells, i) => {
+    rows.push([
+      result.refs[i],
+      ...cells.map((cell) =>
+        cell.status === "conflict"
+          ? cell.conflicted_files.join(";")
+          : cell.status === "clean"
+          ? ""
+          : cellMarker(cell)
+      ),
+    ]);
+  });
+  return rows.map((r) => r.map(csvField).join(",")).join("\n");
+}
+
+/**
+ * Renders a backport check as text: one line per target with its label and,
+ * for targets needing manual work, the failing commit and files.
+ *
+ * @param result - Backport check result
+ * @returns Multi-line text report
+ *
+ * @example
+ * ```ts
+ * console.log(formatBackportText(result));
+ * // Backport of 2 commits (main~2..main):
+ * //   release/1.0  backport-clean
+ * //   release/2.0  backport-needs-manual
+ * //     stops at 1a2b3c4d5e6f (fix login): src/login.ts
+ * ```
+ */
+export function formatBackportText(result: BackportCheckResult): string {
+  const width = Math.max(...result.targets.map((t) => t.target.length));
+  const lines = [
+    `Backport of ${result.commits.length} commit${
+      result.commits.length === 1 ? "" : "s"
+    } (${result.range}):`,
+  ];
+  for (const target of result.targets) {
+    lines.push(`  ${target.target.padEnd(width)}  ${target.label}`);
+    if (target.failed_commit) {
+      const failed = target.commits.find((c) =>
+        c.commit === target.failed_commit
+      );
+      lines.push(
+        `    stops at ${target.failed_commit.slice(0, 12)} (${
+          failed?.subject ?? ""
+        }): ${target.conflicted_files.join(", ")}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Describes the line range of one side of a conflict hunk.
+ *
+ * @param side - Side of the hunk
+ * @returns "line N", "lines N-M", or "no lines (at N)" for an empty side
+ */
+function formatHunkRange(side: ConflictHunkSide): string {
+  if (side.end < side.start) return `no lines (at ${side.start})`;
+  if (side.end === side.start) return `line ${side.start}`;
+  return `lines ${side.start}-${side.end}`;
+}
+
+/**
+ * Renders a conflict hunk with its line ranges and diff3-style markers.
+ *
+ * @param hunk - Conflict hunk
+ * @param index - 0-based position of the hunk in its file
+ * @returns Multi-line text block
+ *
+ * @example
+ * ```ts
+ * console.log(formatConflictHunk(detail.hunks[0], 0));
+ * // Conflict hunk 1: ours line 2, base line 2, theirs line 2
+ * // <<<<<<< ours
+ * // ...
+ * ```
+ */
+export function formatConflictHunk(hunk: ConflictHunk, index: number): string {
+  return [
+    `Conflict hunk ${index + 1}: ours ${formatHunkRange(hunk.ours)}, base ${
+      formatHunkRange(hunk.base)
+    }, theirs ${formatHunkRange(hunk.theirs)}`,
+    "<<<<<<< ours",
+    hunk.ours.text + "||||||| base",
+    hunk.base.text + "=======",
+    hunk.theirs.text + ">>>>>>> theirs",
+  ].join("\n");
+}
+
+/** Short descriptions of the conflict types, used as SARIF rule texts */
+const CONFLICT_TYPE_DESCRIPTIONS: Record<ConflictType, string> = {
+  content: "Both branches changed the same lines",
+  add_add: "Both branches added the file with different contents",
+  modify_delete: "Our branch modified the file, their branch deleted it",
+  delete_modify: "Our branch deleted the file, their branch modified it",
+  rename_modify: "Our branch renamed the file, their branch modified it",
+  modify_rename: "Our branch modified the file, their branch renamed it",
+  rename_rename_1to2: "Both branches renamed the file to different names",
+  rename_rename_2to1: "Both branches renamed different files to this name",
+  directory_file: "A file on one branch is a directory on the other",
+  mode: "The file mode or type differs between the branches",
+  symlink: "Both branches changed the symlink target",
+  submodule: "Both branches moved the submodule pointer",
+};
+
+/**
+ * Describes why a file is expected to conflict, for annotation-style outputs.
+ *
+ * @param result - Conflict check result the file belongs to
+ * @param file - Conflicting file path
+ * @returns One-line message naming both refs and the conflict
+ */
+function conflictMessage(result: ConflictCheckResult, file: string): string {
+  const detail = result.files[file];
+  const action = result.rebase ? "Rebasing onto" : "Merging";
+  const description = detail
+    ? CONFLICT_TYPE_DESCRIPTIONS[detail.conflict_type]
+    : "Merging the branches is expected to conflict";
+  return `${action} ${result.other_ref} into ${result.current_ref} ` +
+    `is expected to conflict in ${file}: ${
+      detail?.message?.replaceAll("\n", "; ") ?? description
+    }`;
+}
+
+/** Tool metadata for the SARIF driver */
+export interface SarifTool {
+  /** Tool name */
+  name: string;
+  /** Tool version */
+  version: string;
+}
+
+/**
+ * Renders conflict check results as a SARIF 2.1.0 log for code-scanning
+ * dashboards.
+ *
+ * Each conflicting file becomes one result whose rule is its conflict type.
+ * Hunks, when available, become line regions on our side of the file;
+ * files without details (checks run without `--diff`) get a result of the
+ * generic `conflict` rule.
+ *
+ * @param results - Conflict check results, e.g. one per matrix target
+ * @param tool - Tool name and version for the driver metadata
+ * @returns SARIF log as pretty-printed JSON
+ *
+ * @example
+ * ```ts
+ * console.log(formatSarif([result], { name: "git-check-conflicts", version: "0.0.1" }));
+ * ```
+ */
+export function formatSarif(
+  results: ConflictCheckResult[],
+  tool: SarifTool,
+): string {
+  const rules: { id: string; shortDescription: { text: string } }[] = [];
+  const ruleIndex = (id: string, description: string) => {
+    let index = rules.findIndex((rule) => rule.id === id);
+    if (index === -1) {
+      index = rules.push({ id, shortDescription: { text: description } }) - 1;
+    }
+    return index;
+  };
+
+  const sarifResults = [];
+  for (const result of results) {
+    for (const file of result.conflicted_files) {
+      const detail = result.files[file];
+      const ruleId = detail?.conflict_type ?? "conflict";
+      const description = detail
+        ? CONFLICT_TYPE_DESCRIPTIONS[detail.conflict_type]
+        : "Merging the branches is expected to conflict";
+      const regions = (detail?.hunks ?? []).map(({ ours }) => ({
+        startLine: Math.max(ours.start, 1),
+        endLine: Math.max(ours.end, ours.start, 1),
+      }));
+      const location = (region?: { startLine: number; endLine: number }) => ({
+        physicalLocation: {
+          artifactLocation: { uri: file, uriBaseId: "%SRCROOT%" },
+          ...(region ? { region } : {}),
+        },
+      });
+
+      sarifResults.push({
+        ruleId,
+        ruleIndex: ruleIndex(ruleId, description),
+        level: "warning",
+        message: { text: conflictMessage(result, file) },
+        locations: regions.length > 0
+          ? regions.map((region) => location(region))
+          : [location()],
+        properties: {
+          current_ref: result.current_ref,
+          other_ref: result.other_ref,
+          ours_commit: result.ours_commit,
+          theirs_commit: result.theirs_commit,
+        },
+      });
+    }
+  }
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: tool.name,
+          version: tool.version,
+          rules,
+        },
+      },
+      results: sarifResults,
+    }],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ *
+ * Characters that are not allowed in XML 1.0 (most control characters) are
+ * dropped.
+ *
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function xmlEscape(text: string): string {
+  return text
+    // deno-lint-ignore no-control-regex
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** One target of a JUnit report */
+export interface JunitReportTarget {
+  /** Conflict check result for the target */
+  result: ConflictCheckResult;
+  /** Files changed on either side since the merge base */
+  changedFiles: string[];
+}
+
+/**
+ * Renders conflict check results as a JUnit XML report.
+ *
+ * Each result becomes a testsuite named after the target ref, with one
+ * testcase per changed file (`changedFiles`, plus any conflicting file not
+ * listed there). Conflicting files are failures whose message is the
+ * conflict message and whose body is the diff.
+ *
+ * @param targets - Conflict check results and changed files, one per target ref
+ * @param name - Name of the testsuites element (the tool name)
+ * @returns JUnit XML document
+ *
+ * @example
+ * ```ts
+ * const changedFiles = await checker.getChangedFiles(result);
+ * const xml = formatJunit([{ result, changedFiles }], "git-check-conflicts");
+ * ```
+ */
+export function formatJunit(
+  targets: JunitReportTarget[],
+  name: string,
+): string {
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  for (const { result, changedFiles } of targets) {
+    const files = Array.from(
+      new Set([...changedFiles, ...result.conflicted_files]),
+    ).sort();
+    const conflicted = new Set(result.conflicted_files);
+    const action = result.rebase ? "rebasing onto" : "merging";
+    const cases = files.map((file) => {
+      const attrs = `classname="${xmlEscape(result.other_ref)}" name="${
+        xmlEscape(file)
+      }" file="${xmlEscape(file)}"`;
+      if (!conflicted.has(file)) return `    <testcase ${attrs}/>`;
+
+      const detail = result.files[file];
+      const message = detail?.message ??
+        `Conflict in ${file} when ${action} ${result.other_ref}`;
+      return [
+        `    <testcase ${attrs}>`,
+        `      <failure message="${xmlEscape(message)}" type="${
+          detail?.conflict_type ?? "conflict"
+        }">${xmlEscape(detail?.diff ?? "")}</failure>`,
+        "    </testcase>",
+      ].join("\n");
+    });
+
+    totalTests += files.length;
+    totalFailures += conflicted.size;
+    const properties = [
+      ["current_ref", result.current_ref],
+      ["ours_commit", result.ours_commit],
+      ["theirs_commit", result.theirs_commit],
+      ["merge_base", result.merge_base ?? ""],
+      ["engine", result.engine],
+    ].map(([key, value]) =>
+      `      <property name="${key}" value="${xmlEscape(value)}"/>`
+    );
+    suites.push(
+      [
+        `  <testsuite name="${
+          xmlEscape(result.other_ref)
+        }" tests="${files.length}" failures="${conflicted.size}" errors="0" skipped="0">`,
+        "    <properties>",
+        ...properties,
+        "    </properties>",
+        ...cases,
+        "  </testsuite>",
+      ].join("\n"),
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${
+      xmlEscape(name)
+    }" tests="${totalTests}" failures="${totalFailures}">`,
+    ...suites,
+    "</testsuites>",
+  ].join("\n");
+}
+
+/**
+ * Escapes a GitHub Actions workflow command value.
+ *
+ * @param value - Raw value
+ * @param property - True for property values (`file=...`), which must also
+ *   escape `:` and `,`
+ * @returns Escaped value
+ */
+function escapeWorkflowValue(value: string, property = false): string {
+  const escaped = value
+    .replace(/%/g, "%25")
+    .replace(/\r/g, "%0D")
+    .replace(/\n/g, "%0A");
+  return property ? escaped.replace(/:/g, "%3A").replace(/,/g, "%2C") : escaped;
+}
+
+/**
+ * Renders conflict check results as GitHub Actions `::error` workflow
+ * commands, which show up as inline annotations on the pull request.
+ *
+ * Each conflicting file becomes one annotation. When hunks are available the
+ * annotation spans the first conflict hunk on our side of the file.
+ *
+ * @param results - Conflict check results, e.g. one per matrix target
+ * @returns Workflow commands, one per line (empty if nothing conflicts)
+ *
+ * @example
+ * ```ts
+ * const annotations = formatGithubAnnotations([result]);
+ * if (annotations) console.log(annotations);
+ * ```
+ */
+export function formatGithubAnnotations(
+  results: ConflictCheckResult[],
+): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    const kind = result.rebase ? "Rebase" : "Merge";
+    for (const file of result.conflicted_files) {
+      const detail = result.files[file];
+      const properties = [`file=${escapeWorkflowValue(file, true)}`];
+      const hunk = detail?.hunks?.[0];
+      if (hunk) {
+        const start = Math.max(hunk.ours.start, 1);
+        properties.push(
+          `line=${start}`,
+          `endLine=${Math.max(hunk.ours.end, start)}`,
+        );
+      }
+      const type = detail ? ` (${detail.conflict_type})` : "";
+      properties.push(
+        `title=${
+          escapeWorkflowValue(
+            `${kind} conflict with ${result.other_ref}${type}`,
+            true,
+          )
+        }`,
+      );
+      lines.push(
+        `::error ${properties.join(",")}::${
+          escapeWorkflowValue(conflictMessage(result, file))
+        }`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Escapes text for a Markdown table cell or inline code span.
+ *
+ * @param text - Raw text
+ * @returns Text with pipes escaped and newlines flattened
+ */
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Renders conflict check results as a Markdown job summary for
+ * `$GITHUB_STEP_SUMMARY`.
+ *
+ * The summary has one table row per target ref, followed by the conflicting
+ * files of each target with their conflict types.
+ *
+ * @param results - Conflict check results, e.g. one per matrix target
+ * @param title - Heading of the summary (the tool name)
+ * @returns Markdown document
+ *
+ * @example
+ * ```ts
+ * await Deno.writeTextFile(summaryPath, formatGithubSummary([result], "git-check-conflicts"), { append: true });
+ * ```
+ */
+export function formatGithubSummary(
+  results: ConflictCheckResult[],
+  title: string,
+): string {
+  const conflicting = results.filter((result) => result.conflicts);
+  const lines = [
+    `## ${title}`,
+    "",
+    conflicting.length > 0
+      ? `:x: Conflicts expected with ${conflicting.length} of ${results.length} target(s).`
+      : `:white_check_mark: No conflicts expected with ${results.length} target(s).`,
+    "",
+    "| Target | Result | Conflicting files |",
+    "| ------ | ------ | ----------------- |",
+  ];
+  for (const result of results) {
+    const status = result.conflicts
+      ? `:x: ${result.conflicted_files.length} conflicting file(s)`
+      : ":white_check_mark: clean";
+    const files = result.conflicted_files
+      .map((file) => `\`${markdownCell(file)}\``)
+      .join(", ");
+    lines.push(
+      `| \`${markdownCell(result.other_ref)}\` | ${status} | ${files} |`,
+    );
+  }
+
+  for (const result of conflicting) {
+    const action = result.rebase ? "Rebasing onto" : "Merging";
+    lines.push(
+      "",
+      `### ${action} \`${markdownCell(result.other_ref)}\``,
+      "",
+    );
+    for (const file of result.conflicted_files) {
+      const detail = result.files[file];
+      const hunks = detail?.hunks?.length
+        ? `, ${detail.hunks.length} hunk(s)`
+        : "";
+      lines.push(
+        detail
+          ? `- \`${markdownCell(file)}\` (${detail.conflict_type}${hunks}): ${
+            CONFLICT_TYPE_DESCRIPTIONS[detail.conflict_type]
+          }`
+          : `- \`${markdownCell(file)}\``,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Hidden marker identifying report comments, so bots can update them */
+export const MARKDOWN_REPORT_MARKER = "<!-- git-check-conflicts-report -->";
+
+/** Default cap on the characters of each diff in a Markdown report */
+export const DEFAULT_MAX_DIFF_SIZE = 8000;
+
+/** Default cap on the characters of a whole Markdown report (GitHub's limit) */
+export const DEFAULT_MAX_REPORT_SIZE = 65536;
+
+/** Options for {@link formatMarkdown} */
+export interface MarkdownOptions {
+  /** Heading of the report (the tool name) */
+  title: string;
+  /** Maximum characters per diff before it is truncated */
+  maxDiffSize?: number;
+  /** Maximum characters of the whole report before files are omitted */
+  maxReportSize?: number;
+}
+
+/**
+ * Cuts a diff down to at most `maxSize` characters, at a line boundary when
+ * possible, and notes how much was left out.
+ *
+ * @param diff - Diff text
+ * @param maxSize - Maximum characters to keep
+ * @returns Diff that fits the limit
+ */
+function truncateDiff(diff: string, maxSize: number): string {
+  if (diff.length <= maxSize) return diff;
+  const cut = diff.lastIndexOf("\n", maxSize);
+  const kept = diff.slice(0, cut > 0 ? cut + 1 : maxSize);
+  const omitted = diff.slice(kept.length).split("\n").filter(Boolean).length;
+  return `${kept}${
+    kept.endsWith("\n") ? "" : "\n"
+  }… ${omitted} more line(s) truncated\n`;
+}
+
+/**
+ * Wraps text in a fenced code block whose fence is longer than any backtick
+ * run inside the text.
+ *
+ * @param text - Code block contents
+ * @param lang - Info string (language) of the block
+ * @returns Fenced code block
+ */
+function codeFence(text: string, lang: string): string {
+  const longest = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(Math.max(3, longest + 1));
+  return `${fence}${lang}\n${text.replace(/\n?$/, "\n")}${fence}`;
+}
+
+/**
+ * Renders conflict check results as a Markdown report for a pull request
+ * comment.
+ *
+ * The report starts with {@link MARKDOWN_REPORT_MARKER}. Each result gets a
+ * table of the commits involved and of its conflicting files, followed by a
+ * collapsible `<details>` block with the diff of each file, truncated to
+ * `maxDiffSize` characters. To stay under GitHub's comment size limit, file
+ * rows and diffs that would make the report longer than `maxReportSize`
+ * characters are left out, along with all files after them, and a note at
+ * the end counts the files left out.
+ *
+ * @param results - Conflict check results, e.g. one per matrix target
+ * @param options - Report title and size limits
+ * @returns Markdown document
+ *
+ * @example
+ * ```ts
+ * const body = formatMarkdown([result], { title: "git-check-conflicts" });
+ * ```
+ */
+export function formatMarkdown(
+  results: ConflictCheckResult[],
+  options: MarkdownOptions,
+): string {
+  const maxDiffSize = options.maxDiffSize ?? DEFAULT_MAX_DIFF_SIZE;
+  const maxReportSize = options.maxReportSize ?? DEFAULT_MAX_REPORT_SIZE;
+  const sections = results.map((result) =>
+    markdownSection(result, maxDiffSize)
+  );
+  const size = (lines: string[]) =>
+    lines.reduce((sum, line) => sum + line.length + 1, 0);
+  const note = (count: number) =>
+    `… ${count} more file(s) omitted to stay under ${maxReportSize} characters`;
+
+  const lines = [MARKDOWN_REPORT_MARKER, `## ${options.title}`];
+  // Every heading and table header is kept; file rows and diffs share the
+  // rest, minus room for the note
+  const fileCount = results.reduce(
+    (sum, result) => sum + result.conflicted_files.length,
+    0,
+  );
+  let budget = maxReportSize - size(lines) -
+    size(sections.flatMap((section) => section.head)) -
+    size(["", note(fileCount)]);
+  const omitted = new Set<string>();
+  for (const [i, section] of sections.entries()) {
+    lines.push(...section.head);
+    for (const { file, lines: fileLines } of section.files) {
+      const cost = size(fileLines);
+      if (omitted.size === 0 && cost <= budget) {
+        budget -= cost;
+        lines.push(...fileLines);
+      } else {
+        omitted.add(`${i}\0${file}`);
+      }
+    }
+  }
+  if (omitted.size > 0) lines.push("", note(omitted.size));
+  return lines.join("\n");
+}
+
+/**
+ * Renders the Markdown section of one result: its heading and tables, then
+ * a table row and a diff block per conflicting file.
+ *
+ * @param result - Conflict check result
+ * @param maxDiffSize - Maximum characters per diff
+ * @returns Lines that are always shown, and the lines of each file in order
+ */
+function markdownSection(
+  result: ConflictCheckResult,
+  maxDiffSize: number,
+): { head: string[]; files: { file: string; lines: string[] }[] } {
+  const action = result.rebase ? "Rebasing onto" : "Merging";
+  const into = result.rebase ? "from" : "into";
+  const mergeBases = result.merge_bases.length > 0
+    ? result.merge_bases.map((base) => `\`${base}\``).join(", ")
+    : "none";
+  const head = [
+    "",
+    `### ${result.conflicts ? ":x:" : ":white_check_mark:"} ${action} \`${
+      markdownCell(result.other_ref)
+    }\` ${into} \`${markdownCell(result.current_ref)}\``,
+    "",
+    "| Side | Ref | Commit |",
+    "| ---- | --- | ------ |",
+    `| Ours | \`${
+      markdownCell(result.current_ref)
+    }\` | \`${result.ours_commit}\` |`,
+    `| Theirs | \`${
+      markdownCell(result.other_ref)
+    }\` | \`${result.theirs_commit}\` |`,
+    `| Merge base | | ${mergeBases} |`,
+    "",
+  ];
+  if (!result.conflicts) {
+    head.push("No conflicts expected.");
+    return { head, files: [] };
+  }
+
+  head.push(
+    `${result.conflicted_files.length} conflicting file(s):`,
+    "",
+    "| File | Conflict type |",
+    "| ---- | ------------- |",
+  );
+  const files = result.conflicted_files.map((file) => ({
+    file,
+    lines: [
+      `| \`${markdownCell(file)}\` | ${
+        result.files[file]?.conflict_type ?? "unknown"
+      } |`,
+    ],
+  }));
+  for (const file of result.conflicted_files) {
+    const detail = result.files[file];
+    if (!detail?.diff) continue;
+    files.push({
+      file,
+      lines: [
+        "",
+        "<details>",
+        `<summary><code>${
+          xmlEscape(file)
+        }</code> (${detail.conflict_type})</summary>`,
+        "",
+        codeFence(truncateDiff(detail.diff, maxDiffSize), "diff"),
+        "",
+        "</details>",
+      ],
+    });
+  }
+  return { head, files };
+}
+
+/** One target of an HTML report */
+export interface HtmlReportTarget {
+  /** Conflict check result for the target */
+  result: ConflictCheckResult;
+  /** Base, ours and theirs text of each conflicting file */
+  versions: Record<string, FileVersions>;
+}
+
+/** Inline stylesheet of the HTML report */
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+code, pre, td.code { font-family: ui-monospace, monospace; font-size: 12px; }
+table.summary { border-collapse: collapse; margin-bottom: 1.5rem; }
+table.summary th, table.summary td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; }
+.clean { color: #1a7f37; }
+.conflicting { color: #cf222e; }
+.file { border: 1px solid #d0d7de; border-radius: 6px; margin: 1rem 0; padding: 0 1rem 1rem; }
+.message { white-space: pre-wrap; }
+.sides { display: grid; grid-template-columns: repeat(3, minmax(0, 1fr)); gap: 8px; }
+.side { overflow-x: auto; border: 1px solid #d0d7de; }
+.side h4 { margin: 0; padding: 4px 8px; background: #f6f8fa; }
+.side table { border-collapse: collapse; width: 100%; }
+.side td { padding: 0 6px; white-space: pre; vertical-align: top; }
+.side td.ln { color: #656d76; text-align: right; user-select: none; }
+.side tr.conflict { background: #fff8c5; }
+.missing { color: #656d76; padding: 4px 8px; }
+`;
+
+/** Inline script of the HTML report: filters files by conflict type */
+const HTML_SCRIPT = `
+document.getElementById("type-filter").addEventListener("change", (event) => {
+  const type = event.target.value;
+  for (const el of document.querySelectorAll("[data-type]")) {
+    el.hidden = type !== "" && el.dataset.type !== type;
+  }
+});
+`;
+
+/**
+ * Renders one side of a three-way view as a table of numbered lines, with
+ * the lines inside conflict hunks highlighted.
+ *
+ * @param label - Side name shown as the heading
+ * @param text - File content on this side, if present
+ * @param regions - Conflict hunk line ranges on this side
+ * @returns HTML fragment
+ */
+function htmlSide(
+  label: string,
+  text: string | undefined,
+  regions: ConflictHunkSide[],
+): string {
+  if (text === undefined) {
+    return `<div class="side"><h4>${label}</h4>` +
+      `<p class="missing">Not present as text on this side</p></div>`;
+  }
+  const rows = text.replace(/\n$/, "").split("\n").map((line, i) => {
+    const n = i + 1;
+    const conflict = regions.some(({ start, end }) => n >= start && n <= end);
+    return `<tr${
+      conflict ? ' class="conflict"' : ""
+    }><td class="ln">${n}</td><td class="code">${xmlEscape(line)}</td></tr>`;
+  });
+  return `<div class="side"><h4>${label}</h4><table>\n${
+    rows.join("\n")
+  }\n</table></div>`;
+}
+
+/**
+ * Renders conflict check results as a self-contained HTML report.
+ *
+ * The page has a summary table with one row per target, a list of the
+ * conflicting files that can be filtered by conflict type, and for each file
+ * a side-by-side base/ours/theirs view with the conflict hunks highlighted.
+ * Styles and the filter script are inlined, so the file works offline.
+ *
+ * @param targets - Check results with the file versions of each target
+ * @param title - Page title (the tool name)
+ * @returns HTML document
+ *
+ * @example
+ * ```ts
+ * await Deno.writeTextFile("conflicts.html", formatHtml([{ result, versions }], "git-check-conflicts"));
+ * ```
+ */
+export function formatHtml(
+  targets: HtmlReportTarget[],
+  title: string,
+): string {
+  const summaryRows = targets.map(({ result }) => {
+    const status = result.conflicts
+      ? `<span class="conflicting">${result.conflicted_files.length} conflicting file(s)</span>`
+      : '<span class="clean">clean</span>';
+    return `<tr><td><code>${xmlEscape(result.other_ref)}</code></td>` +
+      `<td><code>${xmlEscape(result.current_ref)}</code> ${
+        result.ours_commit.slice(0, 12)
+      }</td>` +
+      `<td>${result.theirs_commit.slice(0, 12)}</td>` +
+      `<td>${
+        result.merge_bases.map((base) => base.slice(0, 12)).join(", ") ||
+        "none"
+      }</td>` +
+      `<td>${status}</td></tr>`;
+  });
+
+  const types = new Set<string>();
+  const listItems: string[] = [];
+  const sections: string[] = [];
+  targets.forEach(({ result, versions }, t) => {
+    const action = result.rebase ? "Rebasing onto" : "Merging";
+    result.conflicted_files.forEach((file, f) => {
+      const detail = result.files[file];
+      const type = detail?.conflict_type ?? "conflict";
+      types.add(type);
+      const id = `file-${t}-${f}`;
+      listItems.push(
+        `<li data-type="${type}"><a href="#${id}"><code>${
+          xmlEscape(file)
+        }</code></a> (${type}) — ${xmlEscape(result.other_ref)}</li>`,
+      );
+
+      const hunks = detail?.hunks ?? [];
+      const fileVersions = versions[file] ?? {};
+      sections.push(
+        [
+          `<section class="file" id="${id}" data-type="${type}">`,
+          `<h3><code>${xmlEscape(file)}</code> <small>${type} · ${action} ${
+            xmlEscape(result.other_ref)
+          }</small></h3>`,
+          `<p class="message">${
+            xmlEscape(
+              detail?.message ??
+                (detail
+                  ? CONFLICT_TYPE_DESCRIPTIONS[detail.conflict_type]
+                  : ""),
+            )
+          }</p>`,
+          '<div class="sides">',
+          htmlSide("Base", fileVersions.base, hunks.map((h) => h.base)),
+          htmlSide("Ours", fileVersions.ours, hunks.map((h) => h.ours)),
+          htmlSide("Theirs", fileVersions.theirs, hunks.map((h) => h.theirs)),
+          "</div>",
+          "</section>",
+        ].join("\n"),
+      );
+    });
+  });
+
+  const options = [...types].sort().map((type) =>
+    `<option value="${type}">${type}</option>`
+  );
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${xmlEscape(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${xmlEscape(title)}</h1>`,
+    '<table class="summary">',
+    "<tr><th>Target</th><th>Ours</th><th>Theirs</th><th>Merge base</th><th>Result</th></tr>",
+    ...summaryRows,
+    "</table>",
+    "<h2>Conflicting files</h2>",
+    '<label>Conflict type <select id="type-filter">',
+    '<option value="">all</option>',
+    ...options,
+    "</select></label>",
+    `<ul id="files">`,
+    ...listItems,
+    "</ul>",
+    ...sections,
+    `<script>${HTML_SCRIPT}</script>`,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
@@ -0,0 +1,820 @@
+/**
+ * {@link GitBackend} reading the repository's files directly.
+ *
+ * {@link FsBackend} finds the Git directory, resolves refs from loose ref
+ * files and `packed-refs`, and reads loose objects and packfiles (zlib
+ * inflation, pack index lookup and delta resolution) in TypeScript. Contents
+ * are merged with {@link mergeText} and the diffs of conflict details are
+ * computed in memory, so conflict detection and reports run without the `git`
+ * binary and with read permission only. Conflict details of a backend do not
+ * detect renames.
+ *
+ * Repositories using features it does not implement, such as alternates,
+ * reftable refs or version 1 pack indexes, are handed to a fallback backend,
+ * by default a {@link CliBackend}.
+ *
+ * @example
+ * ```ts
+ * // deno run --allow-read
+ * const backend = new FsBackend({ cwd: "/path/to/repo" }, null);
+ * await using checker = new ConflictChecker({ backend });
+ * const result = await checker.check("main", await checker.resolveOurs("HEAD"));
+ * console.log(result.conflicted_files);
+ * ```
+ *
+ * @module
+ */
+
+import {
+  CliBackend,
+  type GitBackend,
+  type MergeFileResult,
+  type TreeFile,
+} from "./backend.ts";
+import { DEFAULT_CONTEXT, GitError, type RepoContext } from "./lib.ts";
+import { mergeText } from "./memory_backend.ts";
+import { type GitObject, parseTree } from "./object_reader.ts";
+
+/**
+ * Thrown when a repository uses a feature {@link FsBackend} cannot read.
+ */
+export class UnsupportedRepositoryError extends GitError {
+  /**
+   * @param feature - Description of the unsupported feature
+   */
+  constructor(feature: string) {
+    super(`Unsupported repository feature: ${feature}`, 2);
+    this.name = "UnsupportedRepositoryError";
+  }
+}
+
+/** Type and content of an object, as stored */
+type RawObject = Pick<GitObject, "type" | "content">;
+
+/** Fields of a commit needed to walk history */
+interface CommitInfo {
+  tree: string;
+  parents: string[];
+  /** Committer timestamp, in seconds */
+  date: number;
+}
+
+/** Repository extensions that do not change how objects and refs are read */
+const READABLE_EXTENSIONS = [
+  "objectformat",
+  "worktreeconfig",
+  "preciousobjects",
+  "noop",
+];
+
+/** Object types by their number in pack entry headers */
+const PACK_TYPES: Record<number, RawObject["type"]> = {
+  1: "commit",
+  2: "tree",
+  3: "blob",
+  4: "tag",
+};
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+/** Decoded delta bases kept per repository */
+const DELTA_CACHE_SIZE = 64;
+
+const decoder = new TextDecoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(
+    { length: hex.length / 2 },
+    (_, i) => parseInt(hex.slice(2 * i, 2 * i + 2), 16),
+  );
+}
+
+/** Reads a file, or returns null if there is no file at the path */
+async function readOptional(
+  path: string,
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  try {
+    return await Deno.readFile(path);
+  } catch (e) {
+    if (
+      e instanceof Deno.errors.NotFound ||
+      e instanceof Deno.errors.NotADirectory ||
+      e instanceof Deno.errors.IsADirectory
+    ) {
+      return null;
+    }
+    throw e;
+  }
+}
+
+/** Reads `length` bytes of a file, starting at `start` */
+async function readRange(
+  path: string,
+  start: number,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  using file = await Deno.open(path);
+  await file.seek(start, Deno.SeekMode.Start);
+  const buffer = new Uint8Array(length);
+  let read = 0;
+  while (read < length) {
+    const n = await file.read(buffer.subarray(read));
+    if (n === null) break;
+    read += n;
+  }
+  return buffer.subarray(0, read);
+}
+
+/** Inflates a zlib stream */
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Parses a Git config file into values by lowercase `section.key` or
+ * `section.subsection.key`. Only the first value of a key is kept.
+ */
+function parseConfig(text: string): Map<string, string> {
+  const values = new Map<string, string>();
+  let section = "";
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) continue;
+    const header = /^\[\s*([^\s"\]]+)(?:\s+"(.*)")?\s*\]/.exec(line);
+    if (header) {
+      section = header[1].toLowerCase() +
+        (header[2] !== undefined ? `.${header[2]}` : "");
+      continue;
+    }
+    const [key, ...value] = line.split("=");
+    const name = `${section}.${key.trim().toLowerCase()}`;
+    if (!values.has(name)) {
+      values.set(name, value.length > 0 ? value.join("=").trim() : "true");
+    }
+  }
+  return values;
+}
+
+/**
+ * Applies a pack delta to its base object.
+ *
+ * A delta starts with the base and result sizes, followed by instructions
+ * that either copy a range of the base or insert literal bytes.
+ */
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let i = 0;
+  const size = () => {
+    let value = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = delta[i++];
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+  if (size() !== base.length) throw new GitError("Corrupt pack delta", 2);
+  const result = new Uint8Array(size());
+  let written = 0;
+  while (i < delta.length) {
+    const op = delta[i++];
+    if (op & 0x80) {
+      // Copy: the low bits select which offset and size bytes follow
+      let offset = 0;
+      let length = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        if (op & (1 << bit)) offset += delta[i++] * 2 ** (8 * bit);
+      }
+      for (let bit = 0; bit < 3; bit++) {
+        if (op & (0x10 << bit)) length += delta[i++] * 2 ** (8 * bit);
+      }
+      result.set(base.subarray(offset, offset + (length || 0x10000)), written);
+      written += length || 0x10000;
+    } else if (op > 0) {
+      result.set(delta.subarray(i, i + op), written);
+      i += op;
+      written += op;
+    } else {
+      throw new GitError("Corrupt pack delta", 2);
+    }
+  }
+  return result;
+}
+
+/**
+ * A packfile and its version 2 index.
+ *
+ * The index lists the object IDs in sorted order with their offsets in the
+ * pack; the end of an entry is the offset of the next one.
+ */
+class Pack {
+  private view: DataView;
+  private count: number;
+  private oidsStart = 8 + 256 * 4;
+  private offsetsStart: number;
+  private sortedOffsets?: Float64Array;
+
+  private constructor(
+    readonly path: string,
+    private index: Uint8Array,
+    private oidLength: number,
+    private size: number,
+  ) {
+    this.view = new DataView(index.buffer, index.byteOffset, index.byteLength);
+    this.count = this.fanout(255);
+    this.offsetsStart = this.oidsStart + this.count * (oidLength + 4);
+  }
+
+  /**
+   * Opens a pack by the path of its index.
+   *
+   * @throws {UnsupportedRepositoryError} For index or pack versions other
+   *   than 2 (and 3, for packs)
+   */
+  static async open(indexPath: string, oidLength: number): Promise<Pack> {
+    const index = await Deno.readFile(indexPath);
+    const view = new DataView(index.buffer, index.byteOffset, index.length);
+    // Version 1 indexes have no header and start with the fanout table
+    const version = view.getUint32(0) === 0xff744f63 ? view.getUint32(4) : 1;
+    if (version !== 2) {
+      throw new UnsupportedRepositoryError(
+        `pack index version ${version} (${indexPath})`,
+      );
+    }
+    const path = indexPath.replace(/\.idx$/, ".pack");
+    const header = await readRange(path, 0, 12);
+    const packVersion = new DataView(header.buffer).getUint32(4);
+    if (
+      decoder.decode(header.subarray(0, 4)) !== "PACK" ||
+      (packVersion !== 2 && packVersion !== 3)
+    ) {
+      throw new UnsupportedRepositoryError(
+        `pack version ${packVersion} (${path})`,
+      );
+    }
+    return new Pack(path, index, oidLength, (await Deno.stat(path)).size);
+  }
+
+  /** Looks up an object and returns its offset in the pack */
+  find(oid: Uint8Array): number | null {
+    let low = oid[0] === 0 ? 0 : this.fanout(oid[0] - 1);
+    let high = this.fanout(oid[0]);
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const start = this.oidsStart + mid * this.oidLength;
+      const entry = this.index.subarray(start, start + this.oidLength);
+      const order = entry.findIndex((byte, i) => byte !== oid[i]);
+      if (order === -1) return this.offset(mid);
+      if (entry[order] < oid[order]) low = mid + 1;
+      else high = mid;
+    }
+    return null;
+  }
+
+  /** Lists the IDs of the objects starting with a hex prefix */
+  findPrefix(prefix: string): string[] {
+    const first = parseInt(prefix.slice(0, 2), 16);
+    const matches: string[] = [];
+    for (
+      let i = first === 0 ? 0 : this.fanout(first - 1);
+      i < this.fanout(first);
+      i++
+    ) {
+      const start = this.oidsStart + i * this.oidLength;
+      const oid = toHex(this.index.subarray(start, start + this.oidLength));
+      if (oid.startsWith(prefix)) matches.push(oid);
+    }
+    return matches;
+  }
+
+  /** Offset where the entry starting at `offset` ends */
+  end(offset: number): number {
+    this.sortedOffsets ??= Float64Array.from(
+      { length: this.count },
+      (_, i) => this.offset(i),
+    ).sort();
+    const offsets = this.sortedOffsets;
+    let low = 0;
+    let high = offsets.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (offsets[mid] <= offset) low = mid + 1;
+      else high = mid;
+    }
+    // The last entry is followed by the pack checksum
+    return low < offsets.length ? offsets[low] : this.size - this.oidLength;
+  }
+
+  /** Number of objects whose ID starts with a byte up to `byte` */
+  private fanout(byte: number): number {
+    return this.view.getUint32(8 + byte * 4);
+  }
+
+  /** Pack offset of the i-th object; large offsets live in a separate table */
+  private offset(i: number): number {
+    const offset = this.view.getUint32(this.offsetsStart + i * 4);
+    if (offset < 0x80000000) return offset;
+    const large = this.offsetsStart + this.count * 4 +
+      (offset - 0x80000000) * 8;
+    return Number(this.view.getBigUint64(large));
+  }
+}
+
+/**
+ * Read access to a Git directory: refs, loose objects and packs.
+ */
+class GitDir {
+  private commits = new Map<string, CommitInfo>();
+  private deltaBases = new Map<string, RawObject>();
+
+  private constructor(
+    /** Per-worktree directory, holding HEAD */
+    private gitDir: string,
+    /** Directory shared by all worktrees, holding objects and refs */
+    private commonDir: string,
+    readonly oidLength: number,
+    /** Names of the configured remotes */
+    readonly remotes: string[],
+    private packedRefs: Map<string, string>,
+    private packs: Pack[],
+  ) {}
+
+  /**
+   * Finds and opens the Git directory of a working directory.
+   *
+   * @throws {GitError} If the directory is not in a repository
+   * @throws {UnsupportedRepositoryError} If the repository uses a feature
+   *   that cannot be read
+   */
+  static async open(cwd: string): Promise<GitDir> {
+    const gitDir = await GitDir.find(await Deno.realPath(cwd));
+    const commondir = await readOptional(`${gitDir}/commondir`);
+    const commonDir = commondir
+      ? GitDir.join(gitDir, decoder.decode(commondir).trim())
+      : gitDir;
+
+    const config = parseConfig(
+      decoder.decode(
+        await readOptional(`${commonDir}/config`) ?? new Uint8Array(),
+      ),
+    );
+    for (const [key, value] of config) {
+      const [section, name] = key.split(".");
+      if (section === "extensions" && !READABLE_EXTENSIONS.includes(name)) {
+        throw new UnsupportedRepositoryError(`extensions.${name} = ${value}`);
+      }
+    }
+    const format = config.get("extensions.objectformat") ?? "sha1";
+    if (format !== "sha1" && format !== "sha256") {
+      throw new UnsupportedRepositoryError(`object format ${format}`);
+    }
+    if (await readOptional(`${commonDir}/objects/info/alternates`)) {
+      throw new UnsupportedRepositoryError("alternate object directories");
+    }
+    const remotes = [...config.keys()]
+      .map((key) => /^remote\.(.+)\.url$/.exec(key)?.[1])
+      .filter((remote) => remote !== undefined);
+
+    // Lines are "<oid> <ref>", or "^<oid>" for the target of an annotated tag
+    const packedRefs = new Map<string, string>();
+    const packed = await readOptional(`${commonDir}/packed-refs`);
+    for (const line of decoder.decode(packed ?? new Uint8Array()).split("\n")) {
+      const [oid, ref] = line.trim().split(" ");
+      if (ref && !oid.startsWith("#")) packedRefs.set(ref, oid);
+    }
+
+    const oidLength = format === "sha256" ? 32 : 20;
+    const packs: Pack[] = [];
+    try {
+      for await (const entry of Deno.readDir(`${commonDir}/objects/pack`)) {
+        if (entry.name.endsWith(".idx")) {
+          packs.push(
+            await Pack.open(
+              `${commonDir}/objects/pack/${entry.name}`,
+              oidLength,
+            ),
+          );
+        }
+      }
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) throw e;
+    }
+    return new GitDir(gitDir, commonDir, oidLength, remotes, packedRefs, packs);
+  }
+
+  /**
+   * Finds the Git directory of a working directory: a `.git` directory or
+   * `gitdir:` file in it or a parent, or the directory itself when bare.
+   */
+  private static async find(dir: string): Promise<string> {
+    for (let current = dir;;) {
+      const dotGit = `${current}/.git`;
+      const stat = await Deno.stat(dotGit).catch(() => null);
+      if (stat?.isDirectory) return dotGit;
+      if (stat?.isFile) {
+        const link = decoder.decode(await Deno.readFile(dotGit));
+        const match = /^gitdir:\s*(.+?)\s*$/m.exec(link);
+        if (match) return GitDir.join(current, match[1]);
+      }
+      const [head, objects] = await Promise.all(
+        ["HEAD", "objects"].map((name) =>
+          Deno.stat(`${current}/${name}`).catch(() => null)
+        ),
+      );
+      if (head?.isFile && objects?.isDirectory) return current;
+
+      const parent = current.replace(/[\\/][^\\/]*$/, "");
+      if (parent === current || !parent) {
+        throw new GitError(`Not a git repository: ${dir}`, 2);
+      }
+      current = parent;
+    }
+  }
+
+  /** Resolves a path relative to a directory, unless it is absolute */
+  private static join(dir: string, path: string): string {
+    return /^([\\/]|[A-Za-z]:)/.test(path) ? path : `${dir}/${path}`;
+  }
+
+  /**
+   * Reads a ref, following symbolic refs.
+   *
+   * @param name - Full ref name, e.g. "HEAD" or "refs/heads/main"
+   * @returns The object ID, or null if the ref does not exist
+   */
+  async readRef(name: string, depth = 0): Promise<string | null> {
+    if (depth > 5 || name.split("/").some((part) => !part || part === "..")) {
+      return null;
+    }
+    const dir = name.startsWith("refs/") ? this.commonDir : this.gitDir;
+    const loose = await readOptional(`${dir}/${name}`);
+    if (!loose) return this.packedRefs.get(name) ?? null;
+    const value = decoder.decode(loose).trim();
+    if (value.startsWith("ref:")) {
+      return await this.readRef(value.slice(4).trim(), depth + 1);
+    }
+    return value;
+  }
+
+  /**
+   * Reads the target of a symbolic ref.
+   *
+   * @param name - Ref name, e.g. "HEAD"
+   * @returns The full name of the ref it points to, or null if it is not a
+   *   symbolic ref
+   */
+  async readSymbolicRef(name: string): Promise<string | null> {
+    const loose = await readOptional(`${this.gitDir}/${name}`);
+    const value = loose ? decoder.decode(loose).trim() : "";
+    return value.startsWith("ref:") ? value.slice(4).trim() : null;
+  }
+
+  /** Lists the IDs of the objects starting with a hex prefix */
+  async findObjects(prefix: string): Promise<string[]> {
+    const matches = new Set(
+      this.packs.flatMap((pack) => pack.findPrefix(prefix)),
+    );
+    try {
+      const dir = `${this.commonDir}/objects/${prefix.slice(0, 2)}`;
+      for await (const entry of Deno.readDir(dir)) {
+        const oid = prefix.slice(0, 2) + entry.name;
+        if (oid.startsWith(prefix)) matches.add(oid);
+      }
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) throw e;
+    }
+    return [...matches];
+  }
+
+  /**
+   * Reads an object from the packs or the loose object directory.
+   *
+   * @returns The object, or null if the repository has no such object
+   */
+  async readObject(oid: string): Promise<RawObject | null> {
+    if (!new RegExp(`^[0-9a-f]{${this.oidLength * 2}}$`).test(oid)) return null;
+    const bytes = fromHex(oid);
+    for (const pack of this.packs) {
+      const offset = pack.find(bytes);
+      if (offset !== null) return await this.readPacked(pack, offset);
+    }
+
+    // Loose objects are "<type> <size>\0<content>", deflated
+    const loose = await readOptional(
+      `${this.commonDir}/objects/${oid.slice(0, 2)}/${oid.slice(2)}`,
+    );
+    if (!loose) return null;
+    const data = await inflate(loose);
+    const nul = data.indexOf(0);
+    const type = decoder.decode(data.subarray(0, nul)).split(" ")[0];
+    return { type: type as RawObject["type"], content: data.subarray(nul + 1) };
+  }
+
+  /**
+   * Reads a commit.
+   *
+   * @returns The commit, or null if the object is missing or not a commit
+   */
+  async readCommit(oid: string): Promise<CommitInfo | null> {
+    const cached = this.commits.get(oid);
+    if (cached) return cached;
+    const object = await this.readObject(oid);
+    if (object?.type !== "commit") return null;
+
+    // Headers end at the first empty line, before the message
+    const text = decoder.decode(object.content);
+    const headers = text.slice(0, text.indexOf("\n\n")).split("\n");
+    const value = (line: string) => line.slice(line.indexOf(" ") + 1);
+    const committer = headers.find((line) => line.startsWith("committer "));
+    const commit: CommitInfo = {
+      tree: value(headers.find((line) => line.startsWith("tree ")) ?? ""),
+      parents: headers.filter((line) => line.startsWith("parent "))
+        .map(value),
+      date: Number(committer?.split(" ").at(-2)) || 0,
+    };
+    this.commits.set(oid, commit);
+    return commit;
+  }
+
+  /**
+   * Reads a pack entry, resolving deltas against their base objects.
+   *
+   * An entry header holds the type and size in a variable-length integer;
+   * deltas are followed by the distance back to their base (offset deltas)
+   * or its object ID (ref deltas), then the deflated data.
+   */
+  private async readPacked(pack: Pack, offset: number): Promise<RawObject> {
+    const key = `${pack.path}:${offset}`;
+    const cached = this.deltaBases.get(key);
+    if (cached) return cached;
+
+    const entry = await readRange(pack.path, offset, pack.end(offset) - offset);
+    let i = 0;
+    let byte = entry[i++];
+    const type = (byte >> 4) & 7;
+    while (byte & 0x80) byte = entry[i++];
+
+    let base: RawObject | null = null;
+    if (type === OFS_DELTA) {
+      byte = entry[i++];
+      let distance = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = entry[i++];
+        distance = (distance + 1) * 128 + (byte & 0x7f);
+      }
+      base = await this.readPacked(pack, offset - distance);
+    } else if (type === REF_DELTA) {
+      const baseOid = toHex(entry.subarray(i, i + this.oidLength));
+      i += this.oidLength;
+      base = await this.readObject(baseOid);
+      if (!base) throw new GitError(`Missing delta base '${baseOid}'`, 2);
+    } else if (!PACK_TYPES[type]) {
+      throw new UnsupportedRepositoryError(`pack object type ${type}`);
+    }
+
+    const data = await inflate(entry.subarray(i));
+    const object = base
+      ? { type: base.type, content: applyDelta(base.content, data) }
+      : { type: PACK_TYPES[type], content: data };
+    this.deltaBases.set(key, object);
+    if (this.deltaBases.size > DELTA_CACHE_SIZE) {
+      this.deltaBases.delete(this.deltaBases.keys().next().value!);
+    }
+    return object;
+  }
+}
+
+/**
+ * {@link GitBackend} reading the Git directory with Deno file APIs only.
+ *
+ * Revisions are resolved like `git rev-parse`: full or abbreviated object
+ * IDs, `HEAD` and other refs by their short names, `~n` and `^n` suffixes,
+ * and branches of the configured remotes. The repository is opened on first
+ * use; refs are read on each call, `packed-refs` and the list of packs once.
+ */
+export class FsBackend implements GitBackend {
+  private dir?: Promise<GitDir>;
+
+  /**
+   * @param ctx - Repository to read (default: the current working
+   *   directory)
+   * @param fallback - Backend to use if the repository has features that
+   *   cannot be read, or null to throw {@link UnsupportedRepositoryError}
+   *   instead (default: a {@link CliBackend} on the same repository)
+   */
+  constructor(
+    readonly ctx: RepoContext = DEFAULT_CONTEXT,
+    private fallback: GitBackend | null = new CliBackend(ctx),
+  ) {}
+
+  resolveCommit(rev: string): Promise<string | null> {
+    return this.run(async (dir) => {
+      const commit = await this.resolve(dir, rev);
+      if (commit) return commit;
+      for (const remote of dir.remotes) {
+        const candidate = await this.resolve(dir, `${remote}/${rev}`);
+        if (candidate) return candidate;
+      }
+      return null;
+    }, (backend) => backend.resolveCommit(rev));
+  }
+
+  getCurrentBranch(): Promise<string | null> {
+    return this.run(async (dir) => {
+      const target = await dir.readSymbolicRef("HEAD");
+      return target?.startsWith("refs/heads/")
+        ? target.slice("refs/heads/".length)
+        : null;
+    }, (backend) => backend.getCurrentBranch());
+  }
+
+  getMergeBases(a: string, b: string): Promise<string[]> {
+    return this.run(
+      (dir) => this.mergeBases(dir, a, b),
+      (backend) => backend.getMergeBases(a, b),
+    );
+  }
+
+  listTree(commit: string): Promise<TreeFile[]> {
+    return this.run(async (dir) => {
+      const tree = (await dir.readCommit(commit))?.tree;
+      if (!tree) throw new GitError(`Cannot list the tree of '${commit}'`, 2);
+      const files: TreeFile[] = [];
+      const walk = async (oid: string, prefix: string) => {
+        const object = await dir.readObject(oid);
+        if (object?.type !== "tree") {
+          throw new GitError(`Cannot read tree '${oid}'`, 2);
+        }
+        for (const entry of parseTree(object.content, dir.oidLength)) {
+          const path = prefix + entry.name;
+          if (entry.type === "tree") await walk(entry.oid, `${path}/`);
+          else files.push({ path, mode: entry.mode, oid: entry.oid });
+        }
+      };
+      await walk(tree, "");
+      return files.sort((x, y) => x.path < y.path ? -1 : 1);
+    }, (backend) => backend.listTree(commit));
+  }
+
+  readBlob(oid: string): Promise<Uint8Array | null> {
+    return this.run(async (dir) => {
+      const object = await dir.readObject(oid);
+      return object?.type === "blob" ? object.content : null;
+    }, (backend) => backend.readBlob(oid));
+  }
+
+  mergeFile(
+    base: string | null,
+    ours: string,
+    theirs: string,
+  ): Promise<MergeFileResult> {
+    return this.run(async (dir) => {
+      const contents: string[] = [];
+      for (const oid of [base, ours, theirs]) {
+        const object = oid ? await dir.readObject(oid) : null;
+        if (oid && object?.type !== "blob") {
+          throw new GitError(`Cannot read blob '${oid}'`, 2);
+        }
+        contents.push(object ? decoder.decode(object.content) : "");
+      }
+      const [b, o, t] = contents;
+      return mergeText(b, o, t);
+    }, (backend) => backend.mergeFile(base, ours, theirs));
+  }
+
+  /**
+   * Runs an operation on the Git directory, or on the fallback backend if
+   * the repository cannot be read.
+   */
+  private async run<T>(
+    operation: (dir: GitDir) => Promise<T>,
+    fallback: (backend: GitBackend) => Promise<T>,
+  ): Promise<T> {
+    try {
+      this.dir ??= GitDir.open(this.ctx.cwd ?? ".");
+      return await operation(await this.dir);
+    } catch (e) {
+      if (e instanceof UnsupportedRepositoryError && this.fallback) {
+        return await fallback(this.fallback);
+      }
+      throw e;
+    }
+  }
+
+  /** Resolves a revision to a commit, without trying remotes */
+  private async resolve(dir: GitDir, rev: string): Promise<string | null> {
+    const match = /^(.+?)((?:[~^]\d*)*)$/.exec(
+      rev.replace(/\^\{(commit)?\}$/, ""),
+    );
+    if (!match) return null;
+    let oid = await this.resolveName(dir, match[1]);
+
+    // Peel annotated tags down to the commit they point to
+    for (let depth = 0; oid && depth < 10; depth++) {
+      const object = await dir.readObject(oid);
+      if (object?.type !== "tag") break;
+      oid = /^object (\S+)/.exec(decoder.decode(object.content))?.[1] ?? null;
+    }
+    if (!oid || !await dir.readCommit(oid)) return null;
+
+    // "~n" follows first parents n times, "^n" selects the n-th parent
+    for (const [, op, digits] of match[2].matchAll(/([~^])(\d*)/g)) {
+      const count = digits === "" ? 1 : Number(digits);
+      if (op === "~") {
+        for (let i = 0; i < count && oid; i++) {
+          oid = (await dir.readCommit(oid))?.parents[0] ?? null;
+        }
+      } else if (count > 0) {
+        oid = (await dir.readCommit(oid!))?.parents[count - 1] ?? null;
+      }
+      if (!oid) return null;
+    }
+    return oid;
+  }
+
+  /**
+   * Resolves an object ID or ref name, in the order of `git rev-parse`:
+   * full IDs, then refs, then abbreviated IDs that are unambiguous.
+   */
+  private async resolveName(dir: GitDir, name: string): Promise<string | null> {
+    if (new RegExp(`^[0-9a-f]{${dir.oidLength * 2}}$`).test(name)) return name;
+    const refs = [
+      ...(/^[A-Z_]+$/.test(name) || name.startsWith("refs/") ? [name] : []),
+      `refs/${name}`,
+      `refs/tags/${name}`,
+      `refs/heads/${name}`,
+      `refs/remotes/${name}`,
+      `refs/remotes/${name}/HEAD`,
+    ];
+    for (const ref of refs) {
+      const oid = await dir.readRef(ref);
+      if (oid) return oid;
+    }
+    if (/^[0-9a-f]{4,}$/.test(name)) {
+      const matches = await dir.findObjects(name);
+      if (matches.length === 1) return matches[0];
+    }
+    return null;
+  }
+
+  /**
+   * Computes the merge bases like `git merge-base --all`.
+   *
+   * Commits are visited newest first, marking which side reaches them; a
+   * commit reached from both sides is a candidate, and its ancestors are no
+   * longer interesting. Candidates reachable from another one are dropped.
+   */
+  private async mergeBases(
+    dir: GitDir,
+    a: string,
+    b: string,
+  ): Promise<string[]> {
+    const [FROM_A, FROM_B, STALE] = [1, 2, 4];
+    const flags = new Map<string, number>();
+    const queue: { oid: string; date: number }[] = [];
+    const push = async (oid: string, flag: number) => {
+      flags.set(oid, (flags.get(oid) ?? 0) | flag);
+      const date = (await dir.readCommit(oid))?.date ?? 0;
+      const index = queue.findIndex((entry) => entry.date < date);
+      queue.splice(index === -1 ? queue.length : index, 0, { oid, date });
+    };
+    await push(a, FROM_A);
+    await push(b, FROM_B);
+
+    const candidates: string[] = [];
+    while (queue.some(({ oid }) => !(flags.get(oid)! & STALE))) {
+      const { oid } = queue.shift()!;
+      let flag = flags.get(oid)!;
+      if ((flag & (FROM_A | FROM_B)) === (FROM_A | FROM_B)) {
+        if (!(flag & STALE) && !candidates.includes(oid)) candidates.push(oid);
+        flag |= STALE;
+      }
+      for (const parent of (await dir.readCommit(oid))?.parents ?? []) {
+        if (((flags.get(parent) ?? 0) & flag) !== flag) {
+          await push(parent, flag);
+        }
+      }
+    }
+
+    if (candidates.length < 2) return candidates;
+    const reachable = new Set<string>();
+    for (const candidate of candidates) {
+      const pending = [...(await dir.readCommit(candidate))?.parents ?? []];
+      while (pending.length > 0) {
+        const next = pending.pop()!;
+        if (reachable.has(next)) continue;
+        reachable.add(next);
+        pending.push(...(await dir.readCommit(next))?.parents ?? []);
+      }
+    }
+    return candidates.filter((candidate) => !reachable.has(candidate));
+  }
+}
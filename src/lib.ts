@@ -1,10 +1,12 @@
 /**
  * Core library for detecting Git merge conflicts.
  *
- * This module provides functions to check for merge conflicts between Git branches
- * using two strategies: `read-tree` (fast, reliable) and `merge-tree` (fallback for
- * complex scenarios). It can detect content conflicts, rename/modify conflicts,
- * and delete/modify conflicts.
+ * This module provides functions to check for merge conflicts between Git branches.
+ * On Git 2.38 and newer it uses `git merge-tree --write-tree` (the merge-ort
+ * engine), which performs a real merge in memory. Older Git versions fall back
+ * to two strategies: `read-tree` (fast, reliable) and the trivial `merge-tree`
+ * (fallback for complex scenarios). It can detect content conflicts,
+ * rename/modify conflicts, and delete/modify conflicts.
  *
  * @example
  * ```ts
@@ -20,12 +22,98 @@
  * @module
  */
 
+import type { GitBackend, MergeFileResult, TreeFile } from "./backend.ts";
+import { unifiedDiff } from "./memory_backend.ts";
+import type { ObjectReader } from "./object_reader.ts";
+
 /** Maximum number of lines to search ahead for file metadata in merge-tree output */
 const MERGE_TREE_METADATA_SEARCH_WINDOW = 4;
 
 /** Maximum number of lines to search ahead for conflict markers in merge-tree output */
 const MERGE_TREE_CONFLICT_MARKER_SEARCH_WINDOW = 20;
 
+/** Minimum Git version providing `git merge-tree --write-tree` (merge-ort) */
+const MERGE_ORT_MIN_VERSION: GitVersion = { major: 2, minor: 38, patch: 0 };
+
+/**
+ * Repository that library calls operate on.
+ *
+ * Every function that runs Git takes an optional context as its last
+ * argument, so one process can work with several repositories at once.
+ * Without one, Git runs in the process's current working directory.
+ * An abort signal cancels the Git commands started with the context, an
+ * object reader answers object lookups without spawning Git for each one, a
+ * limiter caps the number of Git commands running at once, and a backend
+ * replaces the `git` binary for refs, merge bases, trees, blobs and file
+ * merges.
+ *
+ * @example
+ * ```ts
+ * const ctx: RepoContext = { cwd: "/path/to/repo" };
+ * const ref = await getCurrentRef(ctx);
+ * const { commit } = await resolveCommit("main", ctx);
+ * ```
+ */
+export interface RepoContext {
+  /** Directory to run Git in (the repository or any directory inside it) */
+  cwd?: string;
+  /**
+   * Kills running Git commands when aborted; the calls then reject with the
+   * signal's reason
+   */
+  signal?: AbortSignal;
+  /**
+   * Long-lived `git cat-file` processes for resolving revisions, listing
+   * trees and reading blobs; without one, each lookup spawns Git
+   */
+  objects?: ObjectReader;
+  /** Caps the number of Git commands running at once */
+  limiter?: Limiter;
+  /**
+   * Resolves refs, finds merge bases, lists trees, reads blobs and merges
+   * files instead of the `git` binary and the object reader
+   */
+  backend?: GitBackend;
+}
+
+/** Context that runs Git in the process's current working directory */
+export const DEFAULT_CONTEXT: RepoContext = Object.freeze({});
+
+/**
+ * Repository context for analysing the conflicts of one check.
+ *
+ * Detecting renames diffs the whole tree of each side against the merge base.
+ * Passing the same analysis context to every {@link getFileConflictDetail}
+ * and {@link fileDiffFor} call of a check runs each of these diffs once
+ * instead of once per conflicting file.
+ *
+ * @example
+ * ```ts
+ * const analysis = createAnalysisContext({ cwd: "/path/to/repo" });
+ * for (const file of conflictedFiles) {
+ *   details[file] = await getFileConflictDetail(
+ *     file, ours, theirs, base, undefined, analysis,
+ *   );
+ * }
+ * ```
+ */
+export interface AnalysisContext extends RepoContext {
+  /** Renames between two commits as [old path, new path] pairs, by "from..to" */
+  renames: Map<string, Promise<string[][]>>;
+}
+
+/**
+ * Creates an analysis context with empty caches.
+ *
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns A new {@link AnalysisContext} for one check
+ */
+export function createAnalysisContext(
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): AnalysisContext {
+  return { ...ctx, renames: new Map() };
+}
+
 /**
  * Result of executing a shell command.
  */
@@ -43,7 +131,9 @@ export type CmdResult = {
  *
  * @param cmd - Array where first element is the program and rest are arguments
  * @param env - Optional environment variables to merge with current environment
+ * @param ctx - Repository to run in (default: the current working directory)
  * @returns Promise resolving to command result with exit code and output
+ * @throws The abort reason if `ctx.signal` is aborted
  *
  * @example
  * ```ts
@@ -56,20 +146,130 @@ export type CmdResult = {
 export async function runCmd(
   cmd: string[],
   env?: Record<string, string>,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<CmdResult> {
+  if (ctx.limiter) {
+    const { limiter, ...unlimited } = ctx;
+    return await limiter.run(() => runCmd(cmd, env, unlimited));
+  }
+  ctx.signal?.throwIfAborted();
   const [program, ...args] = cmd;
   const command = new Deno.Command(program, {
     args,
+    cwd: ctx.cwd,
     env: env ? { ...Deno.env.toObject(), ...env } : undefined,
     stdout: "piped",
     stderr: "piped",
+    signal: ctx.signal,
   });
   const { code, stdout, stderr } = await command.output();
+  // A killed command's output is incomplete; never interpret it
+  ctx.signal?.throwIfAborted();
   const out = new TextDecoder().decode(stdout).trim();
   const err = new TextDecoder().decode(stderr).trim();
   return { code, stdout: out, stderr: err };
 }
 
+/**
+ * Runs a Git command with binary input and output.
+ *
+ * Unlike {@link runCmd}, stdout is returned as raw bytes (not decoded or
+ * trimmed), which is required for blob contents.
+ *
+ * @param args - Git command arguments (without the "git" prefix)
+ * @param input - Optional bytes to write to the command's stdin
+ * @param env - Optional environment variables to merge with current environment
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to exit code, raw stdout and decoded stderr
+ * @throws The abort reason if `ctx.signal` is aborted
+ */
+export async function runGitBytes(
+  args: string[],
+  input?: Uint8Array,
+  env?: Record<string, string>,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<{ code: number; stdout: Uint8Array; stderr: string }> {
+  if (ctx.limiter) {
+    const { limiter, ...unlimited } = ctx;
+    return await limiter.run(() => runGitBytes(args, input, env, unlimited));
+  }
+  ctx.signal?.throwIfAborted();
+  const command = new Deno.Command("git", {
+    args,
+    cwd: ctx.cwd,
+    env: env ? { ...Deno.env.toObject(), ...env } : undefined,
+    stdin: input ? "piped" : "null",
+    stdout: "piped",
+    stderr: "piped",
+    signal: ctx.signal,
+  });
+  const child = command.spawn();
+  // Write while reading: a child filling its stdout pipe stops reading stdin
+  const write = async () => {
+    if (!input) return;
+    const writer = child.stdin.getWriter();
+    await writer.write(input);
+    await writer.close();
+  };
+  const [, { code, stdout, stderr }] = await Promise.all([
+    write(),
+    child.output(),
+  ]);
+  ctx.signal?.throwIfAborted();
+  return { code, stdout, stderr: new TextDecoder().decode(stderr).trim() };
+}
+
+/**
+ * Resolves a revision to an object ID, through the context's object reader
+ * if it has one.
+ *
+ * @param rev - Revision, e.g. `main^{commit}`
+ * @param ctx - Repository to run in
+ * @returns Promise resolving to the object ID, or null if the revision does
+ *   not name an object
+ */
+async function resolveObject(
+  rev: string,
+  ctx: RepoContext,
+): Promise<string | null> {
+  if (ctx.objects && !rev.includes("\n")) {
+    return (await ctx.objects.info(rev))?.oid ?? null;
+  }
+  const result = await runCmd(
+    ["git", "rev-parse", "--verify", rev],
+    undefined,
+    ctx,
+  );
+  return result.code === 0 && result.stdout ? result.stdout : null;
+}
+
+/**
+ * Reads the content of a blob, through the context's backend or object
+ * reader if it has one.
+ *
+ * @param oid - Blob ID
+ * @param ctx - Repository to run in
+ * @returns Promise resolving to the raw content, or null if there is no such
+ *   blob
+ */
+async function readBlob(
+  oid: string,
+  ctx: RepoContext,
+): Promise<Uint8Array | null> {
+  if (ctx.backend) return await ctx.backend.readBlob(oid);
+  if (ctx.objects) {
+    const object = await ctx.objects.read(oid);
+    return object?.type === "blob" ? object.content : null;
+  }
+  const blob = await runGitBytes(
+    ["cat-file", "blob", oid],
+    undefined,
+    undefined,
+    ctx,
+  );
+  return blob.code === 0 ? blob.stdout : null;
+}
+
 /**
  * Custom error class for Git-related errors.
  *
@@ -91,12 +291,115 @@ export class GitError extends Error {
   }
 }
 
+/**
+ * Runs an async function over a list with at most `jobs` calls in flight.
+ *
+ * Results keep the order of the input, whatever order the calls finish in,
+ * and `onResult` sees them in that order as soon as all earlier ones are
+ * done. After the first failure no new call starts; the returned promise
+ * rejects with that error once the running calls have settled.
+ *
+ * @param items - Inputs to process
+ * @param jobs - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async function to run for each input
+ * @param onResult - Optional callback receiving each result in input order
+ * @returns Promise resolving to the results, in input order
+ *
+ * @example
+ * ```ts
+ * const diffs = await mapConcurrent(files, 4, (file) =>
+ *   fileDiffFor(file, ours, theirs));
+ * ```
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  jobs: number,
+  fn: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, index: number) => void,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const done: boolean[] = new Array(items.length).fill(false);
+  let next = 0;
+  let reported = 0;
+  let failed = false;
+  let failure: unknown;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+        done[index] = true;
+        while (!failed && reported < items.length && done[reported]) {
+          onResult?.(results[reported], reported);
+          reported++;
+        }
+      } catch (error) {
+        if (!failed) failure = error;
+        failed = true;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(jobs, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  if (failed) throw failure;
+  return results;
+}
+
+/**
+ * Caps the number of Git processes running at once.
+ *
+ * Share one limiter between nested {@link mapConcurrent} calls, such as the
+ * targets of a check and the files of each target, to keep the total number
+ * of processes at `jobs` instead of their product. It only wraps leaf work
+ * that never waits for the limiter itself, so nesting cannot deadlock.
+ *
+ * @example
+ * ```ts
+ * const ctx: RepoContext = { cwd: "/path/to/repo", limiter: new Limiter(4) };
+ * ```
+ */
+export class Limiter {
+  private running = 0;
+  private queue: (() => void)[] = [];
+
+  /**
+   * @param jobs - Maximum number of calls running at once (at least 1)
+   */
+  constructor(readonly jobs: number) {}
+
+  /**
+   * Runs an async function once fewer than `jobs` calls are running.
+   *
+   * @param fn - Function to run
+   * @returns Promise resolving to the function's result
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.running >= this.jobs) {
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.running++;
+    }
+    try {
+      return await fn();
+    } finally {
+      // Hand the slot to the next waiting call, if any
+      const next = this.queue.shift();
+      if (next) next();
+      else this.running--;
+    }
+  }
+}
+
 /**
  * Gets the current Git ref (branch name or short commit SHA).
  *
  * Attempts to get the symbolic ref (branch name) first, falls back to
  * short commit SHA if HEAD is detached.
  *
+ * @param ctx - Repository to run in (default: the current working directory)
+ *
  * @returns Promise resolving to current ref name or short SHA
  * @throws {GitError} If unable to determine current ref
  *
@@ -106,17 +409,35 @@ export class GitError extends Error {
  * console.log(`Currently on: ${ref}`); // "main" or "abc1234"
  * ```
  */
-export async function getCurrentRef(): Promise<string> {
-  let result = await runCmd([
-    "git",
-    "symbolic-ref",
-    "--quiet",
-    "--short",
-    "HEAD",
-  ]);
+export async function getCurrentRef(
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string> {
+  if (ctx.backend) {
+    const branch = await ctx.backend.getCurrentBranch();
+    if (branch) return branch;
+    const commit = await ctx.backend.resolveCommit("HEAD");
+    if (commit) return commit.slice(0, 7);
+    throw new GitError("Couldn't determine current branch/HEAD.", 2);
+  }
+
+  let result = await runCmd(
+    [
+      "git",
+      "symbolic-ref",
+      "--quiet",
+      "--short",
+      "HEAD",
+    ],
+    undefined,
+    ctx,
+  );
   if (result.code === 0 && result.stdout) return result.stdout;
 
-  result = await runCmd(["git", "rev-parse", "--short", "HEAD"]);
+  result = await runCmd(
+    ["git", "rev-parse", "--short", "HEAD"],
+    undefined,
+    ctx,
+  );
   if (result.code === 0 && result.stdout) return result.stdout;
 
   throw new GitError("Couldn't determine current branch/HEAD.", 2);
@@ -132,6 +453,7 @@ export async function getCurrentRef(): Promise<string> {
  * 4. Most recent local branch (excluding current)
  *
  * @param currentRef - The current ref to exclude from search
+ * @param ctx - Repository to run in (default: the current working directory)
  * @returns Promise resolving to the detected default branch name
  * @throws {GitError} If no suitable branch is found
  *
@@ -141,29 +463,40 @@ export async function getCurrentRef(): Promise<string> {
  * // Returns "main", "master", or "origin/main"
  * ```
  */
-export async function detectDefaultBranch(currentRef: string): Promise<string> {
+export async function detectDefaultBranch(
+  currentRef: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string> {
   // Try to find remote HEAD
-  const remotesRes = await runCmd(["git", "remote"]);
+  const remotesRes = await runCmd(["git", "remote"], undefined, ctx);
   if (remotesRes.code === 0 && remotesRes.stdout) {
     const remotes = remotesRes.stdout.split(/\r?\n/).filter(Boolean);
     for (const remote of remotes) {
-      const symbolicRef = await runCmd([
-        "git",
-        "symbolic-ref",
-        "--quiet",
-        `refs/remotes/${remote}/HEAD`,
-      ]);
+      const symbolicRef = await runCmd(
+        [
+          "git",
+          "symbolic-ref",
+          "--quiet",
+          `refs/remotes/${remote}/HEAD`,
+        ],
+        undefined,
+        ctx,
+      );
       if (symbolicRef.code === 0 && symbolicRef.stdout) {
         const localBranch = symbolicRef.stdout.replace(
           `refs/remotes/${remote}/`,
           "",
         );
-        const localExists = await runCmd([
-          "git",
-          "show-ref",
-          "--verify",
-          `refs/heads/${localBranch}`,
-        ]);
+        const localExists = await runCmd(
+          [
+            "git",
+            "show-ref",
+            "--verify",
+            `refs/heads/${localBranch}`,
+          ],
+          undefined,
+          ctx,
+        );
         if (localExists.code === 0) return localBranch;
         return `${remote}/${localBranch}`; // remote-tracking ref
       }
@@ -172,25 +505,37 @@ export async function detectDefaultBranch(currentRef: string): Promise<string> {
 
   // Fallback to local main/master
   if (
-    (await runCmd(["git", "show-ref", "--verify", "refs/heads/main"])).code ===
+    (await runCmd(
+      ["git", "show-ref", "--verify", "refs/heads/main"],
+      undefined,
+      ctx,
+    )).code ===
       0
   ) {
     return "main";
   }
   if (
-    (await runCmd(["git", "show-ref", "--verify", "refs/heads/master"]))
+    (await runCmd(
+      ["git", "show-ref", "--verify", "refs/heads/master"],
+      undefined,
+      ctx,
+    ))
       .code === 0
   ) {
     return "master";
   }
   // most recent local branch excluding current
-  const recent = await runCmd([
-    "git",
-    "for-each-ref",
-    "--sort=-committerdate",
-    "--format=%(refname:short)",
-    "refs/heads",
-  ]);
+  const recent = await runCmd(
+    [
+      "git",
+      "for-each-ref",
+      "--sort=-committerdate",
+      "--format=%(refname:short)",
+      "refs/heads",
+    ],
+    undefined,
+    ctx,
+  );
   if (recent.code === 0 && recent.stdout) {
     const candidates = recent.stdout.split(/\r?\n/).filter(Boolean).filter(
       (n) => n !== currentRef,
@@ -208,6 +553,7 @@ export async function detectDefaultBranch(currentRef: string): Promise<string> {
  * resolve it as a remote branch by prefixing each configured remote name.
  *
  * @param ref - The Git reference to resolve (e.g., "main", "v1.0", "abc123")
+ * @param ctx - Repository to run in (default: the current working directory)
  * @returns Promise resolving to an object with the commit SHA and resolved reference
  * @throws {GitError} When the reference cannot be resolved to a commit
  *
@@ -224,35 +570,152 @@ export async function detectDefaultBranch(currentRef: string): Promise<string> {
  */
 export async function resolveCommit(
   ref: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<{ commit: string; resolvedRef: string }> {
-  const result = await runCmd([
-    "git",
-    "rev-parse",
-    "--verify",
-    `${ref}^{commit}`,
-  ]);
-  if (result.code === 0 && result.stdout) {
-    return { commit: result.stdout, resolvedRef: ref };
-  }
+  // A backend looks up remote-tracking refs itself
+  const commit = ctx.backend
+    ? await ctx.backend.resolveCommit(ref)
+    : await resolveObject(`${ref}^{commit}`, ctx);
+  if (commit) return { commit, resolvedRef: ref };
+  if (ctx.backend) throw new GitError(`Couldn't resolve '${ref}' to a commit`);
 
   // try remotes as candidate/ref
-  const remotes = (await runCmd(["git", "remote"])).stdout.split(/\r?\n/)
+  const remotes = (await runCmd(["git", "remote"], undefined, ctx)).stdout
+    .split(/\r?\n/)
     .filter(Boolean);
   for (const remote of remotes) {
     const candidate = `${remote}/${ref}`;
-    const candidateResult = await runCmd([
-      "git",
-      "rev-parse",
-      "--verify",
-      `${candidate}^{commit}`,
-    ]);
-    if (candidateResult.code === 0 && candidateResult.stdout) {
-      return { commit: candidateResult.stdout, resolvedRef: candidate };
+    const candidateCommit = await resolveObject(`${candidate}^{commit}`, ctx);
+    if (candidateCommit) {
+      return { commit: candidateCommit, resolvedRef: candidate };
     }
   }
   throw new GitError(`Couldn't resolve '${ref}' to a commit`);
 }
 
+/**
+ * Checks whether a ref argument is a glob pattern rather than a plain ref.
+ *
+ * @param ref - Ref name or pattern
+ * @returns True if the argument contains glob characters (`*`, `?`, `[`)
+ */
+export function isRefPattern(ref: string): boolean {
+  return /[*?[]/.test(ref);
+}
+
+/**
+ * Expands a glob pattern to the matching branch names.
+ *
+ * Patterns starting with `refs/` are matched against full ref names. Other
+ * patterns are matched against local branches (`refs/heads/`) and
+ * remote-tracking branches (`refs/remotes/`). Symbolic refs such as
+ * `origin/HEAD` are skipped. Matching follows `git for-each-ref`, so `*` does
+ * not cross a `/`.
+ *
+ * @param pattern - Glob pattern (e.g. "release/*" or "refs/remotes/origin/feature/*")
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the short names of the matching refs
+ *
+ * @example
+ * ```ts
+ * const targets = await expandRefPattern("release/*");
+ * console.log(targets); // ["release/1.0", "release/2.0", "origin/release/2.1"]
+ * ```
+ */
+export async function expandRefPattern(
+  pattern: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string[]> {
+  const patterns = pattern.startsWith("refs/")
+    ? [pattern]
+    : [`refs/heads/${pattern}`, `refs/remotes/${pattern}`];
+  const result = await runCmd(
+    [
+      "git",
+      "for-each-ref",
+      "--format=%(if)%(symref)%(then)%(else)%(refname:short)%(end)",
+      ...patterns,
+    ],
+    undefined,
+    ctx,
+  );
+  if (result.code !== 0) return [];
+  return Array.from(new Set(result.stdout.split(/\r?\n/).filter(Boolean)));
+}
+
+/**
+ * Computes the merge base of two commits.
+ *
+ * @param oursCommit - First commit
+ * @param theirsCommit - Second commit
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the merge-base commit SHA, or an empty string
+ *   if the commits have no common ancestor
+ *
+ * @example
+ * ```ts
+ * const mergeBase = await getMergeBase("abc123", "def456");
+ * console.log(mergeBase || "(no common ancestor)");
+ * ```
+ */
+export async function getMergeBase(
+  oursCommit: string,
+  theirsCommit: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string> {
+  if (ctx.backend) {
+    return (await ctx.backend.getMergeBases(oursCommit, theirsCommit))[0] ?? "";
+  }
+  const result = await runCmd(
+    ["git", "merge-base", oursCommit, theirsCommit],
+    undefined,
+    ctx,
+  );
+  return result.code === 0 && result.stdout ? result.stdout : "";
+}
+
+/**
+ * Computes all merge bases of two commits.
+ *
+ * Criss-cross histories (each branch merged the other at some point) have
+ * several best common ancestors; `git merge-base` without `--all` silently
+ * picks one of them.
+ *
+ * @param oursCommit - First commit
+ * @param theirsCommit - Second commit
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the merge-base commit SHAs, empty if the
+ *   commits have no common ancestor
+ *
+ * @example
+ * ```ts
+ * const bases = await getMergeBases("abc123", "def456");
+ * if (bases.length > 1) console.log("criss-cross history");
+ * ```
+ */
+export async function getMergeBases(
+  oursCommit: string,
+  theirsCommit: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string[]> {
+  if (ctx.backend) {
+    return await ctx.backend.getMergeBases(oursCommit, theirsCommit);
+  }
+  const result = await runCmd(
+    [
+      "git",
+      "merge-base",
+      "--all",
+      oursCommit,
+      theirsCommit,
+    ],
+    undefined,
+    ctx,
+  );
+  if (result.code !== 0) return [];
+  return result.stdout.split(/\r?\n/).filter(Boolean);
+}
+
 /**
  * Converts a revision (commit, branch, tag) to its tree SHA.
  *
@@ -261,23 +724,139 @@ export async function resolveCommit(
  *
  * @param rev - The Git revision to convert (commit SHA, branch, tag)
  * @param emptyTree - The SHA of the empty tree to return as fallback
+ * @param ctx - Repository to run in (default: the current working directory)
  * @returns Promise resolving to the tree SHA
  *
  * @example
  * ```ts
- * const emptyTree = getEmptyTreeHash();
+ * const emptyTree = getEmptyTreeHash(await getObjectFormat());
  * const tree = await revToTree("main", emptyTree);
- * console.log(tree); // "4b825dc642cb6eb9a060e54bf8d69288fbee4904..."
+ * console.log(tree); // "a1b2c3..."
  * ```
  */
 export async function revToTree(
   rev: string,
   emptyTree: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<string> {
   if (!rev) return emptyTree;
-  const result = await runCmd(["git", "rev-parse", `${rev}^{tree}`]);
-  if (result.code === 0 && result.stdout) return result.stdout;
-  return emptyTree;
+  return await resolveObject(`${rev}^{tree}`, ctx) ?? emptyTree;
+}
+
+/**
+ * Source of uncommitted changes to include on our side of a check.
+ *
+ * - `staged`: the contents of the index
+ * - `worktree`: the working tree, including untracked files not ignored by
+ *   `.gitignore`
+ */
+export type UncommittedSource = "staged" | "worktree";
+
+/**
+ * Writes a tree object from uncommitted changes.
+ *
+ * The real index is copied to a temporary index first, so neither the index
+ * nor the working tree is modified. For `worktree`, all working tree changes
+ * are added to the copy with `git add -A` before writing the tree.
+ *
+ * @param source - Which uncommitted changes to include
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the tree SHA
+ * @throws {GitError} If the tree cannot be written (e.g. unmerged entries in the index)
+ *
+ * @example
+ * ```ts
+ * const tree = await writeUncommittedTree("staged");
+ * ```
+ */
+export async function writeUncommittedTree(
+  source: UncommittedSource,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string> {
+  const indexPath = await runCmd(
+    ["git", "rev-parse", "--git-path", "index"],
+    undefined,
+    ctx,
+  );
+  if (indexPath.code !== 0 || !indexPath.stdout) {
+    throw new GitError(`Couldn't locate the index: ${indexPath.stderr}`);
+  }
+  // The path is relative to the directory Git ran in
+  const indexFile = /^([A-Za-z]:)?[\\/]/.test(indexPath.stdout) || !ctx.cwd
+    ? indexPath.stdout
+    : `${ctx.cwd}/${indexPath.stdout}`;
+
+  const tempIndex = new TempIndex(ctx);
+  try {
+    const path = await tempIndex.create();
+    try {
+      await Deno.copyFile(indexFile, path);
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) throw e;
+      // No index yet (nothing staged): start from an empty one
+      await tempIndex.runGitWithIndex(["read-tree", "--empty"]);
+    }
+
+    if (source === "worktree") {
+      const add = await tempIndex.runGitWithIndex(["add", "-A"]);
+      if (add.code !== 0) {
+        throw new GitError(`Couldn't add working tree changes: ${add.stderr}`);
+      }
+    }
+
+    const tree = await tempIndex.runGitWithIndex(["write-tree"]);
+    if (tree.code !== 0 || !tree.stdout) {
+      throw new GitError(
+        `Couldn't write a tree from the ${
+          source === "staged" ? "index" : "working tree"
+        }: ${tree.stderr}`,
+      );
+    }
+    return tree.stdout;
+  } finally {
+    await tempIndex.cleanup();
+  }
+}
+
+/**
+ * Creates a commit object for a tree without updating any ref.
+ *
+ * Used to check uncommitted changes with the commit-based engines. A fixed
+ * identity is used, so no user configuration is required.
+ *
+ * @param tree - Tree SHA to commit
+ * @param parent - Parent commit SHA
+ * @param message - Commit message
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the new commit SHA
+ * @throws {GitError} If the commit cannot be created
+ *
+ * @example
+ * ```ts
+ * const tree = await writeUncommittedTree("worktree");
+ * const commit = await createSnapshotCommit(tree, head, "Uncommitted changes");
+ * ```
+ */
+export async function createSnapshotCommit(
+  tree: string,
+  parent: string,
+  message: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string> {
+  const result = await runCmd(
+    ["git", "commit-tree", tree, "-p", parent, "-m", message],
+    {
+      GIT_AUTHOR_NAME: "git-check-conflicts",
+      GIT_AUTHOR_EMAIL: "git-check-conflicts@localhost",
+      GIT_COMMITTER_NAME: "git-check-conflicts",
+      GIT_COMMITTER_EMAIL: "git-check-conflicts@localhost",
+    },
+    ctx,
+  );
+  if (result.code !== 0 || !result.stdout) {
+    throw new GitError(`Couldn't create snapshot commit: ${result.stderr}`);
+  }
+  return result.stdout;
 }
 
 /**
@@ -321,6 +900,9 @@ export function parseUnmergedFiles(lsOutput: string): string[] {
  * @param oursCommit - Commit SHA for "our" side (current branch)
  * @param theirsCommit - Commit SHA for "their" side (merging branch)
  * @param mergeBase - Optional merge-base commit SHA for rename detection
+ * @param ctx - Repository to run in; pass the check's
+ *   {@link AnalysisContext} to share rename detection between files (default:
+ *   the current working directory)
  * @returns Promise resolving to the diff string with optional rename info, or null if no diff
  *
  * @example
@@ -339,75 +921,61 @@ export async function fileDiffFor(
   oursCommit: string,
   theirsCommit: string,
   mergeBase?: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<string | null> {
   let renameInfo = "";
 
   // If we have a merge-base, check for renames on each side
   if (mergeBase) {
-    // Check our side for renames - don't filter by file since it may have been renamed
-    const ourRenames = await runCmd([
-      "git",
-      "diff",
-      "-M",
-      "--name-status",
-      "--diff-filter=R",
-      mergeBase,
-      oursCommit,
-    ]);
-
-    // Check their side for renames
-    const theirRenames = await runCmd([
-      "git",
-      "diff",
-      "-M",
-      "--name-status",
-      "--diff-filter=R",
-      mergeBase,
-      theirsCommit,
-    ]);
+    // Check both sides for renames - don't filter by file since it may have been renamed
+    const ourRenames = await listRenames(mergeBase, oursCommit, ctx);
+    const theirRenames = await listRenames(mergeBase, theirsCommit, ctx);
 
     // Look for our file in the rename list (checking if it's the OLD name that was renamed)
-    const ourRenameMatch = ourRenames.stdout?.split("\n")
-      .map((line) => line.match(/^R\d+\s+(\S+)\s+(\S+)$/))
-      .find((match) => match && match[1] === file);
-
-    const theirRenameMatch = theirRenames.stdout?.split("\n")
-      .map((line) => line.match(/^R\d+\s+(\S+)\s+(\S+)$/))
-      .find((match) => match && match[1] === file);
+    const ourRenameMatch = ourRenames.find(([oldName]) => oldName === file);
+    const theirRenameMatch = theirRenames.find(([oldName]) => oldName === file);
 
     if (ourRenameMatch) {
-      const [, oldName, newName] = ourRenameMatch;
+      const [oldName, newName] = ourRenameMatch;
       renameInfo =
         `⚠️  RENAME/MODIFY CONFLICT:\n   Your branch: renamed ${oldName} → ${newName}\n   Their branch: modified ${oldName}\n\n`;
 
       // Compare the renamed file on our side with the original file on their side
-      const renameContentDiff = await runCmd([
-        "git",
-        "diff",
-        "-U3",
-        "--no-prefix",
-        `${oursCommit}:${newName}`,
-        `${theirsCommit}:${oldName}`,
-      ]);
+      const renameContentDiff = await runCmd(
+        [
+          "git",
+          "diff",
+          "-U3",
+          "--no-prefix",
+          `${oursCommit}:${newName}`,
+          `${theirsCommit}:${oldName}`,
+        ],
+        undefined,
+        ctx,
+      );
 
       const renameDiffOutput = renameContentDiff.stdout?.trim() ||
         renameContentDiff.stderr?.trim() || "";
       return renameInfo +
         (renameDiffOutput || "(Files are identical after rename)");
     } else if (theirRenameMatch) {
-      const [, oldName, newName] = theirRenameMatch;
+      const [oldName, newName] = theirRenameMatch;
       renameInfo =
         `⚠️  MODIFY/RENAME CONFLICT:\n   Your branch: modified ${oldName}\n   Their branch: renamed ${oldName} → ${newName}\n\n`;
 
       // Compare the original file on our side with the renamed file on their side
-      const renameContentDiff = await runCmd([
-        "git",
-        "diff",
-        "-U3",
-        "--no-prefix",
-        `${oursCommit}:${oldName}`,
-        `${theirsCommit}:${newName}`,
-      ]);
+      const renameContentDiff = await runCmd(
+        [
+          "git",
+          "diff",
+          "-U3",
+          "--no-prefix",
+          `${oursCommit}:${oldName}`,
+          `${theirsCommit}:${newName}`,
+        ],
+        undefined,
+        ctx,
+      );
 
       const renameDiffOutput = renameContentDiff.stdout?.trim() ||
         renameContentDiff.stderr?.trim() || "";
@@ -416,17 +984,34 @@ export async function fileDiffFor(
     }
   }
 
-  const d = await runCmd([
-    "git",
-    "diff",
-    "-U3",
-    "--no-prefix",
-    "-M",
-    oursCommit,
-    theirsCommit,
-    "--",
-    file,
-  ]);
+  if (ctx.backend) {
+    const stages = await getTreeStages(
+      file,
+      undefined,
+      oursCommit,
+      theirsCommit,
+      ctx,
+    );
+    const [ours, theirs] = [2, 3].map((n) => stages.find((s) => s.stage === n));
+    return (await diffEntries(file, ours, theirs, ctx.backend)).trim() ||
+      null;
+  }
+
+  const d = await runCmd(
+    [
+      "git",
+      "diff",
+      "-U3",
+      "--no-prefix",
+      "-M",
+      oursCommit,
+      theirsCommit,
+      "--",
+      file,
+    ],
+    undefined,
+    ctx,
+  );
 
   const diffOutput = d.stdout?.trim() || d.stderr?.trim() || "";
 
@@ -434,17 +1019,632 @@ export async function fileDiffFor(
 }
 
 /**
- * Gets detailed conflict information for a file with structured metadata.
+ * Formats the `git diff -U3 --no-prefix` of a file between two tree entries,
+ * reading the blobs through a backend.
+ *
+ * @param file - File path (relative to the repository root)
+ * @param from - Entry on our side, if the path exists there
+ * @param to - Entry on their side, if the path exists there
+ * @param backend - Backend to read the blobs from
+ * @returns Promise resolving to the diff, or "" if the entries are equal
+ */
+async function diffEntries(
+  file: string,
+  from: ConflictStage | undefined,
+  to: ConflictStage | undefined,
+  backend: GitBackend,
+): Promise<string> {
+  if (from?.oid === to?.oid && from?.mode === to?.mode) return "";
+  let diff = `diff --git ${file} ${file}\n`;
+  if (!from) diff += `new file mode ${to!.mode}\n`;
+  else if (!to) diff += `deleted file mode ${from.mode}\n`;
+  else if (from.mode !== to.mode) {
+    diff += `old mode ${from.mode}\nnew mode ${to.mode}\n`;
+  }
+  if (from?.oid === to?.oid) return diff;
+  const abbrev = (entry?: ConflictStage) => entry?.oid.slice(0, 7) ?? "0000000";
+  const mode = from?.mode === to?.mode ? ` ${from!.mode}` : "";
+  diff += `index ${abbrev(from)}..${abbrev(to)}${mode}\n`;
+
+  // Submodules diff as the commit they point to, like Git shows them
+  const read = async (entry?: ConflictStage) => {
+    if (!entry) return new Uint8Array();
+    if (entryKind(entry.mode) === "submodule") {
+      return new TextEncoder().encode(`Subproject commit ${entry.oid}\n`);
+    }
+    return await backend.readBlob(entry.oid) ?? new Uint8Array();
+  };
+  const [before, after] = [await read(from), await read(to)];
+  const [oldName, newName] = [
+    from ? file : "/dev/null",
+    to ? file : "/dev/null",
+  ];
+  // Git looks for NUL bytes in the first 8000 bytes to detect binary files
+  if ([before, after].some((blob) => blob.subarray(0, 8000).includes(0))) {
+    return `${diff}Binary files ${oldName} and ${newName} differ\n`;
+  }
+  const decoder = new TextDecoder();
+  return `${diff}--- ${oldName}\n+++ ${newName}\n` +
+    unifiedDiff(decoder.decode(before), decoder.decode(after));
+}
+
+/**
+ * Parses a merged file with diff3-style conflict markers into segments.
+ *
+ * @param merged - Output of `git merge-file -p --diff3`
+ * @returns Clean and conflicting segments, in file order
+ *
+ * @example
+ * ```ts
+ * const segments = parseConflictMarkers(
+ *   "a\n<<<<<<< ours\nb\n||||||| base\nx\n=======\nc\n>>>>>>> theirs\n",
+ * );
+ * console.log(segments[1]); // { type: "conflict", ours: ["b"], base: ["x"], theirs: ["c"] }
+ * ```
+ */
+export function parseConflictMarkers(merged: string): MergedSegment[] {
+  const lines = merged.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+
+  const segments: MergedSegment[] = [];
+  let clean: string[] = [];
+  let conflict: { ours: string[]; base: string[]; theirs: string[] } | null =
+    null;
+  let side: "ours" | "base" | "theirs" = "ours";
+
+  for (const line of lines) {
+    if (!conflict && line.startsWith("<<<<<<<")) {
+      if (clean.length > 0) segments.push({ type: "clean", lines: clean });
+      clean = [];
+      conflict = { ours: [], base: [], theirs: [] };
+      side = "ours";
+    } else if (conflict && side === "ours" && line.startsWith("|||||||")) {
+      side = "base";
+    } else if (conflict && side !== "theirs" && line.startsWith("=======")) {
+      side = "theirs";
+    } else if (conflict && side === "theirs" && line.startsWith(">>>>>>>")) {
+      segments.push({ type: "conflict", ...conflict });
+      conflict = null;
+    } else if (conflict) {
+      conflict[side].push(line);
+    } else {
+      clean.push(line);
+    }
+  }
+  if (clean.length > 0) segments.push({ type: "clean", lines: clean });
+  return segments;
+}
+
+/**
+ * Maps a line number of a file to the line number in the original file,
+ * using the hunks of a `git diff -U0` from the original to the file.
+ *
+ * @param line - 1-based line number in the changed file
+ * @param diffOutput - Output of `git diff -U0 original changed`
+ * @returns The corresponding 1-based line number in the original file
+ */
+function mapLineToOriginal(line: number, diffOutput: string): number {
+  let delta = 0;
+  for (
+    const match of diffOutput.matchAll(
+      /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm,
+    )
+  ) {
+    const oldCount = Number(match[1] ?? 1);
+    const newStart = Number(match[2]);
+    const newCount = Number(match[3] ?? 1);
+    // A hunk without new lines sits between newStart and newStart + 1
+    const before = newCount > 0
+      ? newStart + newCount - 1 < line
+      : newStart < line;
+    if (before) delta += newCount - oldCount;
+  }
+  return line - delta;
+}
+
+/**
+ * Extracts the conflict hunks of a three-way content merge.
+ *
+ * Runs `git merge-file --diff3` on the three blobs and reads the conflicting
+ * regions from the conflict markers. The line numbers of each side are
+ * mapped back from the merged file through a `-U0` diff of that side against
+ * the merged file with every conflict resolved to the side. With a backend,
+ * the backend merges the blobs and the diffs are computed in memory.
+ *
+ * @param baseOid - Blob SHA in the merge base
+ * @param oursOid - Blob SHA on our side
+ * @param theirsOid - Blob SHA on their side
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the conflict hunks, or null if the blobs
+ *   cannot be merged as text (e.g. binary files)
+ *
+ * @example
+ * ```ts
+ * const hunks = await getConflictHunks(baseOid, oursOid, theirsOid);
+ * for (const h of hunks ?? []) console.log(h.ours.start, h.ours.end);
+ * ```
+ */
+export async function getConflictHunks(
+  baseOid: string,
+  oursOid: string,
+  theirsOid: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<ConflictHunk[] | null> {
+  const blobs: Record<string, Uint8Array> = {};
+  for (
+    const [name, oid] of [
+      ["ours", oursOid],
+      ["base", baseOid],
+      ["theirs", theirsOid],
+    ]
+  ) {
+    const blob = await readBlob(oid, ctx);
+    if (!blob) return null;
+    blobs[name] = blob;
+  }
+  // Git merges and diffs files; a backend's merge and the in-memory diff
+  // need none
+  const dir = ctx.backend
+    ? undefined
+    : await Deno.makeTempDir({ prefix: "git_check_conflicts_" });
+  try {
+    const files: Record<string, string> = {};
+    for (const name of dir ? Object.keys(blobs) : []) {
+      files[name] = `${dir}/${name}`;
+      await Deno.writeFile(files[name], blobs[name]);
+    }
+
+    let merged: MergeFileResult;
+    if (ctx.backend) {
+      merged = await ctx.backend.mergeFile(baseOid, oursOid, theirsOid);
+    } else {
+      // Exit code is the number of conflicts; negative (255) on errors such as binary files
+      const result = await runGitBytes(
+        [
+          "merge-file",
+          "-p",
+          "--diff3",
+          "-L",
+          "ours",
+          "-L",
+          "base",
+          "-L",
+          "theirs",
+          files.ours,
+          files.base,
+          files.theirs,
+        ],
+        undefined,
+        undefined,
+        ctx,
+      );
+      if (result.code > 127) return null;
+      merged = {
+        clean: result.code === 0,
+        content: new TextDecoder().decode(result.stdout),
+      };
+    }
+    if (merged.clean) return [];
+
+    // Binary contents fail to merge without conflict markers
+    const segments = parseConflictMarkers(merged.content);
+    if (!segments.some((segment) => segment.type === "conflict")) return null;
+    const sides: Record<keyof ConflictHunk, ConflictHunkSide[]> = {
+      ours: [],
+      base: [],
+      theirs: [],
+    };
+    for (const name of ["ours", "base", "theirs"] as const) {
+      // The merged file with every conflict resolved to this side
+      let resolved = "";
+      let line = 1;
+      const regions: { start: number; lines: string[] }[] = [];
+      for (const segment of segments) {
+        const lines = segment.type === "clean" ? segment.lines : segment[name];
+        if (segment.type === "conflict") regions.push({ start: line, lines });
+        resolved += lines.map((l) => `${l}\n`).join("");
+        line += lines.length;
+      }
+      let diff: string;
+      if (dir) {
+        const resolvedFile = `${dir}/${name}.resolved`;
+        await Deno.writeTextFile(resolvedFile, resolved);
+        diff = (await runCmd(
+          [
+            "git",
+            "diff",
+            "--no-index",
+            "--no-color",
+            "--no-ext-diff",
+            "-U0",
+            files[name],
+            resolvedFile,
+          ],
+          undefined,
+          ctx,
+        )).stdout;
+      } else {
+        diff = unifiedDiff(new TextDecoder().decode(blobs[name]), resolved, 0);
+      }
+
+      for (const region of regions) {
+        const start = mapLineToOriginal(region.start, diff);
+        sides[name].push({
+          start,
+          end: start + region.lines.length - 1,
+          text: region.lines.map((l) => `${l}\n`).join(""),
+        });
+      }
+    }
+    return sides.ours.map((ours, i) => ({
+      base: sides.base[i],
+      ours,
+      theirs: sides.theirs[i],
+    }));
+  } finally {
+    if (dir) await Deno.remove(dir, { recursive: true }).catch(() => {});
+  }
+}
+
+/**
+ * Parses the renames out of `git diff --name-status -z` output.
+ *
+ * With `-z`, each entry is a NUL-terminated status followed by NUL-terminated
+ * paths, so paths containing spaces, tabs or newlines are kept intact.
+ *
+ * @param output - Output of `git diff -M --name-status -z`
+ * @returns [old path, new path] pairs of the rename entries (`R<score>`)
+ *
+ * @example
+ * ```ts
+ * parseRenames("R100\0old name.txt\0new name.txt\0");
+ * // [["old name.txt", "new name.txt"]]
+ * ```
+ */
+export function parseRenames(output: string): string[][] {
+  const tokens = output.split("\0");
+  const renames: string[][] = [];
+  let i = 0;
+  while (i < tokens.length && tokens[i]) {
+    const status = tokens[i];
+    // Renames and copies name two paths, every other status one
+    const paths = /^[RC]/.test(status) ? 2 : 1;
+    if (status.startsWith("R") && i + 2 < tokens.length) {
+      renames.push([tokens[i + 1], tokens[i + 2]]);
+    }
+    i += 1 + paths;
+  }
+  return renames;
+}
+
+/**
+ * Lists the renames between two commits.
+ *
+ * The result is cached in the analysis context, if one is given, so each
+ * pair of commits is diffed once per check.
+ *
+ * @param from - Commit to diff from
+ * @param to - Commit to diff to
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to [old path, new path] pairs
+ */
+function listRenames(
+  from: string,
+  to: string,
+  ctx: RepoContext | AnalysisContext = DEFAULT_CONTEXT,
+): Promise<string[][]> {
+  const cache = "renames" in ctx ? ctx.renames : undefined;
+  const key = `${from}..${to}`;
+  const cached = cache?.get(key);
+  if (cached) return cached;
+  // Backends do not detect renames
+  if (ctx.backend) return Promise.resolve([]);
+
+  const renames = runCmd(
+    [
+      "git",
+      "diff",
+      "-M",
+      "--name-status",
+      "--diff-filter=R",
+      "-z",
+      from,
+      to,
+    ],
+    undefined,
+    ctx,
+  ).then((result) => parseRenames(result.stdout));
+  // Failed diffs are not cached, so an aborted check does not poison it
+  cache?.set(key, renames);
+  renames.catch(() => cache?.delete(key));
+  return renames;
+}
+
+/**
+ * Derives the index stage entries of a path from the trees of a merge.
+ *
+ * Stage 1 is the entry in the merge base, stage 2 ours and stage 3 theirs,
+ * as `git read-tree -m` would record them. Directories show up with mode
+ * `040000`.
+ *
+ * @param file - Path relative to the repository root
+ * @param mergeBase - Merge-base commit SHA, or undefined if there is none
+ * @param oursCommit - Commit SHA of our side
+ * @param theirsCommit - Commit SHA of their side
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the entries of the sides that have the path
+ *
+ * @example
+ * ```ts
+ * const stages = await getTreeStages("src/lib.ts", base, ours, theirs);
+ * console.log(stages.map((s) => s.stage)); // [1, 2] (deleted by them)
+ * ```
+ */
+export async function getTreeStages(
+  file: string,
+  mergeBase: string | undefined,
+  oursCommit: string,
+  theirsCommit: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<ConflictStage[]> {
+  const stages: ConflictStage[] = [];
+  const sides = [[1, mergeBase], [2, oursCommit], [3, theirsCommit]] as const;
+  for (const [stage, commit] of sides) {
+    if (!commit) continue;
+    if (ctx.backend) {
+      const entry = (await ctx.backend.listTree(commit)).find((e) =>
+        e.path === file
+      );
+      if (entry) stages.push({ mode: entry.mode, oid: entry.oid, stage });
+      continue;
+    }
+    // The object reader lists the parent directory instead of running ls-tree
+    if (ctx.objects && !file.includes("\n")) {
+      const slash = file.lastIndexOf("/");
+      const entries = await ctx.objects.readTree(
+        slash === -1 ? `${commit}^{tree}` : `${commit}:${file.slice(0, slash)}`,
+      );
+      const entry = entries?.find((e) => e.name === file.slice(slash + 1));
+      if (entry) stages.push({ mode: entry.mode, oid: entry.oid, stage });
+      continue;
+    }
+    const result = await runCmd(
+      [
+        "git",
+        "ls-tree",
+        "--full-tree",
+        "-z",
+        commit,
+        "--",
+        file,
+      ],
+      undefined,
+      ctx,
+    );
+    for (const entry of result.stdout.split("\0").filter(Boolean)) {
+      const match = entry.match(/^(\d+) \w+ ([0-9a-f]+)\t(.*)$/s);
+      if (match && match[3] === file) {
+        stages.push({ mode: match[1], oid: match[2], stage });
+      }
+    }
+  }
+  return stages;
+}
+
+/**
+ * Reads the base, ours and theirs versions of a file as text.
+ *
+ * Sides where the path is missing, is not a regular file or symlink, or
+ * holds binary content (a NUL byte) are left out.
+ *
+ * @param file - File path (relative to the repository root)
+ * @param mergeBase - Merge base commit, if any
+ * @param oursCommit - Our commit
+ * @param theirsCommit - Their commit
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the text of each side that has one
+ *
+ * @example
+ * ```ts
+ * const versions = await getFileVersions("a.txt", base, ours, theirs);
+ * console.log(versions.ours?.split("\n").length);
+ * ```
+ */
+export async function getFileVersions(
+  file: string,
+  mergeBase: string | undefined,
+  oursCommit: string,
+  theirsCommit: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<FileVersions> {
+  const versions: FileVersions = {};
+  const names = { 1: "base", 2: "ours", 3: "theirs" } as const;
+  const stages = await getTreeStages(
+    file,
+    mergeBase,
+    oursCommit,
+    theirsCommit,
+    ctx,
+  );
+  for (const stage of stages) {
+    const kind = entryKind(stage.mode);
+    if (kind === "directory" || kind === "submodule") continue;
+    const blob = await readBlob(stage.oid, ctx);
+    if (!blob || blob.includes(0)) continue;
+    versions[names[stage.stage]] = new TextDecoder().decode(blob);
+  }
+  return versions;
+}
+
+/**
+ * Kind of object a tree entry mode denotes.
+ *
+ * @param mode - Octal mode string
+ * @returns "directory", "symlink", "submodule" or "file"
+ */
+function entryKind(mode: string): string {
+  if (mode === "040000") return "directory";
+  if (mode === "120000") return "symlink";
+  if (mode === "160000") return "submodule";
+  return "file";
+}
+
+/**
+ * Classifies a conflict from the index stage entries of its path.
+ *
+ * merge-ort moves paths out of the way for some conflicts (e.g. a file where
+ * the other side has a directory), leaving a lone stage entry; its message
+ * types tell those cases apart.
+ *
+ * @param stages - Index stage entries of the path
+ * @param messageTypes - merge-ort message types for the path, if any
+ * @returns The conflict type
+ *
+ * @example
+ * ```ts
+ * classifyConflict([
+ *   { mode: "100644", oid: "abc123", stage: 1 },
+ *   { mode: "100644", oid: "def456", stage: 2 },
+ * ]); // "modify_delete"
+ * ```
+ */
+export function classifyConflict(
+  stages: ConflictStage[],
+  messageTypes: string[] = [],
+): ConflictType {
+  const [base, ours, theirs] = [1, 2, 3].map((n) =>
+    stages.find((s) => s.stage === n)
+  );
+
+  if (messageTypes.includes("CONFLICT (rename/rename)")) {
+    return "rename_rename_1to2";
+  }
+  if (
+    messageTypes.includes("CONFLICT (file/directory)") ||
+    stages.some((s) => entryKind(s.mode) === "directory")
+  ) {
+    return "directory_file";
+  }
+  if (messageTypes.includes("CONFLICT (distinct modes)")) return "mode";
+
+  if (ours && theirs) {
+    const modeClash = ours.mode !== theirs.mode &&
+      (!base || mergeModes(base.mode, ours.mode, theirs.mode) === null ||
+        entryKind(ours.mode) !== entryKind(theirs.mode) ||
+        ours.oid === theirs.oid);
+    if (modeClash) return "mode";
+    if (entryKind(ours.mode) === "submodule") return "submodule";
+    if (entryKind(ours.mode) === "symlink") return "symlink";
+    return base ? "content" : "add_add";
+  }
+  if (base && ours) return "modify_delete";
+  if (base && theirs) return "delete_modify";
+  // Both sides moved the path away
+  if (base) return "rename_rename_1to2";
+  // A lone entry of one side: moved out of the way of the other side's entry
+  return "directory_file";
+}
+
+/**
+ * Builds the human-readable message for a classified conflict.
+ *
+ * @param type - Conflict type
+ * @param file - Conflicting path
+ * @param ours - Our stage entry, if any
+ * @param theirs - Their stage entry, if any
+ * @param ortMessages - merge-ort messages for the path
+ * @param ourSource - Path our side renamed to `file`, if any
+ * @param theirSource - Path their side renamed to `file`, if any
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the message, or undefined for content conflicts
+ */
+async function describeConflict(
+  type: ConflictType,
+  file: string,
+  ours: ConflictStage | undefined,
+  theirs: ConflictStage | undefined,
+  ortMessages: MergeOrtMessage[],
+  ourSource?: string,
+  theirSource?: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<string | undefined> {
+  const sides = (a: string, b: string) =>
+    `Your branch: ${a}\nTheir branch: ${b}`;
+  switch (type) {
+    case "add_add":
+      return `Both branches added ${file} with different contents`;
+    case "modify_delete":
+      return sides(`modified ${file}`, `deleted ${file}`);
+    case "delete_modify":
+      return sides(`deleted ${file}`, `modified ${file}`);
+    case "rename_rename_1to2": {
+      const rename = ortMessages.find((m) =>
+        m.type === "CONFLICT (rename/rename)"
+      );
+      if (rename?.paths.length !== 3) return rename?.message;
+      const [oldName, ourName, theirName] = rename.paths;
+      return sides(
+        `renamed ${oldName} → ${ourName}`,
+        `renamed ${oldName} → ${theirName}`,
+      );
+    }
+    case "rename_rename_2to1":
+      return sides(
+        `renamed ${ourSource} → ${file}`,
+        `renamed ${theirSource} → ${file}`,
+      );
+    case "directory_file":
+      return ortMessages.find((m) => m.type === "CONFLICT (file/directory)")
+        ?.message ??
+        `${file} is a file on one branch and a directory on the other`;
+    case "mode":
+      if (!ours || !theirs) {
+        return `${file} has a different type or mode on each branch`;
+      }
+      return sides(
+        `${entryKind(ours.mode)} with mode ${ours.mode}`,
+        `${entryKind(theirs.mode)} with mode ${theirs.mode}`,
+      );
+    case "symlink": {
+      if (!ours || !theirs) return undefined;
+      const target = async (oid: string) =>
+        new TextDecoder().decode(await readBlob(oid, ctx) ?? undefined).trim();
+      return sides(
+        `symlink to ${await target(ours.oid)}`,
+        `symlink to ${await target(theirs.oid)}`,
+      );
+    }
+    case "submodule":
+      if (!ours || !theirs) return undefined;
+      return sides(
+        `submodule at ${ours.oid.slice(0, 12)}`,
+        `submodule at ${theirs.oid.slice(0, 12)}`,
+      );
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Gets detailed conflict information for a file with structured metadata.
  *
  * This function analyzes a conflicting file and returns structured information
- * including conflict type (content, rename/modify, delete/modify), human-readable
+ * including conflict type (see {@link ConflictType}), human-readable
  * message, rename details if applicable, and the unified diff. This provides
  * machine-readable conflict data suitable for CI/CD tools and automated processing.
  *
+ * The type is derived from the index stage entries of the path: those
+ * reported by merge-ort when its result is given, otherwise the entries of
+ * the three commits' trees.
+ *
  * @param file - Path to the conflicting file
  * @param oursCommit - Commit SHA for "our" side (current branch)
  * @param theirsCommit - Commit SHA for "their" side (merging branch)
  * @param mergeBase - Optional merge-base commit SHA for rename detection
+ * @param mergeOrt - Optional merge-ort result with stage entries and messages
+ * @param ctx - Repository to run in; pass the check's
+ *   {@link AnalysisContext} to share rename detection between files (default:
+ *   the current working directory)
  * @returns Promise resolving to {@link FileConflictDetail} with conflict metadata
  *
  * @example
@@ -461,47 +1661,46 @@ export async function getFileConflictDetail(
   oursCommit: string,
   theirsCommit: string,
   mergeBase?: string,
+  mergeOrt?: MergeOrtResult,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<FileConflictDetail> {
-  let conflictType: FileConflictDetail["conflict_type"] = "content";
+  let conflictType: ConflictType = "content";
   let message: string | undefined;
   let renameInfo: RenameInfo | undefined;
   let diff: string | undefined;
 
+  // Index stage entries: from merge-ort when available, else from the trees
+  const stages = mergeOrt?.stages[file] ??
+    await getTreeStages(file, mergeBase, oursCommit, theirsCommit, ctx);
+  const ortMessages =
+    mergeOrt?.messages.filter((m) => m.paths.includes(file)) ?? [];
+
+  // Renames on each side as [old, new] pairs
+  let ourRenames: string[][] = [];
+  let theirRenames: string[][] = [];
+
   // If we have a merge-base, check for renames on each side
   if (mergeBase) {
     // Check our side for renames
-    const ourRenames = await runCmd([
-      "git",
-      "diff",
-      "-M",
-      "--name-status",
-      "--diff-filter=R",
-      mergeBase,
-      oursCommit,
-    ]);
+    ourRenames = await listRenames(mergeBase, oursCommit, ctx);
 
     // Check their side for renames
-    const theirRenames = await runCmd([
-      "git",
-      "diff",
-      "-M",
-      "--name-status",
-      "--diff-filter=R",
-      mergeBase,
-      theirsCommit,
-    ]);
+    theirRenames = await listRenames(mergeBase, theirsCommit, ctx);
 
     // Look for our file in the rename list (checking if it's the OLD name that was renamed)
-    const ourRenameMatch = ourRenames.stdout?.split("\n")
-      .map((line) => line.match(/^R\d+\s+(\S+)\s+(\S+)$/))
-      .find((match) => match && match[1] === file);
-
-    const theirRenameMatch = theirRenames.stdout?.split("\n")
-      .map((line) => line.match(/^R\d+\s+(\S+)\s+(\S+)$/))
-      .find((match) => match && match[1] === file);
+    const ourRenameMatch = ourRenames.find(([oldName]) => oldName === file);
+    const theirRenameMatch = theirRenames.find(([oldName]) => oldName === file);
 
-    if (ourRenameMatch) {
-      const [, oldName, newName] = ourRenameMatch;
+    if (
+      ourRenameMatch && theirRenameMatch &&
+      ourRenameMatch[1] !== theirRenameMatch[1]
+    ) {
+      conflictType = "rename_rename_1to2";
+      message = `Your branch: renamed ${file} → ${
+        ourRenameMatch[1]
+      }\nTheir branch: renamed ${file} → ${theirRenameMatch[1]}`;
+    } else if (ourRenameMatch) {
+      const [oldName, newName] = ourRenameMatch;
       conflictType = "rename_modify";
       message =
         `Your branch: renamed ${oldName} → ${newName}\nTheir branch: modified ${oldName}`;
@@ -512,19 +1711,23 @@ export async function getFileConflictDetail(
       };
 
       // Compare the renamed file on our side with the original file on their side
-      const renameContentDiff = await runCmd([
-        "git",
-        "diff",
-        "-U3",
-        "--no-prefix",
-        `${oursCommit}:${newName}`,
-        `${theirsCommit}:${oldName}`,
-      ]);
+      const renameContentDiff = await runCmd(
+        [
+          "git",
+          "diff",
+          "-U3",
+          "--no-prefix",
+          `${oursCommit}:${newName}`,
+          `${theirsCommit}:${oldName}`,
+        ],
+        undefined,
+        ctx,
+      );
 
       diff = renameContentDiff.stdout?.trim() ||
         renameContentDiff.stderr?.trim() || undefined;
     } else if (theirRenameMatch) {
-      const [, oldName, newName] = theirRenameMatch;
+      const [oldName, newName] = theirRenameMatch;
       conflictType = "modify_rename";
       message =
         `Your branch: modified ${oldName}\nTheir branch: renamed ${oldName} → ${newName}`;
@@ -535,14 +1738,18 @@ export async function getFileConflictDetail(
       };
 
       // Compare the original file on our side with the renamed file on their side
-      const renameContentDiff = await runCmd([
-        "git",
-        "diff",
-        "-U3",
-        "--no-prefix",
-        `${oursCommit}:${oldName}`,
-        `${theirsCommit}:${newName}`,
-      ]);
+      const renameContentDiff = await runCmd(
+        [
+          "git",
+          "diff",
+          "-U3",
+          "--no-prefix",
+          `${oursCommit}:${oldName}`,
+          `${theirsCommit}:${newName}`,
+        ],
+        undefined,
+        ctx,
+      );
 
       diff = renameContentDiff.stdout?.trim() ||
         renameContentDiff.stderr?.trim() || undefined;
@@ -550,34 +1757,69 @@ export async function getFileConflictDetail(
   }
 
   // If no rename was detected, get regular diff
-  if (!renameInfo) {
-    const d = await runCmd([
-      "git",
-      "diff",
-      "-U3",
-      "--no-prefix",
-      "-M",
-      oursCommit,
-      theirsCommit,
-      "--",
-      file,
-    ]);
+  if (ctx.backend && !renameInfo) {
+    const [, ours, theirs] = [1, 2, 3].map((n) =>
+      stages.find((s) => s.stage === n)
+    );
+    diff = (await diffEntries(file, ours, theirs, ctx.backend)).trim() ||
+      undefined;
+  } else if (!renameInfo) {
+    const d = await runCmd(
+      [
+        "git",
+        "diff",
+        "-U3",
+        "--no-prefix",
+        "-M",
+        oursCommit,
+        theirsCommit,
+        "--",
+        file,
+      ],
+      undefined,
+      ctx,
+    );
 
     diff = d.stdout?.trim() || d.stderr?.trim() || undefined;
+  }
+
+  // Otherwise classify the conflict by its stage entries
+  if (!message) {
+    conflictType = classifyConflict(stages, ortMessages.map((m) => m.type));
+    const [, ours, theirs] = [1, 2, 3].map((n) =>
+      stages.find((s) => s.stage === n)
+    );
 
-    // Check if it's a delete/modify conflict
+    // Two different files renamed to the same path look like an add/add
+    const ourSource = ourRenames.find(([, newName]) => newName === file);
+    const theirSource = theirRenames.find(([, newName]) => newName === file);
     if (
-      diff &&
-      (diff.includes("deleted file mode") || diff.includes("new file mode"))
+      conflictType === "add_add" && ourSource && theirSource &&
+      ourSource[0] !== theirSource[0]
     ) {
-      if (diff.includes("deleted file mode")) {
-        conflictType = "delete_modify";
-        message = "File deleted on one branch, modified on the other";
-      } else {
-        conflictType = "modify_delete";
-        message = "File modified on one branch, deleted on the other";
-      }
+      conflictType = "rename_rename_2to1";
     }
+
+    message = await describeConflict(
+      conflictType,
+      file,
+      ours,
+      theirs,
+      ortMessages,
+      ourSource?.[0],
+      theirSource?.[0],
+      ctx,
+    );
+  }
+
+  // Content conflicts: extract the conflicting regions
+  let hunks: ConflictHunk[] | undefined;
+  const [base, ours, theirs] = [1, 2, 3].map((n) =>
+    stages.find((s) => s.stage === n)
+  );
+  if (conflictType === "content" && base && ours && theirs) {
+    hunks = await getConflictHunks(base.oid, ours.oid, theirs.oid, ctx) ??
+      undefined;
   }
 
   return {
@@ -585,9 +1827,38 @@ export async function getFileConflictDetail(
     message,
     rename: renameInfo,
     diff,
+    hunks,
   };
 }
 
+/**
+ * Type of a file conflict. Two-sided names read "ours_theirs":
+ *
+ * - `content`: both sides changed the same lines
+ * - `add_add`: both sides added the path with different contents
+ * - `modify_delete` / `delete_modify`: one side modified, the other deleted
+ * - `rename_modify` / `modify_rename`: one side renamed, the other modified
+ * - `rename_rename_1to2`: both sides renamed the path to different names
+ * - `rename_rename_2to1`: both sides renamed different paths to this one
+ * - `directory_file`: a file on one side, a directory on the other
+ * - `mode`: the file mode or type (file, symlink, submodule) conflicts
+ * - `symlink`: both sides changed a symlink's target differently
+ * - `submodule`: both sides moved a submodule pointer differently
+ */
+export type ConflictType =
+  | "content"
+  | "add_add"
+  | "modify_delete"
+  | "delete_modify"
+  | "rename_modify"
+  | "modify_rename"
+  | "rename_rename_1to2"
+  | "rename_rename_2to1"
+  | "directory_file"
+  | "mode"
+  | "symlink"
+  | "submodule";
+
 /**
  * Information about a file rename in a conflict.
  */
@@ -608,20 +1879,64 @@ export interface RenameInfo {
  */
 export interface FileConflictDetail {
   /** Type of conflict detected */
-  conflict_type:
-    | "content"
-    | "rename_modify"
-    | "modify_rename"
-    | "delete_modify"
-    | "modify_delete";
+  conflict_type: ConflictType;
   /** Human-readable description of the conflict */
   message?: string;
   /** Rename details if this is a rename-related conflict */
   rename?: RenameInfo;
   /** Unified diff showing the conflicting changes */
   diff?: string;
+  /** Conflicting regions of a content conflict, in file order */
+  hunks?: ConflictHunk[];
+}
+
+/**
+ * Text of a file on each side of a merge, for three-way views.
+ */
+export interface FileVersions {
+  /** Version in the merge base */
+  base?: string;
+  /** Version in our commit */
+  ours?: string;
+  /** Version in their commit */
+  theirs?: string;
+}
+
+/**
+ * One side of a conflict hunk.
+ *
+ * Line numbers are 1-based and inclusive, in that side's version of the file.
+ * An empty side (lines deleted, or nothing added) has `end = start - 1`, with
+ * `start` being the line before which the text would be.
+ */
+export interface ConflictHunkSide {
+  /** First line of the region */
+  start: number;
+  /** Last line of the region */
+  end: number;
+  /** Text of the region, each line terminated by a newline */
+  text: string;
+}
+
+/**
+ * A region where both sides changed the same lines of a file.
+ */
+export interface ConflictHunk {
+  /** The region in the merge base */
+  base: ConflictHunkSide;
+  /** The region in our version */
+  ours: ConflictHunkSide;
+  /** The region in their version */
+  theirs: ConflictHunkSide;
 }
 
+/**
+ * A segment of a merged file: either merged cleanly or a conflict.
+ */
+export type MergedSegment =
+  | { type: "clean"; lines: string[] }
+  | { type: "conflict"; ours: string[]; base: string[]; theirs: string[] };
+
 /**
  * Complete result of a conflict check operation.
  *
@@ -635,16 +1950,204 @@ export interface ConflictCheckResult {
   other_ref: string;
   /** Commit SHA of current branch */
   ours_commit: string;
+  /**
+   * Uncommitted changes included on our side, if any. `ours_commit` is then
+   * a snapshot commit of those changes on top of HEAD.
+   */
+  uncommitted?: UncommittedSource;
   /** Commit SHA of other branch */
   theirs_commit: string;
   /** Merge base commit SHA, or null if branches have no common ancestor */
   merge_base: string | null;
+  /** All merge base commit SHAs (several in criss-cross histories) */
+  merge_bases: string[];
+  /** Whether the history is criss-cross, i.e. there is more than one merge base */
+  criss_cross: boolean;
+  /** Detection engine that produced this result */
+  engine: ConflictEngine;
   /** Whether any conflicts were detected */
   conflicts: boolean;
   /** Array of file paths with conflicts */
   conflicted_files: string[];
   /** Detailed conflict information keyed by file path */
   files: Record<string, FileConflictDetail>;
+  /** Per-commit outcome of the rebase simulation (only with `--rebase`) */
+  rebase?: CommitReplayResult[];
+}
+
+/**
+ * Outcome of replaying one commit during a rebase or cherry-pick simulation.
+ *
+ * - `clean`: the commit applies without conflicts
+ * - `conflict`: the rebase or cherry-pick would stop at this commit
+ * - `pending`: not replayed because an earlier commit conflicts
+ */
+export interface CommitReplayResult {
+  /** Commit SHA */
+  commit: string;
+  /** First line of the commit message */
+  subject: string;
+  /** Replay outcome */
+  status: "clean" | "conflict" | "pending";
+  /** Files that conflict when replaying this commit */
+  conflicted_files: string[];
+}
+
+/**
+ * Result of a three-way tree merge in a temporary index.
+ */
+export interface TreeMergeResult {
+  /** Resulting tree SHA, or null if the merge has conflicts */
+  tree: string | null;
+  /** Paths that could not be merged */
+  conflicted_files: string[];
+  /** Index stage entries of the conflicted paths */
+  stages: Record<string, ConflictStage[]>;
+}
+
+/**
+ * Result of checking one ref against several targets (matrix mode).
+ */
+export interface MatrixCheckResult {
+  /** Reference name of our side */
+  current_ref: string;
+  /** Commit SHA of our side */
+  ours_commit: string;
+  /** Whether any target conflicts */
+  conflicts: boolean;
+  /** One result per target ref, in the order the targets were given */
+  targets: ConflictCheckResult[];
+}
+
+/**
+ * One cell of a pairwise conflict matrix.
+ *
+ * - `self`: the diagonal (a ref paired with itself)
+ * - `skipped`: the merge base equals one of the tips, so the merge is a
+ *   fast-forward and cannot conflict
+ * - `clean` / `conflict`: result of the conflict check
+ */
+export interface PairwiseCell {
+  /** Outcome for this pair */
+  status: "self" | "skipped" | "clean" | "conflict";
+  /** File paths that conflict between the two refs */
+  conflicted_files: string[];
+}
+
+/**
+ * Result of checking every pair of a set of refs against each other.
+ */
+export interface PairwiseCheckResult {
+  /** Ref names, in matrix row/column order */
+  refs: string[];
+  /** Commit SHAs of the refs, in the same order */
+  commits: string[];
+  /** Whether any pair conflicts */
+  conflicts: boolean;
+  /** Symmetric N×N matrix; `matrix[i][j]` describes merging `refs[j]` into `refs[i]` */
+  matrix: PairwiseCell[][];
+}
+
+/**
+ * Backport feasibility of a commit range onto one target branch.
+ */
+export interface BackportTargetResult {
+  /** Target branch name */
+  target: string;
+  /** Commit SHA of the target branch */
+  target_commit: string;
+  /** Whether every commit cherry-picks cleanly */
+  clean: boolean;
+  /** Label for bots: "backport-clean" or "backport-needs-manual" */
+  label: "backport-clean" | "backport-needs-manual";
+  /** SHA of the first commit that fails to cherry-pick, or null if clean */
+  failed_commit: string | null;
+  /** Files conflicting in the failed commit */
+  conflicted_files: string[];
+  /** Per-commit outcome, in cherry-pick order */
+  commits: CommitReplayResult[];
+}
+
+/**
+ * Result of checking a backport onto several target branches.
+ */
+export interface BackportCheckResult {
+  /** Commit or range that was checked */
+  range: string;
+  /** SHAs of the commits to cherry-pick, in order */
+  commits: string[];
+  /** Whether the backport is clean on every target */
+  clean: boolean;
+  /** One result per target, in the order the targets were given */
+  targets: BackportTargetResult[];
+}
+
+/**
+ * Conflict detection engine.
+ *
+ * - `merge-ort`: `git merge-tree --write-tree` (Git 2.38+)
+ * - `read-tree`: three-way `git read-tree -m` into a temporary index
+ * - `merge-tree`: trivial (legacy) `git merge-tree` output scanning
+ * - `index-merge`: `git read-tree -m` plus `git merge-file` content merges in
+ *   a temporary index (see {@link mergeTreesInIndex}), or the same merge
+ *   through a {@link GitBackend} (see {@link checkConflictsWithBackend})
+ */
+export type ConflictEngine =
+  | "merge-ort"
+  | "read-tree"
+  | "merge-tree"
+  | "index-merge";
+
+/**
+ * Parsed Git version number.
+ */
+export interface GitVersion {
+  /** Major version */
+  major: number;
+  /** Minor version */
+  minor: number;
+  /** Patch version */
+  patch: number;
+}
+
+/**
+ * A single index stage entry of a conflicted path.
+ */
+export interface ConflictStage {
+  /** File mode (e.g. "100644") */
+  mode: string;
+  /** Object ID of the blob at this stage */
+  oid: string;
+  /** Stage number: 1 = base, 2 = ours, 3 = theirs */
+  stage: 1 | 2 | 3;
+}
+
+/**
+ * Informational message emitted by the merge-ort engine.
+ */
+export interface MergeOrtMessage {
+  /** Paths the message refers to */
+  paths: string[];
+  /** Stable message type, e.g. "CONFLICT (contents)" or "Auto-merging" */
+  type: string;
+  /** Human-readable message */
+  message: string;
+}
+
+/**
+ * Structured result of `git merge-tree --write-tree`.
+ */
+export interface MergeOrtResult {
+  /** Whether the merge is clean */
+  clean: boolean;
+  /** OID of the resulting toplevel tree (contains conflict markers if not clean) */
+  tree: string;
+  /** Conflicted file paths in output order */
+  conflicted_files: string[];
+  /** Index stage entries keyed by conflicted file path */
+  stages: Record<string, ConflictStage[]>;
+  /** Informational messages */
+  messages: MergeOrtMessage[];
 }
 
 /**
@@ -654,79 +2157,310 @@ export interface ConflictCheckResult {
  * three-way merge simulation without modifying the working directory.
  * It ensures proper cleanup of temporary resources.
  */
-export class TempIndex {
-  private path: string | null = null;
-
-  /**
-   * Creates a new temporary index file.
-   *
-   * @returns Promise resolving to the path of the temporary index file
-   */
-  async create(): Promise<string> {
-    this.path = await Deno.makeTempFile();
-    return this.path;
+export class TempIndex {
+  private path: string | null = null;
+
+  /**
+   * @param ctx - Repository the index belongs to (default: the current
+   *   working directory)
+   */
+  constructor(readonly ctx: RepoContext = DEFAULT_CONTEXT) {}
+
+  /**
+   * Creates a new temporary index file.
+   *
+   * @returns Promise resolving to the path of the temporary index file
+   */
+  async create(): Promise<string> {
+    this.path = await Deno.makeTempFile();
+    return this.path;
+  }
+
+  /**
+   * Gets the path to the temporary index file.
+   *
+   * @returns The index file path, or null if not yet created
+   */
+  getPath(): string | null {
+    return this.path;
+  }
+
+  /**
+   * Cleans up the temporary index file.
+   *
+   * Removes the temporary file from disk. Cleanup errors are silently ignored.
+   */
+  async cleanup(): Promise<void> {
+    if (this.path) {
+      try {
+        await Deno.remove(this.path);
+        this.path = null;
+      } catch {
+        // ignore cleanup errors
+      }
+    }
+  }
+
+  /**
+   * Runs a Git command with this temporary index.
+   *
+   * @param args - Git command arguments (without the "git" prefix)
+   * @returns Promise resolving to the command result
+   * @throws {Error} If the temporary index has not been created
+   */
+  async runGitWithIndex(args: string[]): Promise<CmdResult> {
+    if (!this.path) {
+      throw new Error("Temporary index not created");
+    }
+    return await runCmd(
+      ["git", ...args],
+      { GIT_INDEX_FILE: this.path },
+      this.ctx,
+    );
+  }
+}
+
+/** Object format (hash algorithm) of a repository */
+export type ObjectFormat = "sha1" | "sha256";
+
+/**
+ * Well-known OIDs of the empty tree, per object format
+ * (`git hash-object -t tree /dev/null`).
+ */
+const EMPTY_TREE_OIDS: Record<ObjectFormat, string> = {
+  sha1: "4b825dc642cb6eb9a060e54bf8d69288fbee4904",
+  sha256: "6ef19b41225c5369f1c104d45d8d85efa9b057b53b14b4b9b939dd74decc5321",
+};
+
+/**
+ * Gets the hash of Git's empty tree object.
+ *
+ * This function returns the hash of an empty Git tree, which is useful as a
+ * base tree when comparing branches with no common ancestor or when a branch
+ * doesn't exist yet. The hash depends on the repository's object format; see
+ * {@link getObjectFormat}.
+ *
+ * @param format - Object format of the repository (default: `sha1`)
+ * @returns The empty tree hash
+ *
+ * @example
+ * ```ts
+ * const emptyTree = getEmptyTreeHash(await getObjectFormat());
+ * console.log(emptyTree); // "4b825dc642cb6eb9a060e54bf8d69288fbee4904"
+ * ```
+ */
+export function getEmptyTreeHash(format: ObjectFormat = "sha1"): string {
+  // The well-known constants need no system-specific paths like /dev/null
+  return EMPTY_TREE_OIDS[format];
+}
+
+/**
+ * Detects the object format of a repository.
+ *
+ * Repositories created with `git init --object-format=sha256` use SHA-256
+ * object IDs (64 hex digits) instead of SHA-1 (40 hex digits).
+ *
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the object format; `sha1` if Git cannot tell
+ *   (Git before 2.29 only supports SHA-1)
+ *
+ * @example
+ * ```ts
+ * if (await getObjectFormat() === "sha256") console.log("SHA-256 repository");
+ * ```
+ */
+export async function getObjectFormat(
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<ObjectFormat> {
+  const result = await runCmd(
+    ["git", "rev-parse", "--show-object-format"],
+    undefined,
+    ctx,
+  );
+  return result.code === 0 && result.stdout === "sha256" ? "sha256" : "sha1";
+}
+
+/**
+ * Parses the output of `git version`.
+ *
+ * @param output - Output of `git version` (e.g. "git version 2.39.5.windows.1")
+ * @returns Parsed version, or null if the output is not recognized
+ *
+ * @example
+ * ```ts
+ * const version = parseGitVersion("git version 2.39.5");
+ * console.log(version); // { major: 2, minor: 39, patch: 5 }
+ * ```
+ */
+export function parseGitVersion(output: string): GitVersion | null {
+  const match = output.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3] ?? 0),
+  };
+}
+
+/**
+ * Compares two Git versions.
+ *
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a < b, zero if equal, positive if a > b
+ */
+export function compareGitVersions(a: GitVersion, b: GitVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+let gitVersionProbe: Promise<GitVersion | null> | undefined;
+
+/**
+ * Gets the version of the installed Git binary.
+ *
+ * The version is probed once per process and cached.
+ *
+ * @returns Promise resolving to the Git version, or null if it cannot be determined
+ *
+ * @example
+ * ```ts
+ * const version = await getGitVersion();
+ * console.log(version?.minor); // 39
+ * ```
+ */
+export function getGitVersion(): Promise<GitVersion | null> {
+  gitVersionProbe ??= runCmd(["git", "version"])
+    .then((result) => result.code === 0 ? parseGitVersion(result.stdout) : null)
+    .catch(() => null);
+  return gitVersionProbe;
+}
+
+/**
+ * Checks whether the installed Git supports `git merge-tree --write-tree`.
+ *
+ * @returns Promise resolving to true if the merge-ort engine is available
+ */
+export async function supportsMergeOrt(): Promise<boolean> {
+  const version = await getGitVersion();
+  return version !== null &&
+    compareGitVersions(version, MERGE_ORT_MIN_VERSION) >= 0;
+}
+
+/**
+ * Parses NUL-separated output of `git merge-tree --write-tree -z --messages`.
+ *
+ * The output consists of the resulting tree OID, the conflicted file info
+ * section (`<mode> <oid> <stage>\t<path>` entries terminated by an empty
+ * entry) and the informational messages section (`<path count>`, the paths,
+ * the message type and the message text for each message).
+ *
+ * @param output - Raw output of the merge-tree command
+ * @param clean - Whether the command reported a clean merge (exit code 0)
+ * @returns Structured merge result
+ * @throws {GitError} If the output does not start with a tree OID
+ *
+ * @example
+ * ```ts
+ * const result = parseMergeOrtOutput(
+ *   "a7f7fa4e...\0100644 3b6f40af... 2\tfile.txt\0\0",
+ *   false,
+ * );
+ * console.log(result.conflicted_files); // ["file.txt"]
+ * ```
+ */
+export function parseMergeOrtOutput(
+  output: string,
+  clean: boolean,
+): MergeOrtResult {
+  const tokens = output.split("\0");
+  const tree = tokens[0]?.trim() ?? "";
+  if (!/^[0-9a-f]+$/.test(tree)) {
+    throw new GitError(`Unexpected merge-tree output: ${output}`);
   }
 
-  /**
-   * Gets the path to the temporary index file.
-   *
-   * @returns The index file path, or null if not yet created
-   */
-  getPath(): string | null {
-    return this.path;
+  const stages: Record<string, ConflictStage[]> = {};
+  let i = 1;
+  for (; i < tokens.length && tokens[i] !== ""; i++) {
+    const match = tokens[i].match(/^(\d+) ([0-9a-f]+) ([123])\t(.*)$/s);
+    if (!match) continue;
+    const [, mode, oid, stage, path] = match;
+    (stages[path] ??= []).push({
+      mode,
+      oid,
+      stage: Number(stage) as ConflictStage["stage"],
+    });
   }
-
-  /**
-   * Cleans up the temporary index file.
-   *
-   * Removes the temporary file from disk. Cleanup errors are silently ignored.
-   */
-  async cleanup(): Promise<void> {
-    if (this.path) {
-      try {
-        await Deno.remove(this.path);
-        this.path = null;
-      } catch {
-        // ignore cleanup errors
-      }
-    }
+  i++; // skip section separator
+
+  const messages: MergeOrtMessage[] = [];
+  while (i < tokens.length && /^\d+$/.test(tokens[i])) {
+    const count = Number(tokens[i++]);
+    const paths = tokens.slice(i, i + count);
+    i += count;
+    const type = tokens[i++] ?? "";
+    const message = (tokens[i++] ?? "").trim();
+    messages.push({ paths, type, message });
   }
 
-  /**
-   * Runs a Git command with this temporary index.
-   *
-   * @param args - Git command arguments (without the "git" prefix)
-   * @returns Promise resolving to the command result
-   * @throws {Error} If the temporary index has not been created
-   */
-  async runGitWithIndex(args: string[]): Promise<CmdResult> {
-    if (!this.path) {
-      throw new Error("Temporary index not created");
-    }
-    return await runCmd(["git", ...args], { GIT_INDEX_FILE: this.path });
-  }
+  return {
+    clean,
+    tree,
+    conflicted_files: Object.keys(stages),
+    stages,
+    messages,
+  };
 }
 
 /**
- * Gets the hash of Git's empty tree object.
+ * Checks for merge conflicts using the merge-ort engine.
+ *
+ * Runs `git merge-tree --write-tree -z --messages`, which performs a real
+ * merge (including rename detection and content merging) without touching
+ * the index or working tree, and writes the resulting tree to the object
+ * database. Requires Git 2.38 or newer (see {@link supportsMergeOrt}).
  *
- * This function returns the SHA-1 hash of an empty Git tree, which is useful
- * as a base tree when comparing branches with no common ancestor or when a
- * branch doesn't exist yet.
+ * The full stage form of the conflicted file info is requested instead of
+ * `--name-only` so the per-path index stages are available.
  *
- * @returns Promise resolving to the empty tree hash
+ * @param oursCommit - Commit SHA of the current branch
+ * @param theirsCommit - Commit SHA of the branch being merged
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the structured merge result
+ * @throws {GitError} If the merge could not be performed
  *
  * @example
  * ```ts
- * const emptyTree = getEmptyTreeHash();
- * console.log(emptyTree); // "4b825dc642cb6eb9a060e54bf8d69288fbee4904"
+ * const result = await checkConflictsWithMergeOrt("ours456", "theirs789");
+ * if (!result.clean) console.log(result.conflicted_files);
  * ```
  */
-export function getEmptyTreeHash(): string {
-  // Return the well-known empty tree hash directly
-  // This is a constant value in Git and doesn't require system-specific paths like /dev/null
-  // See: https://github.com/git/git/blob/master/cache.h
-  return "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+export async function checkConflictsWithMergeOrt(
+  oursCommit: string,
+  theirsCommit: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<MergeOrtResult> {
+  const result = await runCmd(
+    [
+      "git",
+      "merge-tree",
+      "--write-tree",
+      "-z",
+      "--messages",
+      oursCommit,
+      theirsCommit,
+    ],
+    undefined,
+    ctx,
+  );
+  if (result.code !== 0 && result.code !== 1) {
+    throw new GitError(
+      `git merge-tree failed: ${result.stderr || result.stdout}`,
+    );
+  }
+  if (!result.stdout) {
+    throw new GitError(`git merge-tree failed: ${result.stderr}`);
+  }
+  return parseMergeOrtOutput(result.stdout, result.code === 0);
 }
 
 /**
@@ -734,13 +2468,16 @@ export function getEmptyTreeHash(): string {
  *
  * This function performs a three-way merge simulation using `git read-tree -m`
  * to detect conflicts between two branches. This is the primary conflict
- * detection method as it's fast and accurate for most cases.
+ * detection method as it's fast and accurate for most cases. Files changed
+ * on both sides are merged with `git merge-file` and only reported if their
+ * contents conflict.
  *
  * @param baseTree - Tree SHA of the merge base (common ancestor)
  * @param oursTree - Tree SHA of the current branch
  * @param theirsTree - Tree SHA of the branch being merged
  * @param tempIndex - Temporary index for the merge operation
  * @returns Promise resolving to array of conflicting file paths
+ * @throws {GitError} If `git read-tree` fails
  *
  * @example
  * ```ts
@@ -762,19 +2499,546 @@ export async function checkConflictsWithReadTree(
   theirsTree: string,
   tempIndex: TempIndex,
 ): Promise<string[]> {
-  // Try to read the tree
-  await tempIndex.runGitWithIndex([
+  // The temporary file is empty, which read-tree does not accept as an index
+  await tempIndex.runGitWithIndex(["read-tree", "--empty"]);
+  const readTree = await tempIndex.runGitWithIndex([
+    "read-tree",
+    "-m",
+    "--",
+    baseTree,
+    oursTree,
+    theirsTree,
+  ]);
+  if (readTree.code !== 0) {
+    throw new GitError(`git read-tree failed: ${readTree.stderr}`);
+  }
+
+  // Unmerged entries are paths changed on both sides; those whose contents
+  // merge cleanly do not conflict
+  const lsRes = await tempIndex.runGitWithIndex([
+    "ls-files",
+    "-u",
+    "--stage",
+    "-z",
+  ]);
+  const conflicting: string[] = [];
+  for (
+    const [path, stages] of Object.entries(parseUnmergedEntries(lsRes.stdout))
+  ) {
+    if (!await mergeStages(stages, tempIndex.ctx)) conflicting.push(path);
+  }
+  return conflicting;
+}
+
+/**
+ * Parses NUL-separated `git ls-files -u --stage -z` output into stage entries.
+ *
+ * @param lsOutput - Output of `git ls-files -u --stage -z`
+ * @returns Index stage entries keyed by path
+ *
+ * @example
+ * ```ts
+ * const stages = parseUnmergedEntries("100644 abc123 1\tmy file.txt\0");
+ * console.log(stages["my file.txt"]); // [{ mode: "100644", oid: "abc123", stage: 1 }]
+ * ```
+ */
+export function parseUnmergedEntries(
+  lsOutput: string,
+): Record<string, ConflictStage[]> {
+  const stages: Record<string, ConflictStage[]> = {};
+  for (const entry of lsOutput.split("\0")) {
+    const match = entry.match(/^(\d+) ([0-9a-f]+) ([123])\t(.*)$/s);
+    if (!match) continue;
+    const [, mode, oid, stage, path] = match;
+    (stages[path] ??= []).push({
+      mode,
+      oid,
+      stage: Number(stage) as ConflictStage["stage"],
+    });
+  }
+  return stages;
+}
+
+/**
+ * Picks the merged file mode of a path changed on both sides.
+ *
+ * @param base - Mode at the merge base
+ * @param ours - Mode on our side
+ * @param theirs - Mode on their side
+ * @returns The merged mode, or null if both sides changed it differently
+ */
+function mergeModes(
+  base: string,
+  ours: string,
+  theirs: string,
+): string | null {
+  if (ours === theirs) return ours;
+  if (base === ours) return theirs;
+  if (base === theirs) return ours;
+  return null;
+}
+
+/**
+ * Attempts a content merge of one unmerged path.
+ *
+ * Only regular files present in all three stages are merged, with the
+ * context's backend or `git merge-file`.
+ *
+ * @param stages - Index stage entries of the path
+ * @param ctx - Repository to run in
+ * @returns Promise resolving to the merged mode and content, or null if the
+ *   path does not merge cleanly
+ */
+async function mergeStages(
+  stages: ConflictStage[],
+  ctx: RepoContext,
+): Promise<{ mode: string; content: Uint8Array } | null> {
+  const [base, ours, theirs] = [1, 2, 3].map((n) =>
+    stages.find((s) => s.stage === n)
+  );
+  if (!base || !ours || !theirs) return null;
+  const isRegular = (mode: string) => mode === "100644" || mode === "100755";
+  if (![base, ours, theirs].every((s) => isRegular(s.mode))) return null;
+  const mode = mergeModes(base.mode, ours.mode, theirs.mode);
+  if (!mode) return null;
+
+  if (ctx.backend) {
+    const merged = await ctx.backend.mergeFile(base.oid, ours.oid, theirs.oid);
+    if (!merged.clean) return null;
+    return { mode, content: new TextEncoder().encode(merged.content) };
+  }
+
+  const dir = await Deno.makeTempDir({ prefix: "git_check_conflicts_" });
+  try {
+    // Stage files in merge-file argument order: ours, base, theirs
+    const files: string[] = [];
+    for (const stage of [ours, base, theirs]) {
+      const blob = await readBlob(stage.oid, ctx);
+      if (!blob) return null;
+      const file = `${dir}/stage${stage.stage}`;
+      await Deno.writeFile(file, blob);
+      files.push(file);
+    }
+
+    // Exit code is the number of conflicts; negative (255) on errors such as binary files
+    const merged = await runGitBytes(
+      ["merge-file", "-p", ...files],
+      undefined,
+      undefined,
+      ctx,
+    );
+    return merged.code === 0 ? { mode, content: merged.stdout } : null;
+  } finally {
+    await Deno.remove(dir, { recursive: true }).catch(() => {});
+  }
+}
+
+/**
+ * Attempts a content merge of one unmerged path in a temporary index.
+ *
+ * On success the merged blob is written to the object database and replaces
+ * the unmerged stages in the temporary index.
+ *
+ * @param path - Path of the unmerged file
+ * @param stages - Index stage entries of the path
+ * @param tempIndex - Temporary index holding the merge
+ * @returns Promise resolving to true if the path was merged cleanly
+ */
+async function mergeFileInIndex(
+  path: string,
+  stages: ConflictStage[],
+  tempIndex: TempIndex,
+): Promise<boolean> {
+  const merged = await mergeStages(stages, tempIndex.ctx);
+  if (!merged) return false;
+
+  const hashed = await runGitBytes(
+    ["hash-object", "-w", "--stdin"],
+    merged.content,
+    undefined,
+    tempIndex.ctx,
+  );
+  if (hashed.code !== 0) return false;
+  const oid = new TextDecoder().decode(hashed.stdout).trim();
+
+  // A stage-0 entry replaces all unmerged stages of the path
+  const indexPath = tempIndex.getPath();
+  if (!indexPath) return false;
+  const update = await runGitBytes(
+    ["update-index", "-z", "--index-info"],
+    new TextEncoder().encode(`${merged.mode} ${oid} 0\t${path}\0`),
+    { GIT_INDEX_FILE: indexPath },
+    tempIndex.ctx,
+  );
+  return update.code === 0;
+}
+
+/**
+ * Performs a three-way merge of trees in a temporary index.
+ *
+ * Runs `git read-tree -m --aggressive` to resolve trivial cases, then
+ * content-merges the remaining unmerged regular files with `git merge-file`.
+ * Neither the real index nor the working tree is touched; merged blobs and
+ * the resulting tree are written to the object database. Renames are not
+ * detected.
+ *
+ * @param baseTree - Tree SHA of the merge base
+ * @param oursTree - Tree SHA of our side
+ * @param theirsTree - Tree SHA of their side
+ * @param tempIndex - Temporary index for the merge operation (its contents are replaced)
+ * @returns Promise resolving to the resulting tree, or the conflicted paths
+ *
+ * @example
+ * ```ts
+ * const tempIndex = new TempIndex();
+ * await tempIndex.create();
+ * const merged = await mergeTreesInIndex("base123", "ours456", "theirs789", tempIndex);
+ * console.log(merged.tree ?? merged.conflicted_files);
+ * await tempIndex.cleanup();
+ * ```
+ */
+export async function mergeTreesInIndex(
+  baseTree: string,
+  oursTree: string,
+  theirsTree: string,
+  tempIndex: TempIndex,
+): Promise<TreeMergeResult> {
+  await tempIndex.runGitWithIndex(["read-tree", "--empty"]);
+  const readTree = await tempIndex.runGitWithIndex([
     "read-tree",
     "-m",
+    "--aggressive",
     "--",
     baseTree,
     oursTree,
     theirsTree,
-  ]).catch(() => ({ code: 1, stdout: "", stderr: "" }));
+  ]);
+  if (readTree.code !== 0) {
+    throw new GitError(`git read-tree failed: ${readTree.stderr}`);
+  }
+
+  const lsRes = await tempIndex.runGitWithIndex([
+    "ls-files",
+    "-u",
+    "--stage",
+    "-z",
+  ]);
+  const unmerged = parseUnmergedEntries(lsRes.stdout);
+
+  const stages: Record<string, ConflictStage[]> = {};
+  for (const [path, entries] of Object.entries(unmerged)) {
+    if (!(await mergeFileInIndex(path, entries, tempIndex))) {
+      stages[path] = entries;
+    }
+  }
+
+  const conflictedFiles = Object.keys(stages);
+  if (conflictedFiles.length > 0) {
+    return { tree: null, conflicted_files: conflictedFiles, stages };
+  }
+
+  const writeTree = await tempIndex.runGitWithIndex(["write-tree"]);
+  if (writeTree.code !== 0 || !writeTree.stdout) {
+    throw new GitError(`git write-tree failed: ${writeTree.stderr}`);
+  }
+  return { tree: writeTree.stdout, conflicted_files: [], stages: {} };
+}
+
+/**
+ * Checks for merge conflicts with a {@link GitBackend}.
+ *
+ * Merges the trees like {@link mergeTreesInIndex} without an index: a path
+ * changed on one side takes that side's version, and a path changed on both
+ * sides conflicts unless it is a regular file whose contents merge cleanly.
+ * A file whose path is a directory on the other side conflicts as well.
+ * Renames are not detected.
+ *
+ * @param baseCommit - Merge base commit, or null to merge against an empty
+ *   tree
+ * @param oursCommit - Commit of our side
+ * @param theirsCommit - Commit of their side
+ * @param ctx - Repository with the backend to merge through
+ * @returns Promise resolving to the conflicting paths, sorted
+ *
+ * @example
+ * ```ts
+ * const ctx = { backend: new FsBackend({ cwd: "/path/to/repo" }) };
+ * const files = await checkConflictsWithBackend(base, ours, theirs, ctx);
+ * ```
+ */
+export async function checkConflictsWithBackend(
+  baseCommit: string | null,
+  oursCommit: string,
+  theirsCommit: string,
+  ctx: RepoContext & { backend: GitBackend },
+): Promise<string[]> {
+  const list = async (commit: string | null) =>
+    new Map<string, TreeFile>(
+      (commit ? await ctx.backend.listTree(commit) : []).map((file) => [
+        file.path,
+        file,
+      ]),
+    );
+  const [base, ours, theirs] = [
+    await list(baseCommit),
+    await list(oursCommit),
+    await list(theirsCommit),
+  ];
+  const same = (a?: TreeFile, b?: TreeFile) =>
+    a?.oid === b?.oid && a?.mode === b?.mode;
+
+  const conflicted = new Set<string>();
+  const merged: string[] = [];
+  const paths = new Set([...base.keys(), ...ours.keys(), ...theirs.keys()]);
+  for (const path of paths) {
+    const [b, o, t] = [base.get(path), ours.get(path), theirs.get(path)];
+    // The trivial cases `git read-tree -m --aggressive` resolves
+    if (same(o, t) || same(b, t)) {
+      if (o) merged.push(path);
+      continue;
+    }
+    if (same(b, o)) {
+      if (t) merged.push(path);
+      continue;
+    }
+    const stages = ([[1, b], [2, o], [3, t]] as const).flatMap((
+      [stage, entry],
+    ) => entry ? [{ mode: entry.mode, oid: entry.oid, stage }] : []);
+    if (await mergeStages(stages, ctx)) merged.push(path);
+    else conflicted.add(path);
+  }
+
+  // Directory/file: a merged file whose path is a directory in the result
+  const files = new Set([...merged, ...conflicted]);
+  for (const path of files) {
+    for (const slash of path.matchAll(/\//g)) {
+      const dir = path.slice(0, slash.index);
+      if (files.has(dir)) conflicted.add(dir);
+    }
+  }
+  return [...conflicted].sort();
+}
+
+/**
+ * A commit to be replayed by a rebase or cherry-pick.
+ */
+export interface ReplayCommit {
+  /** Commit SHA */
+  commit: string;
+  /** First parent SHA, or an empty string for a root commit */
+  parent: string;
+  /** First line of the commit message */
+  subject: string;
+}
+
+/**
+ * Commit at which a replay stops, with the tree it was applied onto.
+ */
+export interface ReplayStop extends ReplayCommit {
+  /** Tree of the replay before this commit: HEAD where the rebase stops */
+  tree: string;
+}
+
+/**
+ * Result of replaying commits with {@link replayCommits}.
+ */
+export interface ReplayResult {
+  /** Outcome of each commit, in input order */
+  steps: CommitReplayResult[];
+  /** The first conflicting commit, or null if every commit applies */
+  stop: ReplayStop | null;
+}
+
+/**
+ * Lists the commits `git rebase <upstream>` would replay, oldest first.
+ *
+ * Like rebase, this skips merge commits and commits whose changes are
+ * already present upstream (same patch ID).
+ *
+ * @param upstreamCommit - Commit to rebase onto
+ * @param headCommit - Tip of the branch being rebased
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the commits to replay
+ */
+export async function listRebaseCommits(
+  upstreamCommit: string,
+  headCommit: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<ReplayCommit[]> {
+  const result = await runCmd(
+    [
+      "git",
+      "log",
+      "--reverse",
+      "--no-merges",
+      "--right-only",
+      "--cherry-pick",
+      REPLAY_COMMIT_FORMAT,
+      `${upstreamCommit}...${headCommit}`,
+    ],
+    undefined,
+    ctx,
+  );
+  if (result.code !== 0) {
+    throw new GitError(`git log failed: ${result.stderr}`);
+  }
+  return parseReplayCommits(result.stdout);
+}
+
+/** Log format read by {@link parseReplayCommits} */
+const REPLAY_COMMIT_FORMAT = "--format=%H%x00%P%x00%s";
+
+/** Parses `git log` output in {@link REPLAY_COMMIT_FORMAT} */
+function parseReplayCommits(output: string): ReplayCommit[] {
+  return output.split(/\r?\n/).filter(Boolean).map((line) => {
+    const [commit, parents, subject] = line.split("\0");
+    return { commit, parent: parents.split(" ")[0] ?? "", subject };
+  });
+}
+
+/**
+ * Lists the commits of a commit or range to cherry-pick, oldest first.
+ *
+ * A range (`A..B`, `A...B`, `C^!`) is listed with one `git log` call,
+ * skipping merge commits; anything else is resolved as a single commit.
+ *
+ * @param spec - Commit or range (e.g. "abc123", "main~3..main")
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the commits to replay
+ * @throws {GitError} If the commit or range cannot be resolved or is empty
+ *
+ * @example
+ * ```ts
+ * const commits = await listCommitsInRange("v1.0..fix/login");
+ * console.log(commits.map((c) => c.subject));
+ * ```
+ */
+export async function listCommitsInRange(
+  spec: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<ReplayCommit[]> {
+  const isRange = spec.includes("..") || /\^[!@-]/.test(spec);
+  const args = isRange
+    ? ["log", "--reverse", "--no-merges", REPLAY_COMMIT_FORMAT, spec]
+    : ["log", "-1", REPLAY_COMMIT_FORMAT, `${spec}^{commit}`];
+  const list = await runCmd(["git", ...args, "--"], undefined, ctx);
+  if (list.code !== 0) {
+    throw new GitError(`Couldn't resolve '${spec}' to commits`);
+  }
+  const commits = parseReplayCommits(list.stdout);
+  if (commits.length === 0) {
+    throw new GitError(`No commits in range '${spec}'`);
+  }
+  return commits;
+}
+
+/**
+ * Replays commits onto a commit, as a rebase or a series of cherry-picks would.
+ *
+ * Each commit is applied onto the result of the previous one with a
+ * three-way merge (the commit's parent as base) in a temporary index. The
+ * replay stops at the first conflicting commit; the remaining commits are
+ * reported as `pending`. The working tree and the real index are never
+ * touched.
+ *
+ * @param commits - Commits to replay, oldest first
+ * @param ontoCommit - Commit to replay onto
+ * @param emptyTree - Empty tree SHA, used as the base of root commits
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the per-commit outcome, in input order, and
+ *   the commit the replay stops at
+ *
+ * @example
+ * ```ts
+ * const commits = await listCommitsInRange("main~2..main");
+ * const { steps } = await replayCommits(
+ *   commits,
+ *   "release/1.0",
+ *   getEmptyTreeHash(),
+ * );
+ * ```
+ */
+export async function replayCommits(
+  commits: ReplayCommit[],
+  ontoCommit: string,
+  emptyTree: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<ReplayResult> {
+  const results: CommitReplayResult[] = [];
+  let currentTree = await revToTree(ontoCommit, emptyTree, ctx);
+  let stop: ReplayStop | null = null;
+
+  const tempIndex = new TempIndex(ctx);
+  try {
+    await tempIndex.create();
+    for (const { commit, parent, subject } of commits) {
+      if (stop) {
+        results.push({
+          commit,
+          subject,
+          status: "pending",
+          conflicted_files: [],
+        });
+        continue;
+      }
+      const merged = await mergeTreesInIndex(
+        await revToTree(parent, emptyTree, ctx),
+        currentTree,
+        await revToTree(commit, emptyTree, ctx),
+        tempIndex,
+      );
+      if (merged.tree === null) {
+        stop = { commit, parent, subject, tree: currentTree };
+        results.push({
+          commit,
+          subject,
+          status: "conflict",
+          conflicted_files: merged.conflicted_files,
+        });
+      } else {
+        currentTree = merged.tree;
+        results.push({
+          commit,
+          subject,
+          status: "clean",
+          conflicted_files: [],
+        });
+      }
+    }
+  } finally {
+    await tempIndex.cleanup();
+  }
+
+  return { steps: results, stop };
+}
 
-  // Check for unmerged entries
-  const lsRes = await tempIndex.runGitWithIndex(["ls-files", "-u", "--stage"]);
-  return parseUnmergedFiles(lsRes.stdout);
+/**
+ * Simulates rebasing a branch onto another commit.
+ *
+ * Replays the commits from {@link listRebaseCommits} onto the upstream commit
+ * with {@link replayCommits}.
+ *
+ * @param upstreamCommit - Commit to rebase onto
+ * @param headCommit - Tip of the branch being rebased
+ * @param emptyTree - Empty tree SHA, used as the base of root commits
+ * @param ctx - Repository to run in (default: the current working directory)
+ * @returns Promise resolving to the per-commit outcome, oldest first, and
+ *   the commit the rebase stops at
+ *
+ * @example
+ * ```ts
+ * const { stop } = await simulateRebase("main", "HEAD", getEmptyTreeHash());
+ * if (stop) console.log(`Rebase stops at ${stop.commit}: ${stop.subject}`);
+ * ```
+ */
+export async function simulateRebase(
+  upstreamCommit: string,
+  headCommit: string,
+  emptyTree: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<ReplayResult> {
+  const commits = await listRebaseCommits(upstreamCommit, headCommit, ctx);
+  return await replayCommits(commits, upstreamCommit, emptyTree, ctx);
 }
 
 /**
@@ -788,6 +3052,7 @@ export async function checkConflictsWithReadTree(
  * @param oursCommit - Commit SHA of the current branch
  * @param theirsCommit - Commit SHA of the branch being merged
  * @param emptyTree - Empty tree SHA to use if merge base is not available
+ * @param ctx - Repository to run in (default: the current working directory)
  * @returns Promise resolving to true if conflicts exist, false otherwise
  *
  * @example
@@ -806,14 +3071,19 @@ export async function checkConflictsWithMergeTree(
   oursCommit: string,
   theirsCommit: string,
   emptyTree: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<boolean> {
-  const mergeTreeRes = await runCmd([
-    "git",
-    "merge-tree",
-    mergeBase || emptyTree,
-    oursCommit,
-    theirsCommit,
-  ]);
+  const mergeTreeRes = await runCmd(
+    [
+      "git",
+      "merge-tree",
+      mergeBase || emptyTree,
+      oursCommit,
+      theirsCommit,
+    ],
+    undefined,
+    ctx,
+  );
 
   // Check for content conflicts (markers)
   if (/<<<<<<< /m.test(mergeTreeRes.stdout)) {
@@ -843,6 +3113,7 @@ export async function checkConflictsWithMergeTree(
  * @param oursCommit - Commit SHA of the current branch
  * @param theirsCommit - Commit SHA of the branch being merged
  * @param emptyTree - Empty tree SHA to use if merge base is not available
+ * @param ctx - Repository to run in (default: the current working directory)
  * @returns Promise resolving to array of file paths with actual conflicts
  *
  * @example
@@ -861,14 +3132,19 @@ export async function getConflictingFilesFromMergeTree(
   oursCommit: string,
   theirsCommit: string,
   emptyTree: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<string[]> {
-  const mergeTreeRes = await runCmd([
-    "git",
-    "merge-tree",
-    mergeBase || emptyTree,
-    oursCommit,
-    theirsCommit,
-  ]);
+  const mergeTreeRes = await runCmd(
+    [
+      "git",
+      "merge-tree",
+      mergeBase || emptyTree,
+      oursCommit,
+      theirsCommit,
+    ],
+    undefined,
+    ctx,
+  );
 
   const conflictingFiles: string[] = [];
   const lines = mergeTreeRes.stdout.split(/\r?\n/);
@@ -882,14 +3158,15 @@ export async function getConflictingFilesFromMergeTree(
         .test(line)
     ) {
       // The file path appears in the subsequent lines (base, our, their)
-      // Look for lines like: "  base   100644 hash filename"
+      // Look for lines like: "  base   100644 hash filename", where the
+      // hash is a SHA-1 or SHA-256 object ID
       for (
         let j = i + 1;
         j < Math.min(i + MERGE_TREE_METADATA_SEARCH_WINDOW, lines.length);
         j++
       ) {
         const match = lines[j].match(
-          /^\s+(base|our|their)\s+\d+\s+[a-f0-9]+\s+(.+)$/,
+          /^\s+(base|our|their)\s+\d+\s+[0-9a-f]{40}(?:[0-9a-f]{24})?\s+(.+)$/,
         );
         if (match) {
           const filename = match[2];
@@ -905,7 +3182,9 @@ export async function getConflictingFilesFromMergeTree(
     // We need to check if the content has conflict markers
     if (/^merged/.test(line) || /^result/.test(line)) {
       // Look for the file reference in nearby lines
-      const match = line.match(/^(merged|result)\s+\d+\s+[a-f0-9]+\s+(.+)$/);
+      const match = line.match(
+        /^(merged|result)\s+\d+\s+[0-9a-f]{40}(?:[0-9a-f]{24})?\s+(.+)$/,
+      );
       if (match) {
         const filename = match[2];
         // Check if subsequent content has conflict markers
@@ -945,6 +3224,7 @@ export async function getConflictingFilesFromMergeTree(
  *
  * @param oursCommit - Commit SHA of the first commit
  * @param theirsCommit - Commit SHA of the second commit
+ * @param ctx - Repository to run in (default: the current working directory)
  * @returns Promise resolving to array of file paths that differ between commits
  *
  * @example
@@ -956,14 +3236,19 @@ export async function getConflictingFilesFromMergeTree(
 export async function getChangedFilesBetween(
   oursCommit: string,
   theirsCommit: string,
+  ctx: RepoContext = DEFAULT_CONTEXT,
 ): Promise<string[]> {
-  const changedRes = await runCmd([
-    "git",
-    "diff",
-    "--name-only",
-    oursCommit,
-    theirsCommit,
-  ]);
+  const changedRes = await runCmd(
+    [
+      "git",
+      "diff",
+      "--name-only",
+      oursCommit,
+      theirsCommit,
+    ],
+    undefined,
+    ctx,
+  );
   if (changedRes.code === 0 && changedRes.stdout) {
     return changedRes.stdout.split(/\r?\n/).filter(Boolean);
   }
@@ -973,6 +3258,8 @@ export async function getChangedFilesBetween(
 /**
  * Checks if the current directory is a Git repository.
  *
+ * @param ctx - Repository to run in (default: the current working directory)
+ *
  * @returns Promise resolving to true if in a Git repository, false otherwise
  *
  * @example
@@ -983,14 +3270,28 @@ export async function getChangedFilesBetween(
  * }
  * ```
  */
-export async function isGitRepository(): Promise<boolean> {
-  const result = await runCmd(["git", "rev-parse", "--git-dir"]);
+export async function isGitRepository(
+  ctx: RepoContext = DEFAULT_CONTEXT,
+): Promise<boolean> {
+  if (ctx.backend) {
+    return await ctx.backend.resolveCommit("HEAD").then(
+      () => true,
+      () => false,
+    );
+  }
+  const result = await runCmd(
+    ["git", "rev-parse", "--git-dir"],
+    undefined,
+    ctx,
+  );
   return result.code === 0;
 }
 
 /**
  * Fetches all remotes in the Git repository.
  *
+ * @param ctx - Repository to run in (default: the current working directory)
+ *
  * @returns Promise resolving to success status and optional error message
  *
  * @example
@@ -1001,10 +3302,10 @@ export async function isGitRepository(): Promise<boolean> {
  * }
  * ```
  */
-export async function fetchAll(): Promise<
+export async function fetchAll(ctx: RepoContext = DEFAULT_CONTEXT): Promise<
   { success: boolean; error?: string }
 > {
-  const result = await runCmd(["git", "fetch", "--all"]);
+  const result = await runCmd(["git", "fetch", "--all"], undefined, ctx);
   if (result.code !== 0) {
     return { success: false, error: result.stderr || result.stdout };
   }
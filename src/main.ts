@@ -6,7 +6,8 @@
  *
  * This module provides a command-line interface for detecting merge conflicts
  * between Git branches without performing an actual merge. It uses Git's
- * read-tree and merge-tree commands to simulate merges and identify conflicts.
+ * merge-ort engine (`merge-tree --write-tree`), or read-tree and merge-tree on
+ * older Git versions, to simulate merges and identify conflicts.
  *
  * @example
  * ```bash
@@ -18,30 +19,70 @@
  *
  * # Output JSON for CI/CD
  * deno run -P main.ts --json develop
+ *
+ * # Check two arbitrary refs without checking either out
+ * deno run -P main.ts feature/login main
+ *
+ * # Check against main and every release branch
+ * deno run -P main.ts --against main --against 'release/*'
+ *
+ * # Find in-flight branches that collide with each other
+ * deno run -P main.ts pairwise 'refs/remotes/origin/feature/*'
+ *
+ * # Can these fixes be backported cleanly?
+ * deno run -P main.ts backport --json main~3..main 'release/*'
+ *
+ * # Check work that is not committed yet
+ * deno run -P main.ts --include-worktree main
+ *
+ * # Read the repository without the git binary
+ * deno run --allow-read main.ts --backend fs --format json feature main
  * ```
  */
 
 import { parseArgs } from "@std/cli/parse-args";
+import schema from "./schema.json" with { type: "json" };
+import { FsBackend } from "./backend.ts";
+import { ConflictChecker } from "./checker.ts";
 import {
-  checkConflictsWithMergeTree,
-  checkConflictsWithReadTree,
   type ConflictCheckResult,
-  detectDefaultBranch,
   fetchAll,
-  getConflictingFilesFromMergeTree,
-  getCurrentRef,
-  getEmptyTreeHash,
-  getFileConflictDetail,
+  type FileVersions,
+  getFileVersions,
   GitError,
   isGitRepository,
-  resolveCommit,
-  revToTree,
-  runCmd,
-  TempIndex,
+  type MatrixCheckResult,
+  type RepoContext,
+  type UncommittedSource,
 } from "./lib.ts";
+import {
+  formatBackportText,
+  formatConflictHunk,
+  formatGithubAnnotations,
+  formatGithubSummary,
+  formatHtml,
+  formatJson,
+  formatJunit,
+  formatMarkdown,
+  formatNdjsonEvent,
+  formatPairwiseCsv,
+  formatPairwiseText,
+  formatSarif,
+  isOutputFormat,
+  type NdjsonEvent,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from "./format.ts";
 
 const VERSION = "0.0.1";
 const SCRIPT_NAME = "git-check-conflicts";
+const SARIF_TOOL = { name: SCRIPT_NAME, version: VERSION };
+
+/** Subcommands selected by the first argument */
+const COMMANDS = ["pairwise", "backport"] as const;
+
+/** Ways to read the repository (`--backend`) */
+const BACKENDS = ["git", "fs"];
 
 /**
  * Displays usage information for the CLI tool.
@@ -50,7 +91,15 @@ const SCRIPT_NAME = "git-check-conflicts";
  */
 function usage(prog = "git-check-conflicts.ts") {
   console.log(
-    `Usage: deno run --allow-run --allow-read --allow-write --allow-env ${prog} [--fetch] [--diff|-d] [--json] [other-branch-or-ref]
+    `Usage: deno run --allow-run --allow-read --allow-write --allow-env ${prog} [--fetch] [--diff|-d] [--json] [--ours <ref>] [other-branch-or-ref]
+       ${prog} [options] --against <ref-or-glob> [--against ...]
+       ${prog} pairwise [--format text|json|csv] <ref-or-glob>...
+       ${prog} backport [--json] <commit-or-range> <target-ref-or-glob>...
+       ${prog} [options] <ours-ref> <theirs-ref>
+
+Checks merging other-branch-or-ref into the current HEAD, or into the ref given
+with --ours (or as the first of two positional arguments). Any two refs can be
+checked from any checkout, including a bare clone.
 
 If other-branch-or-ref is omitted, the script will try to detect the repository's default branch:
   1) remote HEAD (e.g. origin/HEAD -> origin/main)
@@ -59,11 +108,59 @@ If other-branch-or-ref is omitted, the script will try to detect the repository'
   4) most-recent local branch (excluding current)
 
 Options:
+  -C, --repo <path>
+               run as if started in <path> (like 'git -C'); --output paths
+               stay relative to the current directory
+  --ours <ref> check this ref instead of HEAD ("our" side of the merge)
+  --against <ref-or-glob>
+               matrix mode: check against every given target (repeatable);
+               globs such as 'release/*' match local and remote branches.
+               Prints a summary table; exits 1 if any target conflicts
   --fetch      run 'git fetch --all' before checking
   --diff, -d   print unified diffs (ours -> theirs) for conflicting files
-  --json       print machine-readable JSON output (for CI)
+  --rebase     simulate rebasing ours onto the other ref commit by commit and
+               report the first commit that would stop with a conflict
+  --include-staged
+               include staged (indexed) changes on our side, as if committed
+  --include-worktree
+               include all working tree changes (tracked and untracked) on
+               our side, as if committed; index and worktree stay untouched
+  --json       print machine-readable JSON output (for CI), same as --format json
+  --format <f> output format: text (default), json, sarif (code scanning),
+               junit (test dashboards), github (Actions annotations and job
+               summary; default when GITHUB_ACTIONS=true), markdown (pull
+               request comment), html (standalone report), ndjson (one
+               event per line as the checks run); csv for pairwise.
+               All formats except text, json and csv imply --diff details
+  --max-diff-size <n>
+               truncate each diff in markdown reports to n characters
+               (default 8000)
+  --backend <b>
+               how to read the repository: git (default) runs the git
+               binary; fs reads the .git directory itself, so checks of
+               explicit refs need only --allow-read. Repositories fs cannot
+               read fall back to git; ref globs, default branch detection,
+               --rebase and uncommitted changes still run git, and
+               conflict details do not detect renames
+  -j, --jobs <n>
+               check files, targets and ref pairs in parallel, running up
+               to n git commands at once (default: the number of CPUs);
+               output order is unaffected
+  --output <path>
+               write the --format report to a file and print the
+               human-readable output to stdout
+  --print-schema
+               print the JSON Schema of the --json output and exit
   -h, --help   show this help
 
+Commands:
+  pairwise     check every pair of the given refs/globs against each other and
+               print an N×N matrix (text grid, JSON or CSV) of conflicting
+               files; pairs where one ref contains the other are skipped
+  backport     simulate cherry-picking a commit or range (e.g. main~3..main)
+               onto each target branch and report per target which commit
+               fails on which files ("backport-clean"/"backport-needs-manual")
+
 Exit codes:
   0 -> no conflicts expected
   1 -> conflicts expected
@@ -72,33 +169,371 @@ Exit codes:
   );
 }
 
+/**
+ * Prints the human-readable conflict report.
+ *
+ * @param result - Conflict check result with conflicts
+ * @param printDiffs - Whether to print per-file conflict details and diffs
+ */
+function printConflicts(result: ConflictCheckResult, printDiffs: boolean) {
+  const action = result.rebase ? "rebasing onto" : "merging";
+  console.log(
+    `CONFLICTS EXPECTED when ${action} ${result.other_ref} (detected via ${result.engine}):`,
+  );
+  if (result.criss_cross) {
+    console.log(
+      `(criss-cross history with ${result.merge_bases.length} merge bases)`,
+    );
+  }
+  for (const f of result.conflicted_files) console.log(f);
+
+  if (printDiffs) {
+    console.log(
+      "\nUnified diffs (ours -> theirs) for each conflicting file:",
+    );
+    for (const f of result.conflicted_files) {
+      console.log("\n--- " + f + " ---");
+      const fileDetail = result.files[f];
+      if (fileDetail?.message) {
+        console.log(
+          `⚠️  ${
+            fileDetail.conflict_type.toUpperCase()
+              .replace(/_(\d)TO(\d)$/, " ($1→$2)").replace(/_/g, "/")
+          } CONFLICT:`,
+        );
+        console.log(
+          fileDetail.message.split("\n").map((line) => `   ${line}`).join(
+            "\n",
+          ),
+        );
+        console.log();
+      }
+      if (fileDetail?.diff) console.log(fileDetail.diff);
+      else console.log("(no textual diff available or file is binary)");
+      fileDetail?.hunks?.forEach((hunk, i) =>
+        console.log("\n" + formatConflictHunk(hunk, i))
+      );
+    }
+  }
+}
+
+/**
+ * Prints the human-readable report for a clean merge.
+ *
+ * @param result - Conflict check result without conflicts
+ */
+function printClean(result: ConflictCheckResult) {
+  console.log("No conflicts expected.");
+  const changes = result.uncommitted ? ` + ${result.uncommitted} changes` : "";
+  console.log(
+    `  current branch: ${result.current_ref}${changes} (${result.ours_commit})`,
+  );
+  console.log(
+    `  other branch  : ${result.other_ref} (${result.theirs_commit})`,
+  );
+  if (result.criss_cross) {
+    console.log(
+      `  merge-bases    : ${result.merge_bases.join(", ")} (criss-cross)`,
+    );
+  } else if (result.merge_base) {
+    console.log(`  merge-base     : ${result.merge_base}`);
+  } else {
+    console.log("  merge-base     : (no common ancestor)");
+  }
+}
+
+/**
+ * Prints the per-commit outcome of a rebase simulation.
+ *
+ * @param result - Conflict check result with rebase steps
+ */
+function printRebase(result: ConflictCheckResult) {
+  const steps = result.rebase ?? [];
+  console.log(
+    `Rebase simulation of ${result.current_ref} onto ${result.other_ref} (${steps.length} commits):`,
+  );
+  for (const step of steps) {
+    const status = step.status === "conflict" ? "CONFLICT" : step.status;
+    console.log(
+      `  ${status.padEnd(8)} ${step.commit.slice(0, 12)} ${step.subject}`,
+    );
+  }
+  const stop = steps.find((step) => step.status === "conflict");
+  if (stop) {
+    console.log(
+      `\nRebase would stop at ${stop.commit} (${stop.subject}).`,
+    );
+  }
+  console.log();
+}
+
+/**
+ * Prints the summary table of a matrix check.
+ *
+ * @param matrix - Matrix check result
+ */
+function printMatrixSummary(matrix: MatrixCheckResult) {
+  const rows = matrix.targets.map((t) => [
+    t.other_ref,
+    t.conflicts ? "CONFLICT" : "clean",
+    String(t.conflicted_files.length),
+  ]);
+  const header = ["TARGET", "STATUS", "FILES"];
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length))
+  );
+  const line = (cells: string[]) =>
+    "  " + cells.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd();
+
+  console.log(
+    `Conflict matrix for ${matrix.current_ref} (${matrix.ours_commit}):`,
+  );
+  console.log(line(header));
+  for (const row of rows) console.log(line(row));
+}
+
+/**
+ * Fetches all remotes, reporting progress on the console.
+ *
+ * @param ctx - Repository to fetch in
+ */
+async function fetchRemotes(ctx: RepoContext) {
+  console.log("Fetching remotes...");
+  const fetchResult = await fetchAll(ctx);
+  if (!fetchResult.success) {
+    console.warn("git fetch --all failed:", fetchResult.error);
+  } else {
+    console.log("Fetch complete.");
+  }
+}
+
+/**
+ * Renders conflict check results in one of the report formats.
+ *
+ * The HTML report also reads the base, ours and theirs versions of each
+ * conflicting file for its three-way views, and the JUnit report lists the
+ * files changed on either side.
+ *
+ * @param format - Output format (`json`, `sarif`, `junit`, `markdown` or `html`)
+ * @param results - Conflict check results, one per target ref
+ * @param json - Object to serialize for the `json` format
+ * @param checker - Checker the results come from
+ * @param maxDiffSize - Maximum characters per diff in Markdown reports
+ * @returns Promise resolving to the report text
+ */
+async function formatReport(
+  format: OutputFormat,
+  results: ConflictCheckResult[],
+  json: object,
+  checker: ConflictChecker,
+  maxDiffSize?: number,
+): Promise<string> {
+  switch (format) {
+    case "html": {
+      const targets = [];
+      for (const result of results) {
+        const versions: Record<string, FileVersions> = {};
+        for (const file of result.conflicted_files) {
+          versions[file] = await getFileVersions(
+            file,
+            result.merge_base ?? undefined,
+            result.ours_commit,
+            result.theirs_commit,
+            checker.ctx,
+          );
+        }
+        targets.push({ result, versions });
+      }
+      return formatHtml(targets, SCRIPT_NAME);
+    }
+    case "sarif":
+      return formatSarif(results, SARIF_TOOL);
+    case "junit": {
+      const targets = [];
+      for (const result of results) {
+        targets.push({
+          result,
+          changedFiles: await checker.getChangedFiles(result),
+        });
+      }
+      return formatJunit(targets, SCRIPT_NAME);
+    }
+    case "markdown":
+      return formatMarkdown(results, { title: SCRIPT_NAME, maxDiffSize });
+    default:
+      return formatJson(json);
+  }
+}
+
+/**
+ * Writes a machine-readable report to the `--output` file, or to stdout.
+ *
+ * @param report - Report in the selected output format
+ * @param outputPath - File to write to; stdout if undefined
+ */
+async function writeReport(report: string, outputPath?: string) {
+  if (outputPath) await Deno.writeTextFile(outputPath, report + "\n");
+  else console.log(report);
+}
+
+/**
+ * Emits GitHub Actions annotations for the conflicting files and appends a
+ * Markdown job summary to `$GITHUB_STEP_SUMMARY`, if set.
+ *
+ * @param results - Conflict check results, one per target ref
+ */
+async function writeGithubOutput(results: ConflictCheckResult[]) {
+  const annotations = formatGithubAnnotations(results);
+  if (annotations) console.log(annotations);
+  const summaryPath = Deno.env.get("GITHUB_STEP_SUMMARY");
+  if (summaryPath) {
+    await Deno.writeTextFile(
+      summaryPath,
+      formatGithubSummary(results, SCRIPT_NAME) + "\n",
+      { append: true },
+    );
+  }
+}
+
+/**
+ * Runs the `pairwise` command.
+ *
+ * @param args - Positional arguments: ref names and/or glob patterns
+ * @param format - Output format
+ * @param checker - Conflict checker
+ * @param outputPath - File to write the report to (`--output`), if any
+ * @returns Promise resolving to exit code: 0 (no conflicts), 1 (conflicts)
+ * @throws {GitError} If fewer than two refs are given or matched
+ */
+async function runPairwise(
+  args: string[],
+  format: OutputFormat,
+  checker: ConflictChecker,
+  outputPath?: string,
+): Promise<number> {
+  if (args.length === 0) {
+    throw new GitError(
+      "pairwise requires at least one ref pattern (e.g. 'feature/*').",
+      2,
+    );
+  }
+
+  const unique = await checker.expandRefs(args);
+  if (unique.length < 2) {
+    throw new GitError(
+      `pairwise needs at least two refs, got ${unique.length}.`,
+      2,
+    );
+  }
+
+  const result = await checker.checkPairwise(unique);
+  const code = result.conflicts ? 1 : 0;
+  if (format !== "text") {
+    await writeReport(
+      format === "csv" ? formatPairwiseCsv(result) : formatJson(result),
+      outputPath,
+    );
+    if (!outputPath) return code;
+  }
+  console.log(formatPairwiseText(result));
+  return code;
+}
+
+/**
+ * Runs the `backport` command.
+ *
+ * Simulates cherry-picking every commit of the range, in order, onto each
+ * target branch and reports which commit fails on which files.
+ *
+ * @param args - Positional arguments: commit or range, then target refs/globs
+ * @param format - Output format
+ * @param checker - Conflict checker
+ * @param outputPath - File to write the report to (`--output`), if any
+ * @returns Promise resolving to exit code: 0 (clean everywhere), 1 (needs manual work)
+ * @throws {GitError} If the range or a target cannot be resolved
+ */
+async function runBackport(
+  args: string[],
+  format: OutputFormat,
+  checker: ConflictChecker,
+  outputPath?: string,
+): Promise<number> {
+  const [range, ...targetArgs] = args;
+  if (!range || targetArgs.length === 0) {
+    throw new GitError(
+      "backport requires a commit or range and at least one target branch.",
+      2,
+    );
+  }
+
+  const result = await checker.checkBackport(
+    range,
+    await checker.expandRefs(targetArgs),
+  );
+  const code = result.clean ? 0 : 1;
+  if (format !== "text") {
+    await writeReport(formatJson(result), outputPath);
+    if (!outputPath) return code;
+  }
+  console.log(formatBackportText(result));
+  return code;
+}
+
 /**
  * Main entry point for the conflict detection CLI.
  *
- * This function orchestrates the entire conflict detection workflow:
- * 1. Validates Git repository
- * 2. Optionally fetches remote updates
- * 3. Detects or uses provided branch to compare against
- * 4. Resolves commits and finds merge base
- * 5. Checks for conflicts using read-tree (primary) or merge-tree (fallback)
- * 6. Outputs results in human-readable or JSON format
+ * This function is a thin wrapper over {@link ConflictChecker}:
+ * 1. Parses and validates the command line
+ * 2. Validates Git repository and optionally fetches remote updates
+ * 3. Resolves our side (HEAD or --ours) and detects or uses provided branch
+ *    to compare against (or expands the --against targets in matrix mode)
+ * 4. Runs the checks with the checker
+ * 5. Outputs results in human-readable or one of the report formats
  *
- * @returns Promise resolving to exit code: 0 (no conflicts), 1 (conflicts), 2 (error)
+ * Programs should use {@link ConflictChecker} or `checkConflicts` from
+ * `checker.ts` (the package entry point) instead.
  *
- * @example
- * ```ts
- * // Programmatic usage (if not using import.meta.main)
- * const exitCode = await main();
- * Deno.exit(exitCode);
- * ```
+ * @returns Promise resolving to exit code: 0 (no conflicts), 1 (conflicts), 2 (error)
  */
 async function main(): Promise<number> {
-  // Parse arguments
-  const parsed = parseArgs(Deno.args, {
-    boolean: ["fetch", "diff", "json", "help", "version"],
-    alias: { d: "diff", h: "help", v: "version" },
-    stopEarly: true,
-  });
+  // Parse arguments; a leading command name selects a subcommand. As with
+  // git, `-C <path>` may come before it.
+  const args = Deno.args;
+  const lead = args[0] === "-C" || args[0] === "--repo"
+    ? 2
+    : args[0]?.startsWith("--repo=")
+    ? 1
+    : 0;
+  const command = COMMANDS.find((c) => c === args[lead]);
+  const parsed = parseArgs(
+    command ? [...args.slice(0, lead), ...args.slice(lead + 1)] : args,
+    {
+      boolean: [
+        "fetch",
+        "diff",
+        "json",
+        "rebase",
+        "include-staged",
+        "include-worktree",
+        "help",
+        "version",
+        "print-schema",
+      ],
+      string: [
+        "ours",
+        "against",
+        "format",
+        "output",
+        "max-diff-size",
+        "repo",
+        "jobs",
+        "backend",
+      ],
+      collect: ["against"],
+      alias: { C: "repo", d: "diff", h: "help", j: "jobs", v: "version" },
+      stopEarly: true,
+    },
+  );
 
   if (parsed.help) {
     usage();
@@ -110,230 +545,255 @@ async function main(): Promise<number> {
     return 0;
   }
 
+  if (parsed["print-schema"]) {
+    console.log(JSON.stringify(schema, null, 2));
+    return 0;
+  }
+
   const doFetch = Boolean(parsed.fetch);
   const printDiffs = Boolean(parsed.diff);
-  const asJSON = Boolean(parsed.json);
-  const otherArg = parsed._[0] as string | undefined;
-
-  // Ensure in git repo
-  if (!(await isGitRepository())) {
-    throw new GitError("Not a git repository (or git not available).", 2);
+  // Inside GitHub Actions, annotate the pull request unless told otherwise;
+  // without env access (e.g. `--backend fs` with --allow-read only) we are not
+  const inActions = !command &&
+    Deno.permissions.querySync({ name: "env", variable: "GITHUB_ACTIONS" })
+        .state === "granted" &&
+    Deno.env.get("GITHUB_ACTIONS") === "true";
+  const format = parsed.format ??
+    (parsed.json ? "json" : inActions ? "github" : "text");
+  if (!isOutputFormat(format)) {
+    throw new GitError(
+      `Unknown format '${format}'. Expected one of: ${
+        OUTPUT_FORMATS.join(", ")
+      }.`,
+      2,
+    );
   }
-
-  // Optional fetch
-  if (doFetch) {
-    console.log("Fetching remotes...");
-    const fetchResult = await fetchAll();
-    if (!fetchResult.success) {
-      console.warn("git fetch --all failed:", fetchResult.error);
-    } else {
-      console.log("Fetch complete.");
+  if (parsed.json && format !== "json") {
+    throw new GitError(
+      `--json conflicts with --format ${format}.`,
+      2,
+    );
+  }
+  if (format === "csv" && command !== "pairwise") {
+    throw new GitError("--format csv is only supported by pairwise.", 2);
+  }
+  const reportOnly = ["sarif", "junit", "github", "markdown", "html", "ndjson"];
+  if (reportOnly.includes(format) && command) {
+    throw new GitError(`--format ${format} is not supported by ${command}.`, 2);
+  }
+  const outputPath: string | undefined = parsed.output;
+  if (
+    outputPath !== undefined &&
+    (!outputPath || ["text", "github", "ndjson"].includes(format))
+  ) {
+    throw new GitError(
+      "--output requires a path and a machine-readable --format.",
+      2,
+    );
+  }
+  let maxDiffSize: number | undefined;
+  if (parsed["max-diff-size"] !== undefined) {
+    maxDiffSize = Number(parsed["max-diff-size"]);
+    if (!Number.isInteger(maxDiffSize) || maxDiffSize < 1) {
+      throw new GitError(
+        `Invalid --max-diff-size '${
+          parsed["max-diff-size"]
+        }'. Expected a positive number of characters.`,
+        2,
+      );
     }
   }
-
-  // Get current ref
-  const currentRef = await getCurrentRef();
-
-  // Detect or use provided other branch
-  let otherRef = otherArg;
-  if (!otherRef) {
-    try {
-      otherRef = await detectDefaultBranch(currentRef);
-      console.log(`Detected other branch/ref: ${otherRef}`);
-    } catch (_e) {
+  let jobs: number | undefined;
+  if (parsed.jobs !== undefined) {
+    jobs = Number(parsed.jobs);
+    if (!Number.isInteger(jobs) || jobs < 1) {
       throw new GitError(
-        "Could not detect a default branch to compare against. Provide one manually as an argument.",
+        `Invalid --jobs '${parsed.jobs}'. Expected a positive number.`,
         2,
       );
     }
   }
-
-  if (otherRef === currentRef) {
+  if (parsed["include-staged"] && parsed["include-worktree"]) {
     throw new GitError(
-      `Other branch ('${otherRef}') is the same as current ('${currentRef}'). Nothing to do.`,
+      "Use either --include-staged or --include-worktree, not both.",
       2,
     );
   }
-
-  // Resolve commits
-  const oursResult = await resolveCommit("HEAD");
-  const oursCommit = oursResult.commit;
-
-  let theirsResult;
-  try {
-    theirsResult = await resolveCommit(otherRef);
-  } catch (_e) {
+  const uncommitted: UncommittedSource | undefined = parsed["include-worktree"]
+    ? "worktree"
+    : parsed["include-staged"]
+    ? "staged"
+    : undefined;
+  const backendName = parsed.backend ?? "git";
+  if (!BACKENDS.includes(backendName)) {
     throw new GitError(
-      `Couldn't resolve other branch/ref '${otherRef}' to a commit. Ensure it exists locally or as a remote-tracking ref.`,
+      `Unknown backend '${backendName}'. Expected one of: ${
+        BACKENDS.join(", ")
+      }.`,
       2,
     );
   }
-  const theirsCommit = theirsResult.commit;
-  otherRef = theirsResult.resolvedRef; // Use resolved name
-
-  // Compute merge-base
-  const emptyTree = getEmptyTreeHash();
-  const mbRes = await runCmd(["git", "merge-base", oursCommit, theirsCommit]);
-  const mergeBase = mbRes.code === 0 && mbRes.stdout ? mbRes.stdout : "";
-
-  // Resolve trees
-  const baseTree = await revToTree(mergeBase, emptyTree);
-  const oursTree = await revToTree(oursCommit, emptyTree);
-  const theirsTree = await revToTree(theirsCommit, emptyTree);
-
-  // Prepare result object
-  const result: ConflictCheckResult = {
-    current_ref: currentRef,
-    other_ref: otherRef,
-    ours_commit: oursCommit,
-    theirs_commit: theirsCommit,
-    merge_base: mergeBase || null,
-    conflicts: false,
-    conflicted_files: [],
-    files: {},
-  };
-
-  // Check for conflicts using read-tree
-  const tempIndex = new TempIndex();
-  try {
-    await tempIndex.create();
-    const unmergedFiles = await checkConflictsWithReadTree(
-      baseTree,
-      oursTree,
-      theirsTree,
-      tempIndex,
+  const repoPath: string | undefined = parsed.repo;
+  if (repoPath !== undefined) {
+    const isDirectory = await Deno.stat(repoPath).then(
+      (info) => info.isDirectory,
+      () => false,
     );
+    if (!isDirectory) {
+      throw new GitError(
+        `Cannot use repository path '${repoPath}': not a directory.`,
+        2,
+      );
+    }
+  }
 
-    if (unmergedFiles.length > 0) {
-      result.conflicts = true;
-      result.conflicted_files = unmergedFiles;
-
-      if (printDiffs) {
-        for (const f of unmergedFiles) {
-          result.files[f] = await getFileConflictDetail(
-            f,
-            oursCommit,
-            theirsCommit,
-            mergeBase || undefined,
-          );
-        }
-      }
-
-      if (asJSON) {
-        console.log(JSON.stringify(result, null, 2));
-        return 1;
-      }
-
-      console.log("CONFLICTS EXPECTED when merging (detected via read-tree):");
-      for (const f of unmergedFiles) console.log(f);
-
-      if (printDiffs) {
-        console.log(
-          "\nUnified diffs (ours -> theirs) for each conflicting file:",
-        );
-        for (const f of unmergedFiles) {
-          console.log("\n--- " + f + " ---");
-          const fileDetail = result.files[f];
-          if (fileDetail?.message) {
-            console.log(
-              `⚠️  ${
-                fileDetail.conflict_type.toUpperCase().replace(/_/g, "/")
-              } CONFLICT:`,
-            );
-            console.log(
-              fileDetail.message.split("\n").map((line) => `   ${line}`).join(
-                "\n",
-              ),
-            );
-            console.log();
-          }
-          if (fileDetail?.diff) console.log(fileDetail.diff);
-          else console.log("(no textual diff available or file is binary)");
-        }
-      }
+  // Streamed progress and results (`--format ndjson`)
+  const emit = format === "ndjson"
+    ? (event: NdjsonEvent) => console.log(formatNdjsonEvent(event))
+    : () => {};
+  await using checker = new ConflictChecker({
+    repo: repoPath,
+    // Reports and annotations need the per-file conflict types, hunks and diffs
+    details: printDiffs || reportOnly.includes(format),
+    rebase: Boolean(parsed.rebase),
+    uncommitted,
+    jobs,
+    backend: backendName === "fs"
+      ? new FsBackend({ cwd: repoPath })
+      : undefined,
+  });
+  const { ctx } = checker;
+  const against = parsed.against.filter(Boolean);
+  const positional = parsed._.map(String);
 
-      return 1;
+  if (command && uncommitted) {
+    throw new GitError(
+      `--include-${uncommitted} is not supported by ${command}.`,
+      2,
+    );
+  }
+  if (command) {
+    if (!(await isGitRepository(ctx))) {
+      throw new GitError("Not a git repository (or git not available).", 2);
+    }
+    if (doFetch) await fetchRemotes(ctx);
+    if (command === "backport") {
+      return await runBackport(positional, format, checker, outputPath);
     }
-  } finally {
-    await tempIndex.cleanup();
+    return await runPairwise(positional, format, checker, outputPath);
   }
 
-  // Fallback: use merge-tree
-  const hasConflicts = await checkConflictsWithMergeTree(
-    mergeBase || emptyTree,
-    oursCommit,
-    theirsCommit,
-    emptyTree,
-  );
+  if (positional.length > 2) {
+    throw new GitError(
+      `Too many arguments: ${positional.join(" ")}. See --help.`,
+      2,
+    );
+  }
+  if (parsed.ours !== undefined && positional.length === 2) {
+    throw new GitError(
+      "Use either --ours <ref> or two positional refs, not both.",
+      2,
+    );
+  }
+  if (against.length > 0 && positional.length > 0) {
+    throw new GitError(
+      "Use either --against or a positional other ref, not both.",
+      2,
+    );
+  }
+  const oursArg = parsed.ours ??
+    (positional.length === 2 ? positional[0] : undefined);
+  const otherArg = positional.length === 2 ? positional[1] : positional[0];
+  if (oursArg === "") {
+    throw new GitError("--ours requires a ref.", 2);
+  }
+  if (oursArg !== undefined && uncommitted) {
+    throw new GitError(
+      `--include-${uncommitted} only applies to the current HEAD, not to --ours or two refs.`,
+      2,
+    );
+  }
+
+  // Ensure in git repo
+  if (!(await isGitRepository(ctx))) {
+    throw new GitError("Not a git repository (or git not available).", 2);
+  }
 
-  if (hasConflicts) {
-    const conflictingFiles = await getConflictingFilesFromMergeTree(
-      mergeBase || emptyTree,
-      oursCommit,
-      theirsCommit,
-      emptyTree,
+  // Optional fetch
+  if (doFetch) await fetchRemotes(ctx);
+
+  // Resolve our side: the requested ref, or the current HEAD, including
+  // uncommitted changes if requested
+  const ours = await checker.resolveOurs(oursArg);
+  const currentRef = ours.ref;
+
+  // Matrix mode: check against every target
+  if (against.length > 0) {
+    const matrix = await checker.checkMatrix(
+      await checker.expandRefs(against, currentRef),
+      ours,
+      emit,
     );
-    result.conflicts = true;
-    result.conflicted_files = conflictingFiles;
-
-    if (printDiffs) {
-      for (const f of conflictingFiles) {
-        result.files[f] = await getFileConflictDetail(
-          f,
-          oursCommit,
-          theirsCommit,
-          mergeBase || undefined,
-        );
-      }
-    }
 
-    if (asJSON) {
-      console.log(JSON.stringify(result, null, 2));
-      return 1;
+    const code = matrix.conflicts ? 1 : 0;
+    if (format === "ndjson") return code;
+    if (format === "github") await writeGithubOutput(matrix.targets);
+    else if (format !== "text") {
+      await writeReport(
+        await formatReport(
+          format,
+          matrix.targets,
+          matrix,
+          checker,
+          maxDiffSize,
+        ),
+        outputPath,
+      );
+      if (!outputPath) return code;
     }
 
-    console.log("CONFLICTS EXPECTED (detected via merge-tree).");
-    if (conflictingFiles.length > 0) {
-      for (const f of conflictingFiles) console.log(f);
-      if (printDiffs) {
-        console.log("\nUnified diffs (ours -> theirs) for files that differ:");
-        for (const f of conflictingFiles) {
-          console.log("\n--- " + f + " ---");
-          const fileDetail = result.files[f];
-          if (fileDetail?.message) {
-            console.log(
-              `⚠️  ${
-                fileDetail.conflict_type.toUpperCase().replace(/_/g, "/")
-              } CONFLICT:`,
-            );
-            console.log(
-              fileDetail.message.split("\n").map((line) => `   ${line}`).join(
-                "\n",
-              ),
-            );
-            console.log();
-          }
-          if (fileDetail?.diff) console.log(fileDetail.diff);
-          else console.log("(no textual diff available or file is binary)");
-        }
-      }
+    printMatrixSummary(matrix);
+    for (const result of matrix.targets) {
+      if (!result.conflicts) continue;
+      console.log();
+      if (result.rebase) printRebase(result);
+      printConflicts(result, printDiffs);
     }
+    return code;
+  }
 
-    return 1;
+  // Detect or use provided other branch
+  let otherRef = otherArg;
+  if (!otherRef) {
+    otherRef = await checker.detectTarget(ours);
+    // Keep machine-readable output on stdout parseable
+    const log = format === "text" || format === "github" || outputPath
+      ? console.log
+      : console.error;
+    log(`Detected other branch/ref: ${otherRef}`);
   }
 
-  // Success: no conflicts
-  if (asJSON) {
-    console.log(JSON.stringify(result, null, 2));
-    return 0;
+  const [result] = (await checker.checkMatrix([otherRef], ours, emit)).targets;
+
+  if (format === "ndjson") return result.conflicts ? 1 : 0;
+  if (format === "github") await writeGithubOutput([result]);
+  else if (format !== "text") {
+    await writeReport(
+      await formatReport(format, [result], result, checker, maxDiffSize),
+      outputPath,
+    );
+    if (!outputPath) return result.conflicts ? 1 : 0;
   }
 
-  console.log("No conflicts expected.");
-  console.log(`  current branch: ${currentRef} (${oursCommit})`);
-  console.log(`  other branch  : ${otherRef} (${theirsCommit})`);
-  if (mergeBase) console.log(`  merge-base     : ${mergeBase}`);
-  else console.log("  merge-base     : (no common ancestor)");
+  if (result.rebase) printRebase(result);
 
+  if (result.conflicts) {
+    printConflicts(result, printDiffs);
+    return 1;
+  }
+
+  // Success: no conflicts
+  printClean(result);
   return 0;
 }
 
@@ -0,0 +1,766 @@
+/**
+ * In-memory {@link GitBackend} built from a declarative commit graph.
+ *
+ * Meant for tests and for exercising detection logic without repositories:
+ * commits are declared by name, with their parents and the files they
+ * change, and every operation is answered from memory.
+ *
+ * @example
+ * ```ts
+ * const backend = new MemoryBackend({
+ *   base: { files: { "a.txt": "one\ntwo\n" } },
+ *   feature: { parents: ["base"], files: { "a.txt": "one\nfeature\n" } },
+ *   main: { parents: ["base"], files: { "b.txt": "new\n", "a.txt": null } },
+ * });
+ * await backend.getMergeBases("feature", "main"); // ["base"]
+ * ```
+ *
+ * @module
+ */
+
+import type { GitBackend, MergeFileResult, TreeFile } from "./backend.ts";
+import { GitError } from "./lib.ts";
+
+/**
+ * A file with an explicit mode.
+ */
+export interface MemoryFile {
+  /** File content; for submodules (mode "160000"), the commit ID */
+  content: string;
+  /** Octal mode (default: "100644") */
+  mode?: "100644" | "100755" | "120000" | "160000";
+}
+
+/**
+ * A commit of a {@link MemoryBackend} graph.
+ */
+export interface MemoryCommit {
+  /** Names of the parent commits, declared before this one (default: none) */
+  parents?: string[];
+  /**
+   * Files changed relative to the first parent, by path: the new content, or
+   * null to delete the file
+   */
+  files?: Record<string, string | MemoryFile | null>;
+}
+
+/**
+ * Merges three versions of a text line by line, like `git merge-file`.
+ *
+ * Both sides are diffed against the base the way Git diffs them, in memory
+ * linear in the size of the texts. Changes of one side take that side's
+ * lines; changes of
+ * both sides that overlap or touch form one region, which conflicts unless
+ * both sides end up with the same lines. Texts containing NUL bytes are
+ * treated as binary and never merge cleanly.
+ *
+ * @param base - Common version
+ * @param ours - Our version
+ * @param theirs - Their version
+ * @returns The merge result with diff3-style conflict markers
+ *
+ * @example
+ * ```ts
+ * mergeText("a\nb\nc\n", "A\nb\nc\n", "a\nb\nC\n");
+ * // { clean: true, content: "A\nb\nC\n" }
+ * ```
+ */
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+): MergeFileResult {
+  if ([base, ours, theirs].some((text) => text.includes("\0"))) {
+    return { clean: false, content: ours };
+  }
+  const [b, o, t] = [base, ours, theirs].map(splitLines);
+  const sides = [o, t];
+  const hunks = [
+    ...diffLines(b, o).map((hunk) => ({ ...hunk, side: 0 })),
+    ...diffLines(b, t).map((hunk) => ({ ...hunk, side: 1 })),
+  ].sort((x, y) => x.start - y.start || x.side - y.side);
+
+  let clean = true;
+  let content = "";
+  // Lines of the base copied so far, and how far each side is shifted
+  // against the base after the hunks seen so far
+  let copied = 0;
+  const shift = [0, 0];
+  for (let h = 0; h < hunks.length;) {
+    // A region grows while the next hunk overlaps or touches it
+    const region = [hunks[h++]];
+    const start = region[0].start;
+    let end = region[0].end;
+    while (h < hunks.length && hunks[h].start <= end) {
+      end = Math.max(end, hunks[h].end);
+      region.push(hunks[h++]);
+    }
+    content += b.slice(copied, start).join("");
+    copied = end;
+
+    const [oursText, theirsText] = sides.map((lines, side) => {
+      const from = start + shift[side];
+      const last = region.findLast((hunk) => hunk.side === side);
+      if (last) shift[side] = last.sideEnd - last.end;
+      return lines.slice(from, end + shift[side]).join("");
+    });
+    const baseText = b.slice(start, end).join("");
+    if (oursText === baseText || oursText === theirsText) {
+      content += theirsText;
+    } else if (theirsText === baseText) {
+      content += oursText;
+    } else {
+      clean = false;
+      content += `<<<<<<< ours\n${oursText}||||||| base\n${baseText}` +
+        `=======\n${theirsText}>>>>>>> theirs\n`;
+    }
+  }
+  content += b.slice(copied).join("");
+  return { clean, content };
+}
+
+/**
+ * Formats the hunks of a unified diff between two texts, like `git diff`.
+ *
+ * The texts are diffed with the port of Git's diff behind {@link mergeText},
+ * and each hunk header carries the last line before the hunk that starts with
+ * a letter, `_` or `$`, as Git's default function names do. Git's indent
+ * heuristic is not applied, so a change among repeated lines may be placed
+ * where `git diff -c diff.indentHeuristic=false` places it. File headers are
+ * left to the caller.
+ *
+ * @param from - Old text
+ * @param to - New text
+ * @param context - Unchanged lines shown around each change (default: 3)
+ * @returns The hunks, or "" if the texts are equal
+ *
+ * @example
+ * ```ts
+ * unifiedDiff("a\nb\nc\n", "a\nB\nc\n", 0);
+ * // "@@ -2 +2 @@ a\n-b\n+B\n"
+ * ```
+ */
+export function unifiedDiff(from: string, to: string, context = 3): string {
+  const [a, b] = [from, to].map(splitLines);
+  const hunks = diffLines(a, b);
+  const emit = (prefix: string, lines: string[]) =>
+    lines.map((line) =>
+      prefix +
+      (line.endsWith("\n") ? line : `${line}\n\\ No newline at end of file\n`)
+    ).join("");
+  const range = (start: number, count: number) =>
+    `${count ? start + 1 : start}${count === 1 ? "" : `,${count}`}`;
+
+  let diff = "";
+  for (let h = 0; h < hunks.length;) {
+    // Changes at most twice the context apart share a hunk
+    const group = [hunks[h++]];
+    while (
+      h < hunks.length && hunks[h].start - group.at(-1)!.end <= 2 * context
+    ) {
+      group.push(hunks[h++]);
+    }
+    const [first, last] = [group[0], group.at(-1)!];
+    const start = Math.max(first.start - context, 0);
+    const sideStart = Math.max(first.sideStart - context, 0);
+    const trailing = Math.min(
+      context,
+      a.length - last.end,
+      b.length - last.sideEnd,
+    );
+
+    let heading = "";
+    for (let i = start - 1; i >= 0; i--) {
+      if (/^[A-Za-z_$]/.test(a[i])) {
+        heading = a[i].replace(/\n$/, "").slice(0, 80).trimEnd();
+        break;
+      }
+    }
+    diff += `@@ -${range(start, last.end + trailing - start)} +${
+      range(sideStart, last.sideEnd + trailing - sideStart)
+    } @@${heading && ` ${heading}`}\n`;
+
+    diff += emit(" ", a.slice(start, first.start));
+    group.forEach((hunk, i) => {
+      diff += emit("-", a.slice(hunk.start, hunk.end));
+      diff += emit("+", b.slice(hunk.sideStart, hunk.sideEnd));
+      const next = group[i + 1]?.start ?? hunk.end + trailing;
+      diff += emit(" ", a.slice(hunk.end, next));
+    });
+  }
+  return diff;
+}
+
+/** Splits a text into lines, keeping the line endings */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * A change between two versions: lines `start` to `end` of the first are
+ * replaced by lines `sideStart` to `sideEnd` of the second.
+ */
+interface Hunk {
+  start: number;
+  end: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+/** Runs shorter than this do not count as snakes in the cost heuristics */
+const SNAKE_LENGTH = 20;
+/** Edit cost above which the split may settle for a good snake */
+const HEURISTIC_COST = 256;
+/** Minimum edit cost at which the split settles for the furthest path */
+const MAX_COST = 256;
+/** Upper bound of the "seen too often" limit for lines to discard */
+const MAX_EQUAL_LIMIT = 1024;
+/** Lines scanned on each side of a line that is too common */
+const SCAN_WINDOW = 100;
+const LINE_MAX = 2 ** 31 - 1;
+
+/**
+ * Diffs two versions like `git diff` (Git's xdiff, Myers' algorithm): lines
+ * without a match in the other version are set aside first, the rest is
+ * split at the middle of the edit graph in memory linear in the size of the
+ * versions, and each change is then slid down past repeated lines.
+ *
+ * @returns The changes, in order
+ */
+function diffLines(a: string[], b: string[]): Hunk[] {
+  // Equal lines share one number, so lines compare as numbers
+  const classes = new Map<string, number>();
+  const classify = (lines: string[]) =>
+    Int32Array.from(lines, (line) => {
+      let id = classes.get(line);
+      if (id === undefined) classes.set(line, id = classes.size);
+      return id;
+    });
+  const [ids, sideIds] = [classify(a), classify(b)];
+  const [changed, sideChanged] = findChanges(ids, sideIds);
+  compactChanges(ids, changed, sideChanged);
+  compactChanges(sideIds, sideChanged, changed);
+
+  // Unchanged lines of both versions pair up in order
+  const hunks: Hunk[] = [];
+  let [i, j] = [0, 0];
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && !changed[i] && !sideChanged[j]) {
+      [i, j] = [i + 1, j + 1];
+      continue;
+    }
+    const [start, sideStart] = [i, j];
+    while (changed[i]) i++;
+    while (sideChanged[j]) j++;
+    hunks.push({ start, end: i, sideStart, sideEnd: j });
+  }
+  return hunks;
+}
+
+/** Integer square root approximation of xdiff */
+function roughSqrt(n: number): number {
+  let root = 1;
+  for (; n > 0; n >>= 2) root <<= 1;
+  return root;
+}
+
+/**
+ * Finds the changed lines of two versions, like `xdl_do_diff`.
+ *
+ * @param a - Line classes of the first version
+ * @param b - Line classes of the second version
+ * @returns Whether each line of either version is changed
+ */
+function findChanges(a: Int32Array, b: Int32Array): [Uint8Array, Uint8Array] {
+  const changed = [new Uint8Array(a.length), new Uint8Array(b.length)];
+
+  // Lines both versions start or end with are unchanged
+  const limit = Math.min(a.length, b.length);
+  let start = 0;
+  while (start < limit && a[start] === b[start]) start++;
+  let trimmed = 0;
+  while (
+    trimmed < limit - start &&
+    a[a.length - 1 - trimmed] === b[b.length - 1 - trimmed]
+  ) trimmed++;
+
+  // Lines without a match in the other version are changed; lines matching
+  // many are set aside too when they sit among such lines
+  const count = (lines: Int32Array) => {
+    const counts = new Map<number, number>();
+    for (const line of lines) counts.set(line, (counts.get(line) ?? 0) + 1);
+    return counts;
+  };
+  const [countsA, countsB] = [count(a), count(b)];
+  const keep = (
+    lines: Int32Array,
+    others: Map<number, number>,
+    side: 0 | 1,
+  ) => {
+    const end = lines.length - trimmed;
+    const limit = Math.min(roughSqrt(lines.length), MAX_EQUAL_LIMIT);
+    const matches = new Uint8Array(lines.length);
+    for (let i = start; i < end; i++) {
+      const n = others.get(lines[i]) ?? 0;
+      matches[i] = n === 0 ? 0 : n >= limit ? 2 : 1;
+    }
+    const kept: number[] = [];
+    for (let i = start; i < end; i++) {
+      if (
+        matches[i] === 1 ||
+        (matches[i] === 2 && !amongUnmatched(matches, i, start, end - 1))
+      ) kept.push(i);
+      else changed[side][i] = 1;
+    }
+    return kept;
+  };
+  const keptA = keep(a, countsB, 0);
+  const keptB = keep(b, countsA, 1);
+  const [x, y] = [
+    Int32Array.from(keptA, (i) => a[i]),
+    Int32Array.from(keptB, (i) => b[i]),
+  ];
+
+  // Furthest reaching paths per diagonal, forwards and backwards; diagonal
+  // k is stored at k + offset
+  const diagonals = x.length + y.length + 3;
+  const offset = y.length + 1;
+  const forward = new Int32Array(diagonals);
+  const backward = new Int32Array(diagonals);
+  const maxCost = Math.max(roughSqrt(diagonals), MAX_COST);
+
+  const ranges: [number, number, number, number, boolean][] = [
+    [0, x.length, 0, y.length, false],
+  ];
+  for (let range; (range = ranges.pop());) {
+    let [off1, lim1, off2, lim2] = range;
+    while (off1 < lim1 && off2 < lim2 && x[off1] === y[off2]) {
+      [off1, off2] = [off1 + 1, off2 + 1];
+    }
+    while (off1 < lim1 && off2 < lim2 && x[lim1 - 1] === y[lim2 - 1]) {
+      [lim1, lim2] = [lim1 - 1, lim2 - 1];
+    }
+    if (off1 === lim1) {
+      for (let i = off2; i < lim2; i++) changed[1][keptB[i]] = 1;
+    } else if (off2 === lim2) {
+      for (let i = off1; i < lim1; i++) changed[0][keptA[i]] = 1;
+    } else {
+      const split = splitRange(
+        x,
+        y,
+        [off1, lim1, off2, lim2],
+        forward,
+        backward,
+        offset,
+        range[4],
+        maxCost,
+      );
+      ranges.push(
+        [off1, split.i1, off2, split.i2, split.minimalBefore],
+        [split.i1, lim1, split.i2, lim2, split.minimalAfter],
+      );
+    }
+  }
+  return [changed[0], changed[1]];
+}
+
+/**
+ * Whether a line that matches many lines of the other version sits in a
+ * run of lines that mostly match none, like `xdl_clean_mmatch`.
+ *
+ * @param matches - Per line: 0 without a match, 1 with some, 2 with many
+ */
+function amongUnmatched(
+  matches: Uint8Array,
+  i: number,
+  start: number,
+  end: number,
+): boolean {
+  start = Math.max(start, i - SCAN_WINDOW);
+  end = Math.min(end, i + SCAN_WINDOW);
+  const scan = (step: 1 | -1) => {
+    let [unmatched, many] = [0, 1];
+    for (let j = i + step; j >= start && j <= end; j += step) {
+      if (matches[j] === 0) unmatched++;
+      else if (matches[j] === 2) many++;
+      else break;
+    }
+    return [unmatched, many];
+  };
+  const [unmatchedBefore, manyBefore] = scan(-1);
+  if (unmatchedBefore === 0) return false;
+  const [unmatchedAfter, manyAfter] = scan(1);
+  if (unmatchedAfter === 0) return false;
+  const many = manyBefore + manyAfter;
+  return many * 4 < many + unmatchedBefore + unmatchedAfter;
+}
+
+/**
+ * Splits a range of the edit graph where the forward and backward furthest
+ * reaching paths meet, like `xdl_split`. Past a high edit cost, it settles
+ * for a point on a long snake or on the furthest path, so the result is not
+ * always a shortest edit script.
+ *
+ * @returns The split point, and whether each half must be diffed minimally
+ */
+function splitRange(
+  a: Int32Array,
+  b: Int32Array,
+  [off1, lim1, off2, lim2]: number[],
+  forward: Int32Array,
+  backward: Int32Array,
+  offset: number,
+  minimal: boolean,
+  maxCost: number,
+): { i1: number; i2: number; minimalBefore: boolean; minimalAfter: boolean } {
+  const [dmin, dmax] = [off1 - lim2, lim1 - off2];
+  const [fmid, bmid] = [off1 - off2, lim1 - lim2];
+  const odd = ((fmid - bmid) & 1) !== 0;
+  let [fmin, fmax, bmin, bmax] = [fmid, fmid, bmid, bmid];
+  forward[offset + fmid] = off1;
+  backward[offset + bmid] = lim1;
+  const met = (i1: number, i2: number) => ({
+    i1,
+    i2,
+    minimalBefore: true,
+    minimalAfter: true,
+  });
+
+  for (let cost = 1;; cost++) {
+    let snake = false;
+
+    // Extend the diagonals by one, or shrink them at the range's edges
+    if (fmin > dmin) forward[offset + --fmin - 1] = -1;
+    else fmin++;
+    if (fmax < dmax) forward[offset + ++fmax + 1] = -1;
+    else fmax--;
+    for (let d = fmax; d >= fmin; d -= 2) {
+      let i1 = forward[offset + d - 1] >= forward[offset + d + 1]
+        ? forward[offset + d - 1] + 1
+        : forward[offset + d + 1];
+      const from = i1;
+      let i2 = i1 - d;
+      while (i1 < lim1 && i2 < lim2 && a[i1] === b[i2]) {
+        [i1, i2] = [i1 + 1, i2 + 1];
+      }
+      if (i1 - from > SNAKE_LENGTH) snake = true;
+      forward[offset + d] = i1;
+      if (odd && bmin <= d && d <= bmax && backward[offset + d] <= i1) {
+        return met(i1, i2);
+      }
+    }
+
+    if (bmin > dmin) backward[offset + --bmin - 1] = LINE_MAX;
+    else bmin++;
+    if (bmax < dmax) backward[offset + ++bmax + 1] = LINE_MAX;
+    else bmax--;
+    for (let d = bmax; d >= bmin; d -= 2) {
+      let i1 = backward[offset + d - 1] < backward[offset + d + 1]
+        ? backward[offset + d - 1]
+        : backward[offset + d + 1] - 1;
+      const from = i1;
+      let i2 = i1 - d;
+      while (i1 > off1 && i2 > off2 && a[i1 - 1] === b[i2 - 1]) {
+        [i1, i2] = [i1 - 1, i2 - 1];
+      }
+      if (from - i1 > SNAKE_LENGTH) snake = true;
+      backward[offset + d] = i1;
+      if (!odd && fmin <= d && d <= fmax && i1 <= forward[offset + d]) {
+        return met(i1, i2);
+      }
+    }
+
+    if (minimal) continue;
+
+    // With a high cost, settle for a path that got far along a long snake
+    if (snake && cost > HEURISTIC_COST) {
+      let best = 0;
+      let split = { i1: 0, i2: 0 };
+      for (let d = fmax; d >= fmin; d -= 2) {
+        const i1 = forward[offset + d];
+        const i2 = i1 - d;
+        const v = (i1 - off1) + (i2 - off2) - Math.abs(d - fmid);
+        if (
+          v > 4 * cost && v > best &&
+          off1 + SNAKE_LENGTH <= i1 && i1 < lim1 &&
+          off2 + SNAKE_LENGTH <= i2 && i2 < lim2
+        ) {
+          for (let k = 1; a[i1 - k] === b[i2 - k]; k++) {
+            if (k === SNAKE_LENGTH) {
+              [best, split] = [v, { i1, i2 }];
+              break;
+            }
+          }
+        }
+      }
+      if (best > 0) {
+        return { ...split, minimalBefore: true, minimalAfter: false };
+      }
+
+      for (let d = bmax; d >= bmin; d -= 2) {
+        const i1 = backward[offset + d];
+        const i2 = i1 - d;
+        const v = (lim1 - i1) + (lim2 - i2) - Math.abs(d - bmid);
+        if (
+          v > 4 * cost && v > best &&
+          off1 < i1 && i1 <= lim1 - SNAKE_LENGTH &&
+          off2 < i2 && i2 <= lim2 - SNAKE_LENGTH
+        ) {
+          for (let k = 0; a[i1 + k] === b[i2 + k]; k++) {
+            if (k === SNAKE_LENGTH - 1) {
+              [best, split] = [v, { i1, i2 }];
+              break;
+            }
+          }
+        }
+      }
+      if (best > 0) {
+        return { ...split, minimalBefore: false, minimalAfter: true };
+      }
+    }
+
+    // Enough: split at the furthest reaching path of either direction
+    if (cost >= maxCost) {
+      let [fbest, fbest1] = [-1, -1];
+      for (let d = fmax; d >= fmin; d -= 2) {
+        let i1 = Math.min(forward[offset + d], lim1);
+        let i2 = i1 - d;
+        if (lim2 < i2) [i1, i2] = [lim2 + d, lim2];
+        if (fbest < i1 + i2) [fbest, fbest1] = [i1 + i2, i1];
+      }
+      let [bbest, bbest1] = [LINE_MAX, LINE_MAX];
+      for (let d = bmax; d >= bmin; d -= 2) {
+        let i1 = Math.max(off1, backward[offset + d]);
+        let i2 = i1 - d;
+        if (i2 < off2) [i1, i2] = [off2 + d, off2];
+        if (i1 + i2 < bbest) [bbest, bbest1] = [i1 + i2, i1];
+      }
+      return (lim1 + lim2) - bbest < fbest - (off1 + off2)
+        ? {
+          i1: fbest1,
+          i2: fbest - fbest1,
+          minimalBefore: true,
+          minimalAfter: false,
+        }
+        : {
+          i1: bbest1,
+          i2: bbest - bbest1,
+          minimalBefore: false,
+          minimalAfter: true,
+        };
+    }
+  }
+}
+
+/**
+ * Slides the groups of changed lines of one version like Git's
+ * `xdl_change_compact`: up and down past repeated lines, merging groups that
+ * meet, then to the lowest position, or the lowest one where it lines up
+ * with a change of the other version.
+ *
+ * Groups are the runs of changed lines between two unchanged lines, which
+ * both versions have the same number of; empty ones included.
+ *
+ * @param lines - Line classes of the version
+ * @param changed - Whether each line of the version is changed, updated
+ * @param other - Whether each line of the other version is changed
+ */
+function compactChanges(
+  lines: Int32Array,
+  changed: Uint8Array,
+  other: Uint8Array,
+): void {
+  // Indexes past either end read as undefined, that is, unchanged
+  const group = (flags: Uint8Array, start: number) => {
+    let end = start;
+    while (flags[end]) end++;
+    return { start, end };
+  };
+  const next = (flags: Uint8Array, g: { start: number; end: number }) => {
+    if (g.end === flags.length) return false;
+    Object.assign(g, group(flags, g.end + 1));
+    return true;
+  };
+  const previous = (flags: Uint8Array, g: { start: number; end: number }) => {
+    if (g.start === 0) return false;
+    g.end = g.start - 1;
+    for (g.start = g.end; flags[g.start - 1]; g.start--);
+    return true;
+  };
+  const slideDown = (g: { start: number; end: number }) => {
+    if (g.end >= lines.length || lines[g.start] !== lines[g.end]) return false;
+    changed[g.start++] = 0;
+    changed[g.end++] = 1;
+    while (changed[g.end]) g.end++;
+    return true;
+  };
+  const slideUp = (g: { start: number; end: number }) => {
+    if (g.start === 0 || lines[g.start - 1] !== lines[g.end - 1]) return false;
+    changed[--g.start] = 1;
+    changed[--g.end] = 0;
+    while (changed[g.start - 1]) g.start--;
+    return true;
+  };
+
+  const g = group(changed, 0);
+  const go = group(other, 0);
+  do {
+    if (g.end === g.start) continue;
+    let size, earliestEnd, matchingEnd;
+    do {
+      size = g.end - g.start;
+      matchingEnd = -1;
+      while (slideUp(g)) previous(other, go);
+      earliestEnd = g.end;
+      if (go.end > go.start) matchingEnd = g.end;
+      while (slideDown(g)) {
+        next(other, go);
+        if (go.end > go.start) matchingEnd = g.end;
+      }
+    } while (size !== g.end - g.start);
+
+    // Line up with the last change of the other version it passed
+    if (g.end !== earliestEnd && matchingEnd !== -1) {
+      while (go.end === go.start) {
+        slideUp(g);
+        previous(other, go);
+      }
+    }
+  } while (next(changed, g) && next(other, go));
+}
+
+/**
+ * {@link GitBackend} serving a commit graph declared in code.
+ *
+ * Commit IDs are the commit names; refs may name commits too. Blob IDs are
+ * synthetic but stable: equal contents share an ID.
+ */
+export class MemoryBackend implements GitBackend {
+  private commits = new Map<
+    string,
+    { parents: string[]; tree: Map<string, TreeFile> }
+  >();
+  private blobs = new Map<string, string>();
+  private blobIds = new Map<string, string>();
+
+  /**
+   * @param graph - Commits by name, parents before children
+   * @param refs - Ref names pointing to commits, e.g. `{ main: "c3" }`
+   * @throws {GitError} If a commit names a parent that is not declared
+   *   before it
+   */
+  constructor(
+    graph: Record<string, MemoryCommit>,
+    private refs: Record<string, string> = {},
+  ) {
+    for (const [name, commit] of Object.entries(graph)) {
+      const parents = commit.parents ?? [];
+      const unknown = parents.find((parent) => !this.commits.has(parent));
+      if (unknown !== undefined) {
+        throw new GitError(
+          `Commit '${name}' has an undeclared parent '${unknown}'`,
+          2,
+        );
+      }
+      const tree = new Map(
+        parents.length > 0 ? this.commits.get(parents[0])!.tree : [],
+      );
+      for (const [path, file] of Object.entries(commit.files ?? {})) {
+        if (file === null) {
+          tree.delete(path);
+          continue;
+        }
+        const { content, mode = "100644" } = typeof file === "string"
+          ? { content: file }
+          : file;
+        const oid = mode === "160000" ? content : this.storeBlob(content);
+        tree.set(path, { path, mode, oid });
+      }
+      this.commits.set(name, { parents, tree });
+    }
+  }
+
+  resolveCommit(rev: string): Promise<string | null> {
+    const name = this.refs[rev] ?? rev;
+    return Promise.resolve(this.commits.has(name) ? name : null);
+  }
+
+  /** Refs point to commits directly, so HEAD is never on a branch */
+  getCurrentBranch(): Promise<string | null> {
+    return Promise.resolve(null);
+  }
+
+  getMergeBases(a: string, b: string): Promise<string[]> {
+    const reachable = this.ancestors(b);
+    const common = [...this.ancestors(a)].filter((commit) =>
+      reachable.has(commit)
+    );
+    // Best common ancestors: those that are not an ancestor of another one
+    const best = common.filter((commit) =>
+      !common.some((other) =>
+        other !== commit && this.ancestors(other).has(commit)
+      )
+    );
+    return Promise.resolve(best);
+  }
+
+  listTree(commit: string): Promise<TreeFile[]> {
+    const tree = this.commits.get(commit)?.tree;
+    if (!tree) {
+      return Promise.reject(
+        new GitError(`Cannot list the tree of '${commit}'`, 2),
+      );
+    }
+    return Promise.resolve(
+      [...tree.values()].sort((x, y) => x.path < y.path ? -1 : 1),
+    );
+  }
+
+  readBlob(oid: string): Promise<Uint8Array | null> {
+    const content = this.blobs.get(oid);
+    return Promise.resolve(
+      content === undefined ? null : new TextEncoder().encode(content),
+    );
+  }
+
+  mergeFile(
+    base: string | null,
+    ours: string,
+    theirs: string,
+  ): Promise<MergeFileResult> {
+    const contents = [base, ours, theirs].map((oid) =>
+      oid === null ? "" : this.blobs.get(oid)
+    );
+    const missing = contents.indexOf(undefined);
+    if (missing !== -1) {
+      const oid = [base, ours, theirs][missing];
+      return Promise.reject(new GitError(`Cannot read blob '${oid}'`, 2));
+    }
+    const [b, o, t] = contents as string[];
+    return Promise.resolve(mergeText(b, o, t));
+  }
+
+  /** Stores a blob and returns its ID */
+  private storeBlob(content: string): string {
+    let oid = this.blobIds.get(content);
+    if (!oid) {
+      oid = (this.blobIds.size + 1).toString(16).padStart(40, "0");
+      this.blobIds.set(content, oid);
+      this.blobs.set(oid, content);
+    }
+    return oid;
+  }
+
+  /** The commit and all commits reachable from it */
+  private ancestors(commit: string): Set<string> {
+    const seen = new Set<string>();
+    const pending = [commit];
+    while (pending.length > 0) {
+      const next = pending.pop()!;
+      if (seen.has(next) || !this.commits.has(next)) continue;
+      seen.add(next);
+      pending.push(...this.commits.get(next)!.parents);
+    }
+    return seen;
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Long-lived Git object reader.
+ *
+ * Spawning a Git process per query dominates the run time of large checks.
+ * An {@link ObjectReader} keeps one `git cat-file --batch-check` and one
+ * `git cat-file --batch` process per repository and talks to them over
+ * pipes, so resolving revisions, listing trees and reading blobs cost a
+ * round trip instead of a process spawn.
+ *
+ * @example
+ * ```ts
+ * await using reader = new ObjectReader({ cwd: "/path/to/repo" });
+ * const head = await reader.info("HEAD^{commit}");
+ * const readme = await reader.read("HEAD:README.md");
+ * ```
+ *
+ * @module
+ */
+
+import { DEFAULT_CONTEXT, GitError, type RepoContext } from "./lib.ts";
+
+/**
+ * Type, ID and size of a Git object.
+ */
+export interface ObjectInfo {
+  /** Object ID (SHA-1 or SHA-256 hex) */
+  oid: string;
+  /** Object type */
+  type: "blob" | "tree" | "commit" | "tag";
+  /** Content size in bytes */
+  size: number;
+}
+
+/**
+ * A Git object with its content.
+ */
+export interface GitObject extends ObjectInfo {
+  /** Raw object content */
+  content: Uint8Array;
+}
+
+/**
+ * Entry of a tree object, as listed by `git ls-tree`.
+ */
+export interface TreeEntry {
+  /** Octal mode, zero-padded to six digits (e.g. "100644", "040000") */
+  mode: string;
+  /** Object type the mode denotes */
+  type: "blob" | "tree" | "commit";
+  /** Object ID (SHA-1 or SHA-256 hex) */
+  oid: string;
+  /** Entry name (a single path component) */
+  name: string;
+}
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+/**
+ * Parses the header line `cat-file --batch` prints for each request.
+ *
+ * @param line - Header line, without the newline
+ * @returns The object info, or null for missing or ambiguous objects
+ * @throws {GitError} If the line is not a valid header
+ */
+export function parseBatchHeader(line: string): ObjectInfo | null {
+  if (/ (missing|ambiguous)$/.test(line)) return null;
+  const match = line.match(/^([0-9a-f]+) (blob|tree|commit|tag) (\d+)$/);
+  if (!match) {
+    throw new GitError(`Unexpected git cat-file output: ${line}`);
+  }
+  return {
+    oid: match[1],
+    type: match[2] as ObjectInfo["type"],
+    size: Number(match[3]),
+  };
+}
+
+/**
+ * Parses the binary content of a tree object.
+ *
+ * Each entry is `<mode> <name>\0` followed by the raw object ID, whose
+ * length depends on the object format of the repository.
+ *
+ * @param content - Raw tree object content
+ * @param oidLength - Length of a raw object ID in bytes (20 for SHA-1, 32 for
+ *   SHA-256)
+ * @returns The tree entries, in tree order
+ */
+export function parseTree(content: Uint8Array, oidLength: number): TreeEntry[] {
+  const entries: TreeEntry[] = [];
+  let i = 0;
+  while (i < content.length) {
+    const space = content.indexOf(0x20, i);
+    const nul = content.indexOf(0, space);
+    if (space === -1 || nul === -1) break;
+    const mode = decoder.decode(content.subarray(i, space)).padStart(6, "0");
+    const oid = Array.from(
+      content.subarray(nul + 1, nul + 1 + oidLength),
+      (byte) => byte.toString(16).padStart(2, "0"),
+    ).join("");
+    entries.push({
+      mode,
+      type: mode === "040000" ? "tree" : mode === "160000" ? "commit" : "blob",
+      oid,
+      name: decoder.decode(content.subarray(space + 1, nul)),
+    });
+    i = nul + 1 + oidLength;
+  }
+  return entries;
+}
+
+/**
+ * One `git cat-file` process in batch mode, answering requests in order.
+ */
+class BatchProcess {
+  private child: Deno.ChildProcess;
+  private stdin: WritableStreamDefaultWriter<Uint8Array>;
+  private stdout: ReadableStreamDefaultReader<Uint8Array>;
+  private buffer: Uint8Array = new Uint8Array(0);
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param mode - `--batch` (header and content) or `--batch-check` (header)
+   * @param ctx - Repository to read from
+   */
+  constructor(
+    private mode: "--batch" | "--batch-check",
+    private ctx: RepoContext,
+  ) {
+    this.child = new Deno.Command("git", {
+      args: ["cat-file", mode],
+      cwd: ctx.cwd,
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "null",
+      signal: ctx.signal,
+    }).spawn();
+    this.stdin = this.child.stdin.getWriter();
+    this.stdout = this.child.stdout.getReader();
+  }
+
+  /**
+   * Looks up an object; requests are queued so that concurrent callers
+   * never interleave on the pipes.
+   *
+   * @param rev - Revision naming the object (e.g. `HEAD:src/lib.ts`)
+   * @returns Promise resolving to the object (without content for
+   *   `--batch-check`), or null if it does not exist
+   */
+  request(rev: string): Promise<GitObject | ObjectInfo | null> {
+    const result = this.queue.then(async () => {
+      try {
+        await this.stdin.write(encoder.encode(`${rev}\n`));
+        const info = parseBatchHeader(await this.readLine());
+        if (!info || this.mode === "--batch-check") return info;
+        const content = await this.readBytes(info.size);
+        await this.readBytes(1); // Trailing newline
+        return { ...info, content };
+      } catch (e) {
+        this.ctx.signal?.throwIfAborted();
+        throw e;
+      }
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Ends the process and releases its pipes.
+   */
+  async close(): Promise<void> {
+    await this.queue;
+    await this.stdin.close().catch(() => {});
+    await this.child.status;
+    await this.stdout.cancel();
+  }
+
+  private async pull(): Promise<void> {
+    const { value, done } = await this.stdout.read();
+    if (done) throw new GitError("git cat-file exited unexpectedly");
+    this.buffer = this.buffer.length === 0 ? value : concat(this.buffer, value);
+  }
+
+  private async readLine(): Promise<string> {
+    let newline;
+    while ((newline = this.buffer.indexOf(0x0a)) === -1) await this.pull();
+    const line = decoder.decode(this.buffer.subarray(0, newline));
+    this.buffer = this.buffer.subarray(newline + 1);
+    return line;
+  }
+
+  private async readBytes(size: number): Promise<Uint8Array> {
+    const bytes = new Uint8Array(size);
+    let filled = 0;
+    while (filled < size) {
+      if (this.buffer.length === 0) await this.pull();
+      const take = Math.min(size - filled, this.buffer.length);
+      bytes.set(this.buffer.subarray(0, take), filled);
+      this.buffer = this.buffer.subarray(take);
+      filled += take;
+    }
+    return bytes;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Reads Git objects through long-lived `git cat-file` processes.
+ *
+ * The processes are started on first use and stay alive until
+ * {@link ObjectReader.close} is called (or the reader is disposed with
+ * `await using`). When the context's abort signal fires, the processes are
+ * killed and pending calls reject with the signal's reason.
+ *
+ * Revisions are sent one per line, so they cannot contain newlines; callers
+ * fall back to spawning Git for such paths.
+ */
+export class ObjectReader {
+  private check: BatchProcess | null = null;
+  private batch: BatchProcess | null = null;
+
+  /**
+   * @param ctx - Repository to read from (default: the current working
+   *   directory)
+   */
+  constructor(readonly ctx: RepoContext = DEFAULT_CONTEXT) {}
+
+  /**
+   * Resolves a revision to an object ID and type, like
+   * `git rev-parse --verify` (`git cat-file --batch-check`).
+   *
+   * @param rev - Revision, e.g. `main^{commit}` or `HEAD:src`
+   * @returns Promise resolving to the object info, or null if the revision
+   *   does not name an object
+   */
+  async info(rev: string): Promise<ObjectInfo | null> {
+    this.ctx.signal?.throwIfAborted();
+    this.check ??= new BatchProcess("--batch-check", this.ctx);
+    return await this.check.request(rev);
+  }
+
+  /**
+   * Reads an object with its content (`git cat-file --batch`).
+   *
+   * @param rev - Revision, e.g. a blob ID or `HEAD:README.md`
+   * @returns Promise resolving to the object, or null if the revision does
+   *   not name an object
+   */
+  async read(rev: string): Promise<GitObject | null> {
+    this.ctx.signal?.throwIfAborted();
+    this.batch ??= new BatchProcess("--batch", this.ctx);
+    return await this.batch.request(rev) as GitObject | null;
+  }
+
+  /**
+   * Lists the entries of a tree, like `git ls-tree`.
+   *
+   * @param rev - Revision naming a tree, e.g. `HEAD^{tree}` or `HEAD:src`
+   * @returns Promise resolving to the entries, or null if the revision does
+   *   not name a tree
+   */
+  async readTree(rev: string): Promise<TreeEntry[] | null> {
+    const object = await this.read(rev);
+    if (!object || object.type !== "tree") return null;
+    return parseTree(object.content, object.oid.length / 2);
+  }
+
+  /**
+   * Ends the `git cat-file` processes. The reader restarts them if it is
+   * used again.
+   */
+  async close(): Promise<void> {
+    const processes = [this.check, this.batch];
+    this.check = this.batch = null;
+    for (const process of processes) await process?.close();
+  }
+
+  /** Closes the reader at the end of an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * Tests for the Git backends (src/backend.ts, src/memory_backend.ts)
+ * Most tests run a ConflictChecker against the in-memory backend and spawn no
+ * processes; `mergeText` and `unifiedDiff` are compared with `git merge-file`
+ * and `git diff`, and the last one
+ * checks that the CLI backend agrees with the in-memory one on a real
+ * repository
+ */
+
+import { expect } from "@std/expect";
+import { join } from "@std/path";
+import {
+  CliBackend,
+  type GitBackend,
+  MemoryBackend,
+  type MemoryCommit,
+  mergeText,
+  unifiedDiff,
+} from "../src/backend.ts";
+import {
+  checkConflicts,
+  ConflictChecker,
+  type ConflictCheckerOptions,
+  type ConflictCheckResult,
+} from "../src/checker.ts";
+import { GitError } from "../src/lib.ts";
+
+/** Base commit with three files, and `ours`/`theirs` changing them */
+function branches(
+  ours: MemoryCommit["files"],
+  theirs: MemoryCommit["files"],
+): MemoryBackend {
+  return new MemoryBackend({
+    base: {
+      files: {
+        "a.txt": "one\ntwo\nthree\nfour\n",
+        "b.txt": "b\n",
+        "dir/c.txt": "c\n",
+      },
+    },
+    ours: { parents: ["base"], files: ours },
+    theirs: { parents: ["base"], files: theirs },
+  });
+}
+
+/** Checks merging `theirs` into `ours` through a backend */
+async function check(
+  backend: GitBackend,
+  ours = "ours",
+  theirs = "theirs",
+  options: ConflictCheckerOptions = {},
+): Promise<ConflictCheckResult> {
+  await using checker = new ConflictChecker({ ...options, backend });
+  return await checker.check(theirs, await checker.resolveOurs(ours));
+}
+
+async function conflicts(backend: GitBackend): Promise<string[]> {
+  return (await check(backend)).conflicted_files;
+}
+
+Deno.test("mergeText - clean merges and conflicts", () => {
+  const base = "one\ntwo\nthree\nfour\n";
+  expect(mergeText(base, "ONE\ntwo\nthree\nfour\n", "one\ntwo\nthree\nFOUR\n"))
+    .toEqual({ clean: true, content: "ONE\ntwo\nthree\nFOUR\n" });
+  expect(mergeText(base, base, "one\nthree\n")).toEqual({
+    clean: true,
+    content: "one\nthree\n",
+  });
+  expect(mergeText(base, "zero\n" + base, base + "five\n").content).toBe(
+    "zero\none\ntwo\nthree\nfour\nfive\n",
+  );
+
+  // Same change on both sides, changes on adjacent lines
+  expect(mergeText(base, "one\n2\nthree\nfour\n", "one\n2\nthree\nfour\n"))
+    .toEqual({ clean: true, content: "one\n2\nthree\nfour\n" });
+  const adjacent = mergeText(base, "ONE\ntwo\n", "one\nTWO\n");
+  expect(adjacent.clean).toBe(false);
+
+  const conflict = mergeText(base, "one\nours\nthree\nfour\n", "one\ntheirs\n");
+  expect(conflict.clean).toBe(false);
+  expect(conflict.content).toBe(
+    "one\n<<<<<<< ours\nours\nthree\nfour\n||||||| base\ntwo\nthree\nfour\n" +
+      "=======\ntheirs\n>>>>>>> theirs\n",
+  );
+
+  expect(mergeText("", "a\n", "a\n").clean).toBe(true);
+  expect(mergeText("", "a\n", "b\n").clean).toBe(false);
+  expect(mergeText("a\0", "b\0", "a\0").clean).toBe(false);
+});
+
+Deno.test("mergeText - large files", () => {
+  // A table of all line pairs would need 400M entries here
+  const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}\n`);
+  const change = (i: number, line: string) => lines.with(i, line).join("");
+  expect(mergeText(lines.join(""), change(100, "ours\n"), change(19000, "x\n")))
+    .toEqual({
+      clean: true,
+      content: lines.with(100, "ours\n").with(19000, "x\n").join(""),
+    });
+  expect(
+    mergeText(lines.join(""), change(100, "ours\n"), change(100, "x\n")).clean,
+  ).toBe(false);
+});
+
+Deno.test("mergeText - agrees with git merge-file", async () => {
+  // [base, ours, theirs], one line per character; the choice among equally
+  // short diffs decides whether changes touch
+  const cases = [
+    ["abeeeeca", "abeeeeYa", "Zbeeeca"],
+    ["acbccace", "acbcace", "cbbcace"],
+    ["ceeeee", "ceaYeee", "eceeeeZ"],
+    ["ccce", "cacece", "ccce"],
+    ["ebababbe", "ebbabaYbe", "babbbe"],
+    ["ecceceecc", "eceeceYcec", "ecceccc"],
+    ["abcdef", "aXcdef", "abcdeY"],
+    ["abc", "abXc", "abYc"],
+    ["aaaa", "aa", "aaa"],
+    ["", "ab", "ab"],
+  ];
+  const dir = await Deno.makeTempDir({ prefix: "git_merge_file_" });
+  try {
+    for (const versions of cases) {
+      const [base, ours, theirs] = versions.map((text) =>
+        [...text].map((line) => `${line}\n`).join("")
+      );
+      const paths = ["ours", "base", "theirs"].map((name) => join(dir, name));
+      for (const [i, text] of [ours, base, theirs].entries()) {
+        await Deno.writeTextFile(paths[i], text);
+      }
+      const git = await new Deno.Command("git", {
+        args: ["merge-file", "-p", ...paths],
+        stdout: "piped",
+        stderr: "null",
+      }).output();
+      const merged = mergeText(base, ours, theirs);
+      expect([versions, merged.clean]).toEqual([versions, git.code === 0]);
+      if (merged.clean) {
+        expect(merged.content).toBe(new TextDecoder().decode(git.stdout));
+      }
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("unifiedDiff - agrees with git diff", async () => {
+  // [from, to], one line per character; "F" lines name functions
+  const cases = [
+    ["abcdef", "aXcdef"],
+    ["FabcdefghiFjklmnop", "FabXdefghiFjklmnXp"],
+    ["abcdefghijk", "aXcdefghijY"],
+    ["abc", ""],
+    ["", "ab"],
+    ["acbccace", "cbbcace"],
+  ];
+  const dir = await Deno.makeTempDir({ prefix: "git_diff_" });
+  try {
+    for (const pair of cases) {
+      const [from, to] = pair.map((text) =>
+        [...text].map((line) => `${line}\n`).join("")
+      );
+      // The last line of the new version has no newline
+      const texts = [from, to.replace(/\n$/, "")];
+      const paths = ["from", "to"].map((name) => join(dir, name));
+      for (const [i, text] of texts.entries()) {
+        await Deno.writeTextFile(paths[i], text);
+      }
+      for (const context of [0, 3]) {
+        const git = await new Deno.Command("git", {
+          args: [
+            "-c",
+            "diff.indentHeuristic=false",
+            "diff",
+            "--no-index",
+            "--no-color",
+            `-U${context}`,
+            ...paths,
+          ],
+          stdout: "piped",
+          stderr: "null",
+        }).output();
+        // Everything before the first hunk is the file header
+        const hunks = new TextDecoder().decode(git.stdout).replace(
+          /^[^]*?\n(?=@@)|^diff[^]*/,
+          "",
+        );
+        expect([pair, context, unifiedDiff(texts[0], texts[1], context)])
+          .toEqual([pair, context, hunks]);
+      }
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("MemoryBackend - refs, trees and blobs", async () => {
+  const backend = new MemoryBackend({
+    root: {
+      files: { "a.txt": "a\n", "run.sh": { content: "#!", mode: "100755" } },
+    },
+    next: { parents: ["root"], files: { "a.txt": null, "b/c.txt": "a\n" } },
+  }, { main: "next" });
+
+  expect(await backend.resolveCommit("main")).toBe("next");
+  expect(await backend.resolveCommit("root")).toBe("root");
+  expect(await backend.resolveCommit("missing")).toBeNull();
+
+  const [root, next] = [
+    await backend.listTree("root"),
+    await backend.listTree("next"),
+  ];
+  expect(root.map((f) => [f.path, f.mode])).toEqual([
+    ["a.txt", "100644"],
+    ["run.sh", "100755"],
+  ]);
+  expect(next.map((f) => f.path)).toEqual(["b/c.txt", "run.sh"]);
+  // Equal contents share a blob ID
+  expect(next[0].oid).toBe(root[0].oid);
+  expect(await backend.readBlob(next[0].oid)).toEqual(
+    new TextEncoder().encode("a\n"),
+  );
+  expect(await backend.readBlob("missing")).toBeNull();
+  await expect(backend.listTree("missing")).rejects.toThrow(GitError);
+
+  expect(() => new MemoryBackend({ child: { parents: ["later"] } }))
+    .toThrow("undeclared parent 'later'");
+});
+
+Deno.test("MemoryBackend - merge bases", async () => {
+  const backend = new MemoryBackend({
+    root: {},
+    a1: { parents: ["root"] },
+    b1: { parents: ["root"] },
+    // Criss-cross: each side merges the other's first commit
+    a2: { parents: ["a1", "b1"] },
+    b2: { parents: ["b1", "a1"] },
+    other: {},
+  });
+  expect(await backend.getMergeBases("a1", "b1")).toEqual(["root"]);
+  expect(await backend.getMergeBases("a2", "a1")).toEqual(["a1"]);
+  expect((await backend.getMergeBases("a2", "b2")).sort()).toEqual([
+    "a1",
+    "b1",
+  ]);
+  expect(await backend.getMergeBases("a2", "other")).toEqual([]);
+});
+
+Deno.test("checker with a backend - content merges", async () => {
+  // Different lines of the same file merge; the same line conflicts
+  expect(
+    await conflicts(branches(
+      { "a.txt": "ONE\ntwo\nthree\nfour\n" },
+      { "a.txt": "one\ntwo\nthree\nFOUR\n", "b.txt": "theirs\n" },
+    )),
+  ).toEqual([]);
+  expect(
+    await conflicts(branches(
+      { "a.txt": "one\nours\nthree\nfour\n", "b.txt": "same\n" },
+      { "a.txt": "one\ntheirs\nthree\nfour\n", "b.txt": "same\n" },
+    )),
+  ).toEqual(["a.txt"]);
+
+  const backend = branches(
+    { "a.txt": "one\nours\n", "b.txt": "ours\n" },
+    { "a.txt": "one\ntheirs\n", "b.txt": "theirs\n" },
+  );
+  expect(await check(backend)).toEqual({
+    current_ref: "ours",
+    other_ref: "theirs",
+    ours_commit: "ours",
+    theirs_commit: "theirs",
+    merge_base: "base",
+    merge_bases: ["base"],
+    criss_cross: false,
+    engine: "index-merge",
+    conflicts: true,
+    conflicted_files: ["a.txt", "b.txt"],
+    files: {},
+  });
+  // The checker's path filters and pairwise checks run on the backend too
+  expect(
+    (await check(backend, "ours", "theirs", { paths: ["b.txt"] }))
+      .conflicted_files,
+  ).toEqual(["b.txt"]);
+  await using checker = new ConflictChecker({ backend });
+  const pairwise = await checker.checkPairwise(["base", "ours", "theirs"]);
+  expect(pairwise.matrix[0][1].status).toBe("skipped");
+  expect(pairwise.matrix[1][2].conflicted_files).toEqual(["a.txt", "b.txt"]);
+  await expect(check(branches({}, {}), "ours", "missing"))
+    .rejects.toThrow("Couldn't resolve other branch/ref 'missing'");
+});
+
+Deno.test("checker with a backend - tree conflicts", async () => {
+  // Modify/delete and add/add
+  expect(
+    await conflicts(branches(
+      { "b.txt": null, "new.txt": "ours\n" },
+      { "b.txt": "changed\n", "new.txt": "theirs\n" },
+    )),
+  ).toEqual(["b.txt", "new.txt"]);
+  // Deleted on one side, untouched on the other
+  expect(await conflicts(branches({ "b.txt": null }, {}))).toEqual([]);
+
+  // A mode change merges with a content change, two mode changes conflict
+  const executable = { content: "b\n", mode: "100755" } as const;
+  expect(
+    await conflicts(branches(
+      { "b.txt": executable },
+      { "b.txt": "theirs\n" },
+    )),
+  ).toEqual([]);
+  expect(
+    await conflicts(branches(
+      { "b.txt": { content: "b\n", mode: "120000" } },
+      { "b.txt": executable },
+    )),
+  ).toEqual(["b.txt"]);
+
+  // Directory/file: a file added where the other side adds a directory
+  expect(
+    await conflicts(branches({ "new": "file\n" }, { "new/file.txt": "x\n" })),
+  ).toEqual(["new"]);
+  // Directory replaced by a file while the other side changes a file in it
+  expect(
+    await conflicts(branches(
+      { "dir/c.txt": null, "dir": "file\n" },
+      { "dir/c.txt": "changed\n" },
+    )),
+  ).toEqual(["dir", "dir/c.txt"]);
+});
+
+Deno.test("checker with a backend - histories", async () => {
+  // Unrelated histories merge against an empty tree
+  const unrelated = new MemoryBackend({
+    ours: { files: { "a.txt": "ours\n", "only-ours.txt": "x\n" } },
+    theirs: { files: { "a.txt": "theirs\n", "only-theirs.txt": "y\n" } },
+  });
+  const result = await check(unrelated);
+  expect(result.merge_bases).toEqual([]);
+  expect(result.conflicted_files).toEqual(["a.txt"]);
+
+  // Fast-forward
+  const linear = new MemoryBackend({
+    base: { files: { "a.txt": "a\n" } },
+    next: { parents: ["base"], files: { "a.txt": "b\n" } },
+  });
+  expect((await check(linear, "base", "next")).conflicts).toBe(false);
+
+  // Criss-cross: a file conflicts if it conflicts against either base
+  const crissCross = new MemoryBackend({
+    root: { files: { "a.txt": "root\n" } },
+    a1: { parents: ["root"], files: { "a.txt": "a1\n" } },
+    b1: { parents: ["root"], files: { "b.txt": "b1\n" } },
+    ours: { parents: ["a1", "b1"], files: { "b.txt": "b1\n" } },
+    theirs: { parents: ["b1", "a1"], files: { "a.txt": "theirs\n" } },
+  });
+  const criss = await check(crissCross);
+  expect(criss.criss_cross).toBe(true);
+  expect(criss.merge_bases.sort()).toEqual(["a1", "b1"]);
+  expect(criss.conflicted_files).toEqual(["a.txt"]);
+});
+
+Deno.test("CliBackend - agrees with the in-memory backend", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "git_backend_" });
+  const git = async (...args: string[]) => {
+    const output = await new Deno.Command("git", {
+      args,
+      cwd: dir,
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+    return new TextDecoder().decode(output.stdout).trim();
+  };
+  const commit = async (files: Record<string, string | null>, msg: string) => {
+    for (const [path, content] of Object.entries(files)) {
+      if (content === null) {
+        await Deno.remove(join(dir, path));
+      } else {
+        await Deno.mkdir(join(dir, path, ".."), { recursive: true });
+        await Deno.writeTextFile(join(dir, path), content);
+      }
+    }
+    await git("add", "-A");
+    await git("commit", "-q", "-m", msg);
+  };
+
+  const graph = {
+    base: {
+      "a.txt": "one\ntwo\nthree\nfour\n",
+      "b.txt": "b\n",
+      "dir/c.txt": "c\n",
+    },
+    ours: { "a.txt": "ONE\ntwo\nthree\nfour\n", "b.txt": null, "n.txt": "o\n" },
+    theirs: {
+      "a.txt": "one\ntwo\nthree\nFOUR\n",
+      "b.txt": "changed\n",
+      "n.txt": "t\n",
+      "dir/c.txt": "c\nd\n",
+    },
+  };
+  try {
+    await git("init", "-q", "-b", "base");
+    await git("config", "user.email", "test@test.com");
+    await git("config", "user.name", "Test User");
+    await commit(graph.base, "base");
+    await git("checkout", "-q", "-b", "ours");
+    await commit(graph.ours, "ours");
+    await git("checkout", "-q", "-b", "theirs", "base");
+    await commit(graph.theirs, "theirs");
+
+    const cli = new CliBackend({ cwd: dir });
+    const memory = new MemoryBackend({
+      base: { files: graph.base },
+      ours: { parents: ["base"], files: graph.ours },
+      theirs: { parents: ["base"], files: graph.theirs },
+    });
+
+    const cliResult = await check(cli);
+    const memoryResult = await check(memory);
+    expect(cliResult.conflicted_files).toEqual(["b.txt", "n.txt"]);
+    expect(memoryResult.conflicted_files).toEqual(cliResult.conflicted_files);
+    expect(cliResult.merge_bases).toEqual([await git("rev-parse", "base")]);
+    expect(
+      (await checkConflicts({ repo: dir, ours: "ours", theirs: "theirs" }))
+        .conflicted_files.sort(),
+    ).toEqual(cliResult.conflicted_files);
+
+    // Trees list the same paths and modes; blobs and merges agree
+    const [cliTree, memoryTree] = [
+      await cli.listTree(cliResult.theirs_commit),
+      await memory.listTree("theirs"),
+    ];
+    expect(cliTree.map((f) => [f.path, f.mode])).toEqual(
+      memoryTree.map((f) => [f.path, f.mode]),
+    );
+    expect(await cli.readBlob(cliTree[0].oid)).toEqual(
+      await memory.readBlob(memoryTree[0].oid),
+    );
+    const [base, ours, theirs] = await Promise.all(
+      ["base", "ours", "theirs"].map((rev) => git("rev-parse", `${rev}:a.txt`)),
+    );
+    expect(await cli.mergeFile(base, ours, theirs)).toEqual({
+      clean: true,
+      content: "ONE\ntwo\nthree\nFOUR\n",
+    });
+    expect(await cli.resolveCommit("missing")).toBeNull();
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,420 @@
+/**
+ * Tests for the programmatic API (src/checker.ts)
+ * These tests create actual git repositories and never change the working
+ * directory of the test process
+ */
+
+import { expect } from "@std/expect";
+import { join } from "@std/path";
+import { checkConflicts, ConflictChecker, GitError } from "../src/checker.ts";
+
+interface TestRepo {
+  dir: string;
+  cleanup: () => Promise<void>;
+}
+
+async function createTestRepo(name: string): Promise<TestRepo> {
+  const tempDir = await Deno.makeTempDir({ prefix: `git_checker_${name}_` });
+
+  const cleanup = async () => {
+    try {
+      await Deno.remove(tempDir, { recursive: true });
+    } catch {
+      // ignore
+    }
+  };
+
+  return { dir: tempDir, cleanup };
+}
+
+async function runGit(dir: string, args: string[]): Promise<string> {
+  const { stdout } = await new Deno.Command("git", {
+    args,
+    cwd: dir,
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+  return new TextDecoder().decode(stdout).trim();
+}
+
+async function writeFiles(
+  dir: string,
+  files: Record<string, string>,
+): Promise<void> {
+  for (const [name, content] of Object.entries(files)) {
+    await Deno.mkdir(join(dir, name, ".."), { recursive: true });
+    await Deno.writeTextFile(join(dir, name), content);
+  }
+  await runGit(dir, ["add", "."]);
+}
+
+/**
+ * Creates `main` and `feature`, which conflict in `src/app.ts` and
+ * `docs/guide.md` and change different lines of `src/util.ts`, and `clean`,
+ * which only adds a file.
+ */
+async function setupRepo(dir: string): Promise<void> {
+  await runGit(dir, ["init", "-b", "main"]);
+  await runGit(dir, ["config", "user.email", "test@test.com"]);
+  await runGit(dir, ["config", "user.name", "Test User"]);
+  await writeFiles(dir, {
+    "src/app.ts": "base\n",
+    "src/util.ts": "one\ntwo\nthree\n",
+    "docs/guide.md": "base\n",
+  });
+  await runGit(dir, ["commit", "-m", "base"]);
+
+  await runGit(dir, ["checkout", "-b", "feature"]);
+  await writeFiles(dir, {
+    "src/app.ts": "feature\n",
+    "src/util.ts": "feature\ntwo\nthree\n",
+    "docs/guide.md": "feature\n",
+  });
+  await runGit(dir, ["commit", "-m", "feature"]);
+
+  await runGit(dir, ["checkout", "-b", "clean", "main"]);
+  await writeFiles(dir, { "NEWS.md": "news\n" });
+  await runGit(dir, ["commit", "-m", "clean"]);
+
+  await runGit(dir, ["checkout", "main"]);
+  await writeFiles(dir, {
+    "src/app.ts": "main\n",
+    "src/util.ts": "one\ntwo\nmain\n",
+    "docs/guide.md": "main\n",
+  });
+  await runGit(dir, ["commit", "-m", "main"]);
+}
+
+Deno.test("checker - checkConflicts returns the full result", async () => {
+  const repo = await createTestRepo("full_result");
+  try {
+    await setupRepo(repo.dir);
+    const result = await checkConflicts({
+      repo: repo.dir,
+      theirs: "feature",
+      details: true,
+    });
+
+    expect(result.current_ref).toBe("main");
+    expect(result.other_ref).toBe("feature");
+    expect(result.ours_commit).toBe(
+      await runGit(repo.dir, ["rev-parse", "main"]),
+    );
+    expect(result.conflicts).toBe(true);
+    expect(result.conflicted_files.sort()).toEqual([
+      "docs/guide.md",
+      "src/app.ts",
+    ]);
+    expect(result.files["src/app.ts"].conflict_type).toBe("content");
+    expect(result.files["src/app.ts"].diff).toContain("+feature");
+
+    const clean = await checkConflicts({
+      repo: repo.dir,
+      ours: "feature",
+      theirs: "clean",
+    });
+    expect(clean.current_ref).toBe("feature");
+    expect(clean.conflicts).toBe(false);
+    expect(clean.files).toEqual({});
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - path filters", async () => {
+  const repo = await createTestRepo("paths");
+  try {
+    await setupRepo(repo.dir);
+    const check = (paths: string[]) =>
+      checkConflicts({ repo: repo.dir, theirs: "feature", paths });
+
+    expect((await check(["src/"])).conflicted_files).toEqual(["src/app.ts"]);
+    expect((await check(["src"])).conflicted_files).toEqual(["src/app.ts"]);
+    expect((await check(["docs/*.md"])).conflicted_files).toEqual([
+      "docs/guide.md",
+    ]);
+    expect((await check(["src/app.ts", "docs"])).conflicted_files.sort())
+      .toEqual(["docs/guide.md", "src/app.ts"]);
+
+    const outside = await check(["tests/"]);
+    expect(outside.conflicts).toBe(false);
+    expect(outside.conflicted_files).toEqual([]);
+
+    // Checking more files than the filter names is not a match
+    expect((await check(["src/app"])).conflicts).toBe(false);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - engine choice", async () => {
+  const repo = await createTestRepo("engines");
+  try {
+    await setupRepo(repo.dir);
+    // src/util.ts merges cleanly, but the trivial merge-tree is conservative
+    // and reports every file changed on both sides
+    const expected = {
+      "merge-ort": ["docs/guide.md", "src/app.ts"],
+      "merge-tree": ["docs/guide.md", "src/app.ts", "src/util.ts"],
+    };
+    for (const [engine, files] of Object.entries(expected)) {
+      const result = await checkConflicts({
+        repo: repo.dir,
+        theirs: "feature",
+        engine: engine as keyof typeof expected,
+      });
+      expect(result.engine).toBe(engine);
+      expect(result.conflicted_files.sort()).toEqual(files);
+    }
+
+    // read-tree merges the contents of src/util.ts like merge-ort
+    const readTree = await checkConflicts({
+      repo: repo.dir,
+      theirs: "feature",
+      engine: "read-tree",
+    });
+    expect(readTree.engine).toBe("read-tree");
+    expect(readTree.conflicted_files.sort()).toEqual(expected["merge-ort"]);
+
+    // read-tree alone reports a clean merge without the merge-tree fallback
+    const clean = await checkConflicts({
+      repo: repo.dir,
+      theirs: "clean",
+      engine: "read-tree",
+    });
+    expect(clean.engine).toBe("read-tree");
+    expect(clean.conflicts).toBe(false);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - batch object reader matches spawned commands", async () => {
+  const repo = await createTestRepo("batch");
+  try {
+    await setupRepo(repo.dir);
+    const check = (batch: boolean) =>
+      checkConflicts({
+        repo: repo.dir,
+        theirs: "feature",
+        details: true,
+        batch,
+      });
+    expect(await check(true)).toEqual(await check(false));
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - rebase details describe the stopped commit", async () => {
+  const repo = await createTestRepo("rebase_details");
+  try {
+    await setupRepo(repo.dir);
+    // Rebasing feature onto main stops at feature's commit: our side is the
+    // replayed main, theirs the commit, and the base its parent
+    const result = await checkConflicts({
+      repo: repo.dir,
+      ours: "feature",
+      theirs: "main",
+      rebase: true,
+      details: true,
+    });
+    expect(result.rebase?.map((step) => step.status)).toEqual(["conflict"]);
+    const [hunk] = result.files["src/app.ts"].hunks!;
+    expect([hunk.base.text, hunk.ours.text, hunk.theirs.text]).toEqual([
+      "base\n",
+      "main\n",
+      "feature\n",
+    ]);
+
+    // A root commit is replayed against the empty tree
+    await runGit(repo.dir, ["checkout", "-q", "--orphan", "other"]);
+    await writeFiles(repo.dir, { "src/app.ts": "other\n" });
+    await runGit(repo.dir, ["commit", "-m", "other"]);
+    const root = await checkConflicts({
+      repo: repo.dir,
+      ours: "other",
+      theirs: "main",
+      rebase: true,
+      details: true,
+    });
+    expect(root.conflicted_files).toEqual(["src/app.ts"]);
+    expect(root.files["src/app.ts"].conflict_type).toBe("add_add");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - AbortSignal cancels a check", async () => {
+  const repo = await createTestRepo("abort");
+  try {
+    await setupRepo(repo.dir);
+
+    const aborted = AbortSignal.abort(new Error("cancelled"));
+    await expect(
+      checkConflicts({ repo: repo.dir, theirs: "feature", signal: aborted }),
+    ).rejects.toThrow("cancelled");
+
+    // Abort after the first conflicting file: no further Git command runs
+    const controller = new AbortController();
+    const seen: string[] = [];
+    await expect(checkConflicts({
+      repo: repo.dir,
+      theirs: "feature",
+      details: true,
+      signal: controller.signal,
+      onFileConflict: (_result, file) => {
+        seen.push(file);
+        controller.abort(new Error("stop"));
+      },
+    })).rejects.toThrow("stop");
+    expect(seen.length).toBe(1);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - ConflictChecker runs several checks", async () => {
+  const repo = await createTestRepo("several");
+  try {
+    await setupRepo(repo.dir);
+    await using checker = new ConflictChecker({ repo: repo.dir });
+    const ours = await checker.resolveOurs();
+    expect(ours.ref).toBe("main");
+
+    const results = [];
+    for (const target of ["feature", "clean"]) {
+      results.push(await checker.check(target, ours));
+    }
+    expect(results.map((r) => r.conflicts)).toEqual([true, false]);
+
+    const pairwise = await checker.checkPairwise(["main", "feature", "clean"]);
+    expect(pairwise.matrix[0][1].status).toBe("conflict");
+    expect(pairwise.matrix[0][2].status).toBe("clean");
+
+    const backport = await checker.checkBackport("feature~1..feature", [
+      "main",
+      "clean",
+    ]);
+    expect(backport.targets.map((t) => t.label)).toEqual([
+      "backport-needs-manual",
+      "backport-clean",
+    ]);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - matrix of targets with progress events", async () => {
+  const repo = await createTestRepo("matrix");
+  try {
+    await setupRepo(repo.dir);
+    await using checker = new ConflictChecker({ repo: repo.dir, jobs: 2 });
+    const ours = await checker.resolveOurs();
+    expect(await checker.detectTarget({ ...ours, ref: "feature" }))
+      .toBe("main");
+
+    // Patterns leave out our side; plain refs are kept once, in order
+    const targets = await checker.expandRefs(["*", "clean"], ours.ref);
+    expect(targets).toEqual(["clean", "feature"]);
+    await expect(checker.expandRefs(["release/*"]))
+      .rejects.toThrow("No refs match pattern 'release/*'");
+
+    const events: string[] = [];
+    const matrix = await checker.checkMatrix(
+      targets,
+      ours,
+      (event) =>
+        events.push(
+          "target" in event ? `${event.event} ${event.target}` : event.event,
+        ),
+    );
+    expect(matrix.conflicts).toBe(true);
+    expect(matrix.targets.map((r) => r.other_ref)).toEqual(targets);
+    expect(events).toEqual([
+      "start",
+      "target_resolved clean",
+      "target_done clean",
+      "target_resolved feature",
+      "target_done feature",
+      "summary",
+    ]);
+
+    await expect(checker.checkMatrix(["clean", "main"], ours))
+      .rejects.toThrow("Other branch ('main') is the same as current");
+
+    // The first target streams its events before its check is done
+    const controller = new AbortController();
+    await using streaming = new ConflictChecker({
+      repo: repo.dir,
+      details: true,
+      signal: controller.signal,
+    });
+    await expect(streaming.checkMatrix(["feature"], ours, (event) => {
+      if (event.event === "target_resolved") {
+        controller.abort(new Error("stop"));
+      }
+    })).rejects.toThrow("stop");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - errors", async () => {
+  const repo = await createTestRepo("errors");
+  try {
+    await setupRepo(repo.dir);
+    await expect(checkConflicts({ repo: repo.dir, theirs: "missing" }))
+      .rejects.toThrow(GitError);
+    await expect(
+      checkConflicts({ repo: repo.dir, ours: "missing", theirs: "main" }),
+    ).rejects.toThrow("Couldn't resolve our branch/ref 'missing'");
+    expect(() => new ConflictChecker({ paths: ["src/"], rebase: true }))
+      .toThrow(GitError);
+    await expect(
+      new ConflictChecker({ repo: repo.dir, paths: ["src/"] })
+        .checkBackport("feature", ["main"]),
+    ).rejects.toThrow("not supported with backport");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("checker - parallel jobs", async () => {
+  const repo = await createTestRepo("jobs");
+  try {
+    await setupRepo(repo.dir);
+    const check = (jobs: number) =>
+      checkConflicts({
+        repo: repo.dir,
+        theirs: "feature",
+        details: true,
+        jobs,
+      });
+    const sequential = await check(1);
+    const parallel = await check(4);
+    expect(parallel).toEqual(sequential);
+    expect(Object.keys(parallel.files)).toEqual(parallel.conflicted_files);
+
+    // Files are reported in order; aborting stops the remaining ones
+    const controller = new AbortController();
+    const seen: string[] = [];
+    await expect(checkConflicts({
+      repo: repo.dir,
+      theirs: "feature",
+      details: true,
+      jobs: 4,
+      signal: controller.signal,
+      onFileConflict: (_result, file) => {
+        seen.push(file);
+        controller.abort(new Error("stop"));
+      },
+    })).rejects.toThrow("stop");
+    expect(seen).toEqual([sequential.conflicted_files[0]]);
+
+    expect(() => new ConflictChecker({ jobs: 0 })).toThrow(GitError);
+    expect(() => new ConflictChecker({ jobs: 1.5 })).toThrow("Invalid jobs");
+  } finally {
+    await repo.cleanup();
+  }
+});
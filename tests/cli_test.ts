@@ -5,6 +5,8 @@
 
 import { expect } from "@std/expect";
 import { fromFileUrl, join } from "@std/path";
+import schema from "../src/schema.json" with { type: "json" };
+import { validateSchema } from "./json_schema.ts";
 
 interface TestRepo {
   dir: string;
@@ -46,30 +48,40 @@ async function runGit(
 async function runScript(
   dir: string,
   args: string[],
+  env: Record<string, string> = {},
+  permissions = ["--allow-run", "--allow-read", "--allow-write", "--allow-env"],
 ): Promise<{ code: number; stdout: string; stderr: string }> {
   // Use fromFileUrl to properly convert file:// URL to OS-specific path
   const scriptPath = fromFileUrl(new URL("../src/main.ts", import.meta.url));
 
   const command = new Deno.Command("deno", {
-    args: [
-      "run",
-      "--allow-run",
-      "--allow-read",
-      "--allow-write",
-      "--allow-env",
-      scriptPath,
-      ...args,
-    ],
+    args: ["run", ...permissions, "--no-prompt", scriptPath, ...args],
     cwd: dir,
+    // Keep the default text output when the tests themselves run in Actions
+    env: { GITHUB_ACTIONS: "", GITHUB_STEP_SUMMARY: "", ...env },
     stdout: "piped",
     stderr: "piped",
   });
   const { code, stdout, stderr } = await command.output();
-  return {
+  const result = {
     code,
     stdout: new TextDecoder().decode(stdout).trim(),
     stderr: new TextDecoder().decode(stderr).trim(),
   };
+
+  // Every JSON document a scenario produces must match the published schema
+  const json = args.includes("--json") ||
+    args.some((arg, i) => arg === "json" && args[i - 1] === "--format");
+  if (json && code !== 2 && !args.includes("--output")) {
+    expect(validateSchema(schema, JSON.parse(result.stdout))).toEqual([]);
+  }
+  if (args.includes("ndjson") && code !== 2) {
+    for (const line of result.stdout.split("\n")) {
+      expect(validateSchema(schema, JSON.parse(line), "#/$defs/NdjsonEvent"))
+        .toEqual([]);
+    }
+  }
+  return result;
 }
 
 async function setupRepo(dir: string): Promise<void> {
@@ -234,6 +246,7 @@ Deno.test("CLI - json output with conflicts", async () => {
     const json = JSON.parse(result.stdout);
     expect(json.conflicts).toBe(true);
     expect(json.conflicted_files).toContain("conflict.txt");
+    expect(["merge-ort", "read-tree", "merge-tree"]).toContain(json.engine);
   } finally {
     await repo.cleanup();
   }
@@ -345,6 +358,75 @@ Deno.test("CLI - not a git repository", async () => {
   }
 });
 
+Deno.test("CLI - -C/--repo runs against another directory", async () => {
+  const repo = await createTestRepo("repo_flag_cli");
+  const outside = await createTestRepo("repo_flag_outside_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "original\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "original"]);
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "feature\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "main\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+
+    // Started outside of any repository
+    const result = await runScript(outside.dir, [
+      "-C",
+      repo.dir,
+      "--json",
+      "feature",
+    ]);
+    expect(result.code).toBe(1);
+    const json = JSON.parse(result.stdout);
+    expect(json.current_ref).toBe("main");
+    expect(json.conflicted_files).toEqual(["file.txt"]);
+
+    // The report path stays relative to the invoking directory
+    const report = await runScript(outside.dir, [
+      `--repo=${repo.dir}`,
+      "--format",
+      "junit",
+      "--output",
+      "report.xml",
+      "feature",
+    ]);
+    expect(report.code).toBe(1);
+    expect(await Deno.readTextFile(join(outside.dir, "report.xml")))
+      .toContain("file.txt");
+
+    // Like git, -C may come before a command
+    const pairwise = await runScript(outside.dir, [
+      "-C",
+      repo.dir,
+      "pairwise",
+      "--json",
+      "main",
+      "feature",
+    ]);
+    expect(pairwise.code).toBe(1);
+    expect(JSON.parse(pairwise.stdout).refs).toEqual(["main", "feature"]);
+
+    const missing = await runScript(outside.dir, [
+      "-C",
+      join(outside.dir, "missing"),
+      "feature",
+    ]);
+    expect(missing.code).toBe(2);
+    expect(missing.stderr).toContain("not a directory");
+
+    const notGit = await runScript(repo.dir, ["-C", outside.dir, "feature"]);
+    expect(notGit.code).toBe(2);
+    expect(notGit.stderr).toContain("Not a git repository");
+  } finally {
+    await repo.cleanup();
+    await outside.cleanup();
+  }
+});
+
 Deno.test("CLI - combined flags", async () => {
   const repo = await createTestRepo("combined_flags_cli");
   try {
@@ -409,3 +491,936 @@ Deno.test("CLI - short alias for diff", async () => {
     await repo.cleanup();
   }
 });
+
+Deno.test("CLI - --ours checks a ref other than HEAD", async () => {
+  const repo = await createTestRepo("ours_flag_cli");
+  try {
+    await setupRepo(repo.dir);
+
+    await writeFile(repo.dir, "file.txt", "original\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "original"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "branch1"]);
+    await writeFile(repo.dir, "file.txt", "branch1\n");
+    await runGit(repo.dir, ["commit", "-am", "branch1"]);
+
+    await runGit(repo.dir, ["checkout", "main"]);
+    await runGit(repo.dir, ["checkout", "-b", "branch2"]);
+    await writeFile(repo.dir, "file.txt", "branch2\n");
+    await runGit(repo.dir, ["commit", "-am", "branch2"]);
+
+    // Stay on main, which merges cleanly with both branches
+    await runGit(repo.dir, ["checkout", "main"]);
+
+    const result = await runScript(repo.dir, [
+      "--json",
+      "--ours",
+      "branch1",
+      "branch2",
+    ]);
+    expect(result.code).toBe(1);
+    const json = JSON.parse(result.stdout);
+    expect(json.current_ref).toBe("branch1");
+    expect(json.other_ref).toBe("branch2");
+    expect(json.ours_commit).toBe(
+      (await runGit(repo.dir, ["rev-parse", "branch1"])).stdout,
+    );
+    expect(json.conflicted_files).toContain("file.txt");
+
+    // Two-positional form is equivalent
+    const positional = await runScript(repo.dir, ["branch1", "branch2"]);
+    expect(positional.code).toBe(1);
+    expect(positional.stdout).toContain("file.txt");
+
+    // HEAD (main) itself is clean against branch2
+    const head = await runScript(repo.dir, ["branch2"]);
+    expect(head.code).toBe(0);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - two refs in a bare clone", async () => {
+  const repo = await createTestRepo("bare_clone_cli");
+  const bare = await createTestRepo("bare_clone_cli_bare");
+  try {
+    await setupRepo(repo.dir);
+
+    await writeFile(repo.dir, "file.txt", "original\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "original"]);
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "feature\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "main\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+
+    await runGit(bare.dir, ["clone", "--bare", repo.dir, "."]);
+
+    const result = await runScript(bare.dir, ["--json", "feature", "main"]);
+    expect(result.code).toBe(1);
+    const json = JSON.parse(result.stdout);
+    expect(json.current_ref).toBe("feature");
+    expect(json.conflicted_files).toEqual(["file.txt"]);
+  } finally {
+    await repo.cleanup();
+    await bare.cleanup();
+  }
+});
+
+Deno.test("CLI - --ours with unknown ref", async () => {
+  const repo = await createTestRepo("ours_invalid_cli");
+  try {
+    await setupRepo(repo.dir);
+
+    const result = await runScript(repo.dir, ["--ours", "nonexistent", "main"]);
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain("Couldn't resolve our branch/ref");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+async function setupMatrixRepo(dir: string): Promise<void> {
+  await setupRepo(dir);
+  await writeFile(dir, "shared.txt", "base\n");
+  await writeFile(dir, "other.txt", "base\n");
+  await runGit(dir, ["add", "."]);
+  await runGit(dir, ["commit", "-m", "base"]);
+
+  // release/1.0 touches a different file: merges cleanly
+  await runGit(dir, ["checkout", "-b", "release/1.0"]);
+  await writeFile(dir, "other.txt", "release 1.0\n");
+  await runGit(dir, ["commit", "-am", "release 1.0"]);
+
+  // release/2.0 changes shared.txt: conflicts with feature
+  await runGit(dir, ["checkout", "main"]);
+  await runGit(dir, ["checkout", "-b", "release/2.0"]);
+  await writeFile(dir, "shared.txt", "release 2.0\n");
+  await runGit(dir, ["commit", "-am", "release 2.0"]);
+
+  await runGit(dir, ["checkout", "main"]);
+  await runGit(dir, ["checkout", "-b", "feature"]);
+  await writeFile(dir, "shared.txt", "feature\n");
+  await runGit(dir, ["commit", "-am", "feature"]);
+}
+
+Deno.test("CLI - matrix mode with glob", async () => {
+  const repo = await createTestRepo("matrix_cli");
+  try {
+    await setupMatrixRepo(repo.dir);
+
+    const result = await runScript(repo.dir, [
+      "--json",
+      "--against",
+      "main",
+      "--against",
+      "release/*",
+    ]);
+    expect(result.code).toBe(1);
+
+    const json = JSON.parse(result.stdout);
+    expect(json.current_ref).toBe("feature");
+    expect(json.conflicts).toBe(true);
+    expect(json.targets.map((t: { other_ref: string }) => t.other_ref))
+      .toEqual(["main", "release/1.0", "release/2.0"]);
+    expect(json.targets[0].conflicts).toBe(false);
+    expect(json.targets[1].conflicts).toBe(false);
+    expect(json.targets[2].conflicts).toBe(true);
+    expect(json.targets[2].conflicted_files).toEqual(["shared.txt"]);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - matrix mode summary table", async () => {
+  const repo = await createTestRepo("matrix_table_cli");
+  try {
+    await setupMatrixRepo(repo.dir);
+
+    const clean = await runScript(repo.dir, [
+      "--against",
+      "main",
+      "--against",
+      "release/1.0",
+    ]);
+    expect(clean.code).toBe(0);
+    expect(clean.stdout).toContain("Conflict matrix for feature");
+    expect(clean.stdout).toMatch(/release\/1\.0\s+clean\s+0/);
+
+    const conflicting = await runScript(repo.dir, ["--against", "release/*"]);
+    expect(conflicting.code).toBe(1);
+    expect(conflicting.stdout).toMatch(/release\/2\.0\s+CONFLICT\s+1/);
+    expect(conflicting.stdout).toContain(
+      "CONFLICTS EXPECTED when merging release/2.0",
+    );
+
+    const noMatch = await runScript(repo.dir, ["--against", "hotfix/*"]);
+    expect(noMatch.code).toBe(2);
+    expect(noMatch.stderr).toContain("No refs match pattern");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+async function setupPairwiseRepo(dir: string): Promise<void> {
+  await setupRepo(dir);
+  await writeFile(dir, "shared.txt", "base\n");
+  await runGit(dir, ["add", "."]);
+  await runGit(dir, ["commit", "-m", "base"]);
+
+  // feature/a and feature/b both change shared.txt
+  await runGit(dir, ["checkout", "-b", "feature/a"]);
+  await writeFile(dir, "shared.txt", "a\n");
+  await runGit(dir, ["commit", "-am", "a"]);
+
+  await runGit(dir, ["checkout", "main"]);
+  await runGit(dir, ["checkout", "-b", "feature/b"]);
+  await writeFile(dir, "shared.txt", "b\n");
+  await runGit(dir, ["commit", "-am", "b"]);
+
+  // feature/c adds a new file
+  await runGit(dir, ["checkout", "main"]);
+  await runGit(dir, ["checkout", "-b", "feature/c"]);
+  await writeFile(dir, "c.txt", "c\n");
+  await runGit(dir, ["add", "c.txt"]);
+  await runGit(dir, ["commit", "-m", "c"]);
+
+  // feature/d builds on feature/c: merging the two is a fast-forward
+  await runGit(dir, ["checkout", "-b", "feature/d"]);
+  await writeFile(dir, "c.txt", "d\n");
+  await runGit(dir, ["commit", "-am", "d"]);
+  await runGit(dir, ["checkout", "main"]);
+}
+
+Deno.test("CLI - pairwise json matrix", async () => {
+  const repo = await createTestRepo("pairwise_json_cli");
+  try {
+    await setupPairwiseRepo(repo.dir);
+
+    const result = await runScript(repo.dir, [
+      "pairwise",
+      "--json",
+      "feature/*",
+    ]);
+    expect(result.code).toBe(1);
+
+    const json = JSON.parse(result.stdout);
+    expect(json.refs).toEqual([
+      "feature/a",
+      "feature/b",
+      "feature/c",
+      "feature/d",
+    ]);
+    expect(json.conflicts).toBe(true);
+    expect(json.matrix[0][0].status).toBe("self");
+    expect(json.matrix[0][1]).toEqual({
+      status: "conflict",
+      conflicted_files: ["shared.txt"],
+    });
+    expect(json.matrix[1][0]).toEqual(json.matrix[0][1]);
+    expect(json.matrix[0][2].status).toBe("clean");
+    expect(json.matrix[2][3].status).toBe("skipped");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - pairwise text and csv", async () => {
+  const repo = await createTestRepo("pairwise_text_cli");
+  try {
+    await setupPairwiseRepo(repo.dir);
+
+    const text = await runScript(repo.dir, ["pairwise", "feature/*"]);
+    expect(text.code).toBe(1);
+    expect(text.stdout).toContain("Pairwise conflict matrix (4 refs):");
+    expect(text.stdout).toContain("feature/a <-> feature/b: shared.txt");
+
+    const csv = await runScript(repo.dir, [
+      "pairwise",
+      "--format",
+      "csv",
+      "feature/c",
+      "feature/d",
+      "main",
+    ]);
+    expect(csv.code).toBe(0);
+    expect(csv.stdout.split("\n")[0]).toBe(",feature/c,feature/d,main");
+
+    const single = await runScript(repo.dir, ["pairwise", "feature/a"]);
+    expect(single.code).toBe(2);
+    expect(single.stderr).toContain("at least two refs");
+
+    const csvElsewhere = await runScript(repo.dir, ["--format", "csv", "x"]);
+    expect(csvElsewhere.code).toBe(2);
+    expect(csvElsewhere.stderr).toContain("only supported by pairwise");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - rebase simulation where the merge is clean", async () => {
+  const repo = await createTestRepo("rebase_cli");
+  try {
+    await setupRepo(repo.dir);
+
+    await writeFile(repo.dir, "file.txt", "line1\nx\nline3\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    // feature changes a line and then reverts it: the merge is clean
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "line1\ny\nline3\n");
+    await runGit(repo.dir, ["commit", "-am", "change x to y"]);
+    await writeFile(repo.dir, "file.txt", "line1\nx\nline3\n");
+    await runGit(repo.dir, ["commit", "-am", "change y back to x"]);
+
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "line1\nz\nline3\n");
+    await runGit(repo.dir, ["commit", "-am", "change x to z"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const merge = await runScript(repo.dir, ["main"]);
+    expect(merge.code).toBe(0);
+
+    const rebase = await runScript(repo.dir, ["--rebase", "main"]);
+    expect(rebase.code).toBe(1);
+    expect(rebase.stdout).toContain("Rebase simulation of feature onto main");
+    expect(rebase.stdout).toMatch(/CONFLICT\s+[0-9a-f]{12} change x to y/);
+    expect(rebase.stdout).toMatch(/pending\s+[0-9a-f]{12} change y back to x/);
+    expect(rebase.stdout).toContain(
+      "CONFLICTS EXPECTED when rebasing onto main",
+    );
+
+    const json = await runScript(repo.dir, [
+      "--rebase",
+      "--json",
+      "-d",
+      "main",
+    ]);
+    expect(json.code).toBe(1);
+    const result = JSON.parse(json.stdout);
+    expect(result.engine).toBe("index-merge");
+    expect(result.conflicted_files).toEqual(["file.txt"]);
+    expect(result.files["file.txt"].diff).toBeTruthy();
+    expect(result.rebase).toHaveLength(2);
+    expect(result.rebase[0]).toEqual({
+      commit: (await runGit(repo.dir, ["rev-parse", "feature~1"])).stdout,
+      subject: "change x to y",
+      status: "conflict",
+      conflicted_files: ["file.txt"],
+    });
+    expect(result.rebase[1].status).toBe("pending");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - backport onto release branches", async () => {
+  const repo = await createTestRepo("backport_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "config.txt", "version=1\n");
+    await writeFile(repo.dir, "login.txt", "login\n");
+    await runGit(repo.dir, ["add", "."]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    // release/2.0 diverges on config.txt, release/1.0 does not
+    await runGit(repo.dir, ["branch", "release/1.0"]);
+    await runGit(repo.dir, ["checkout", "-b", "release/2.0"]);
+    await writeFile(repo.dir, "config.txt", "version=2\n");
+    await runGit(repo.dir, ["commit", "-am", "bump version"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+
+    await writeFile(repo.dir, "login.txt", "login fixed\n");
+    await runGit(repo.dir, ["commit", "-am", "fix login"]);
+    await writeFile(repo.dir, "config.txt", "version=1\ntimeout=5\n");
+    await runGit(repo.dir, ["commit", "-am", "add timeout"]);
+
+    const result = await runScript(repo.dir, [
+      "backport",
+      "--json",
+      "main~2..main",
+      "release/*",
+    ]);
+    expect(result.code).toBe(1);
+
+    const json = JSON.parse(result.stdout);
+    expect(json.range).toBe("main~2..main");
+    expect(json.commits).toHaveLength(2);
+    expect(json.clean).toBe(false);
+    expect(json.targets.map((t: { target: string }) => t.target)).toEqual([
+      "release/1.0",
+      "release/2.0",
+    ]);
+    expect(json.targets[0].label).toBe("backport-clean");
+    expect(json.targets[0].failed_commit).toBeNull();
+    expect(json.targets[1].label).toBe("backport-needs-manual");
+    expect(json.targets[1].failed_commit).toBe(json.commits[1]);
+    expect(json.targets[1].conflicted_files).toEqual(["config.txt"]);
+    expect(json.targets[1].commits[0].status).toBe("clean");
+
+    const text = await runScript(repo.dir, ["backport", "main", "release/1.0"]);
+    expect(text.code).toBe(0);
+    expect(text.stdout).toContain("Backport of 1 commit (main):");
+    expect(text.stdout).toMatch(/release\/1\.0\s+backport-clean/);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - backport without targets", async () => {
+  const repo = await createTestRepo("backport_usage_cli");
+  try {
+    await setupRepo(repo.dir);
+    const result = await runScript(repo.dir, ["backport", "main"]);
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain("at least one target branch");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - include staged and worktree changes", async () => {
+  const repo = await createTestRepo("uncommitted_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "base\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "other"]);
+    await writeFile(repo.dir, "file.txt", "other\n");
+    await runGit(repo.dir, ["commit", "-am", "other change"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+
+    // The conflicting change exists only in the working tree
+    await writeFile(repo.dir, "file.txt", "local\n");
+
+    const committed = await runScript(repo.dir, ["other"]);
+    expect(committed.code).toBe(0);
+
+    const staged = await runScript(repo.dir, ["--include-staged", "other"]);
+    expect(staged.code).toBe(0);
+
+    const worktree = await runScript(repo.dir, [
+      "--include-worktree",
+      "--json",
+      "other",
+    ]);
+    expect(worktree.code).toBe(1);
+    const json = JSON.parse(worktree.stdout);
+    expect(json.uncommitted).toBe("worktree");
+    expect(json.conflicted_files).toEqual(["file.txt"]);
+
+    // Once staged, --include-staged sees it too
+    await runGit(repo.dir, ["add", "file.txt"]);
+    const stagedAfterAdd = await runScript(repo.dir, [
+      "--include-staged",
+      "other",
+    ]);
+    expect(stagedAfterAdd.code).toBe(1);
+
+    // Index and working tree are untouched
+    const status = await runGit(repo.dir, ["status", "--porcelain"]);
+    expect(status.stdout.trim()).toBe("M  file.txt");
+    expect(await Deno.readTextFile(`${repo.dir}/file.txt`)).toBe("local\n");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - include-worktree rejects --ours", async () => {
+  const repo = await createTestRepo("uncommitted_ours_cli");
+  try {
+    await setupRepo(repo.dir);
+    const result = await runScript(repo.dir, [
+      "--include-worktree",
+      "--ours",
+      "main",
+      "other",
+    ]);
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain("only applies to the current HEAD");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - criss-cross history reports all merge bases", async () => {
+  const repo = await createTestRepo("criss_cross_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "shared.txt", "base\n");
+    await runGit(repo.dir, ["add", "shared.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "feature.txt", "feature\n");
+    await runGit(repo.dir, ["add", "feature.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "feature work"]);
+
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "main.txt", "main\n");
+    await runGit(repo.dir, ["add", "main.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "main work"]);
+
+    // Criss-cross: each branch merges the other's previous tip
+    await runGit(repo.dir, ["merge", "--no-edit", "feature"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+    await runGit(repo.dir, ["merge", "--no-edit", "main~1"]);
+
+    // Then both sides change the same line
+    await writeFile(repo.dir, "shared.txt", "feature\n");
+    await runGit(repo.dir, ["commit", "-am", "feature change"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "shared.txt", "main\n");
+    await runGit(repo.dir, ["commit", "-am", "main change"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const result = await runScript(repo.dir, ["--json", "main"]);
+    expect(result.code).toBe(1);
+    const json = JSON.parse(result.stdout);
+    expect(json.criss_cross).toBe(true);
+    expect(json.merge_bases).toHaveLength(2);
+    expect(json.merge_bases).toContain(json.merge_base);
+    expect(json.conflicted_files).toEqual(["shared.txt"]);
+
+    const text = await runScript(repo.dir, ["main"]);
+    expect(text.stdout).toContain("criss-cross history with 2 merge bases");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - sarif output", async () => {
+  const repo = await createTestRepo("sarif_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "one\ntwo\nthree\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "one\nfeature\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "one\nmain\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const result = await runScript(repo.dir, ["--format", "sarif", "main"]);
+    expect(result.code).toBe(1);
+    const sarif = JSON.parse(result.stdout);
+    const [run] = sarif.runs;
+    expect(run.tool.driver.name).toBe("git-check-conflicts");
+    expect(run.tool.driver.version).toMatch(/^\d+\.\d+\.\d+/);
+    expect(run.results).toHaveLength(1);
+    expect(run.results[0].ruleId).toBe("content");
+    expect(run.results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "file.txt", uriBaseId: "%SRCROOT%" },
+      region: { startLine: 2, endLine: 2 },
+    });
+
+    const pairwise = await runScript(repo.dir, [
+      "pairwise",
+      "--format",
+      "sarif",
+      "main",
+      "feature",
+    ]);
+    expect(pairwise.code).toBe(2);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - junit report written with --output", async () => {
+  const repo = await createTestRepo("junit_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "one\ntwo\nthree\n");
+    await writeFile(repo.dir, "other.txt", "other\n");
+    await runGit(repo.dir, ["add", "."]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "one\nfeature\nthree\n");
+    await writeFile(repo.dir, "other.txt", "changed\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "one\nmain\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const result = await runScript(repo.dir, [
+      "--format",
+      "junit",
+      "--output",
+      "report.xml",
+      "main",
+    ]);
+    expect(result.code).toBe(1);
+    expect(result.stdout).toContain("CONFLICTS EXPECTED");
+    const xml = await Deno.readTextFile(join(repo.dir, "report.xml"));
+    expect(xml).toContain('tests="2" failures="1"');
+    expect(xml).toContain('name="other.txt" file="other.txt"/>');
+    expect(xml).toContain('<failure message="Conflict in file.txt');
+
+    const stdout = await runScript(repo.dir, ["--format", "junit", "main"]);
+    expect(stdout.stdout).toMatch(/^<\?xml /);
+
+    const text = await runScript(repo.dir, ["--output", "out.txt", "main"]);
+    expect(text.code).toBe(2);
+    expect(text.stderr).toContain("--output requires");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - github annotations and job summary", async () => {
+  const repo = await createTestRepo("github_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "one\ntwo\nthree\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "one\nfeature\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "one\nmain\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const summaryPath = join(repo.dir, "summary.md");
+    const result = await runScript(repo.dir, ["main"], {
+      GITHUB_ACTIONS: "true",
+      GITHUB_STEP_SUMMARY: summaryPath,
+    });
+    expect(result.code).toBe(1);
+    expect(result.stdout).toContain(
+      "::error file=file.txt,line=2,endLine=2," +
+        "title=Merge conflict with main (content)::" +
+        "Merging main into feature is expected to conflict in file.txt",
+    );
+    expect(result.stdout).toContain("CONFLICTS EXPECTED");
+    const summary = await Deno.readTextFile(summaryPath);
+    expect(summary).toContain("## git-check-conflicts");
+    expect(summary).toContain(
+      "| `main` | :x: 1 conflicting file(s) | `file.txt` |",
+    );
+
+    // An explicit format wins over the Actions default
+    const json = await runScript(repo.dir, ["--json", "main"], {
+      GITHUB_ACTIONS: "true",
+    });
+    expect(JSON.parse(json.stdout).conflicts).toBe(true);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - markdown report for pull request comments", async () => {
+  const repo = await createTestRepo("markdown_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "one\ntwo\nthree\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "one\nfeature\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "one\nmain\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const result = await runScript(repo.dir, ["--format", "markdown", "main"]);
+    expect(result.code).toBe(1);
+    expect(result.stdout).toMatch(/^<!-- git-check-conflicts-report -->\n/);
+    expect(result.stdout).toContain("| `file.txt` | content |");
+    expect(result.stdout).toContain("<details>");
+    expect(result.stdout).toContain("```diff\n");
+
+    const truncated = await runScript(repo.dir, [
+      "--format",
+      "markdown",
+      "--max-diff-size",
+      "10",
+      "main",
+    ]);
+    expect(truncated.stdout).toContain("more line(s) truncated");
+
+    const invalid = await runScript(repo.dir, [
+      "--format",
+      "markdown",
+      "--max-diff-size",
+      "lots",
+      "main",
+    ]);
+    expect(invalid.code).toBe(2);
+    expect(invalid.stderr).toContain("Invalid --max-diff-size 'lots'");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - self-contained html report", async () => {
+  const repo = await createTestRepo("html_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "one\ntwo\nthree\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "one\nfeature\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "one\nmain\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const result = await runScript(repo.dir, [
+      "--format",
+      "html",
+      "--output",
+      "report.html",
+      "main",
+    ]);
+    expect(result.code).toBe(1);
+    expect(result.stdout).toContain("CONFLICTS EXPECTED");
+    const html = await Deno.readTextFile(join(repo.dir, "report.html"));
+    expect(html).toContain('<option value="content">content</option>');
+    expect(html).toContain(
+      '<tr class="conflict"><td class="ln">2</td><td class="code">feature</td></tr>',
+    );
+    expect(html).toContain(
+      '<tr class="conflict"><td class="ln">2</td><td class="code">main</td></tr>',
+    );
+    expect(html).toContain(
+      '<tr class="conflict"><td class="ln">2</td><td class="code">two</td></tr>',
+    );
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - print the JSON schema", async () => {
+  const repo = await createTestRepo("print_schema");
+  try {
+    const result = await runScript(repo.dir, ["--print-schema"]);
+    expect(result.code).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual(schema);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - ndjson events stream per target", async () => {
+  const repo = await createTestRepo("ndjson_cli");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "one\ntwo\nthree\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+    await runGit(repo.dir, ["branch", "release"]);
+
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "one\nfeature\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "one\nmain\nthree\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const result = await runScript(repo.dir, [
+      "--format",
+      "ndjson",
+      "--against",
+      "main",
+      "--against",
+      "release",
+    ]);
+    expect(result.code).toBe(1);
+    const events = result.stdout.split("\n").map((line) => JSON.parse(line));
+    expect(events.map((e) => e.event)).toEqual([
+      "start",
+      "target_resolved",
+      "file_conflict",
+      "target_done",
+      "target_resolved",
+      "target_done",
+      "summary",
+    ]);
+    expect(events[0].targets).toEqual(["main", "release"]);
+    expect(events[2].file).toBe("file.txt");
+    expect(events[2].detail.conflict_type).toBe("content");
+    expect(events[3].result.conflicted_files).toEqual(["file.txt"]);
+    expect(events[5].result.conflicts).toBe(false);
+    expect(events[6]).toEqual({
+      event: "summary",
+      conflicts: true,
+      targets: 2,
+      conflicting_targets: ["main"],
+    });
+
+    const single = await runScript(repo.dir, ["--format", "ndjson", "main"]);
+    expect(single.stdout.split("\n")).toHaveLength(5);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - --jobs keeps the output order", async () => {
+  const repo = await createTestRepo("jobs_cli");
+  try {
+    await setupRepo(repo.dir);
+    const files = ["c.txt", "a.txt", "b.txt"];
+    const commitFiles = async (content: string) => {
+      for (const file of files) await writeFile(repo.dir, file, content);
+      await runGit(repo.dir, ["add", ...files]);
+      await runGit(repo.dir, ["commit", "-m", content]);
+    };
+    await commitFiles("base\n");
+    await runGit(repo.dir, ["branch", "clean"]);
+    for (const branch of ["feature", "release", "hotfix"]) {
+      await runGit(repo.dir, ["checkout", "-b", branch, "main"]);
+      await commitFiles(`${branch}\n`);
+    }
+    await runGit(repo.dir, ["checkout", "feature"]);
+
+    const against = ["--against", "release", "--against", "clean"];
+    const run = async (jobs: string, ...args: string[]) =>
+      (await runScript(repo.dir, ["--jobs", jobs, ...against, ...args]))
+        .stdout;
+
+    const json = await run("4", "--json", "-d", "--against", "hotfix");
+    expect(json).toBe(await run("1", "--json", "-d", "--against", "hotfix"));
+    const targets = JSON.parse(json).targets;
+    expect(targets.map((t: { other_ref: string }) => t.other_ref)).toEqual([
+      "release",
+      "clean",
+      "hotfix",
+    ]);
+    expect(Object.keys(targets[0].files)).toEqual(targets[0].conflicted_files);
+
+    const ndjson = await run("3", "--format", "ndjson", "-d");
+    expect(ndjson).toBe(await run("1", "--format", "ndjson", "-d"));
+
+    const refs = ["main", "feature", "release", "hotfix"];
+    const pairs = await runScript(repo.dir, ["pairwise", "-j", "2", ...refs]);
+    expect(pairs.code).toBe(1);
+    expect(pairs.stdout).toBe(
+      (await runScript(repo.dir, ["pairwise", "--jobs", "1", ...refs])).stdout,
+    );
+
+    const invalid = await runScript(repo.dir, ["--jobs", "0", "main"]);
+    expect(invalid.code).toBe(2);
+    expect(invalid.stderr).toContain("Invalid --jobs '0'");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - fs backend runs with read permission only", async () => {
+  const repo = await createTestRepo("fs_backend");
+  try {
+    await setupRepo(repo.dir);
+    await writeFile(repo.dir, "file.txt", "base\n");
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "file.txt", "feature\n");
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "main\n");
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+
+    const readOnly = (...args: string[]) =>
+      runScript(repo.dir, ["--backend", "fs", ...args], {}, ["--allow-read"]);
+    const json = await readOnly("--json", "feature");
+    expect(json.stderr).toBe("");
+    expect(json.code).toBe(1);
+    expect(JSON.parse(json.stdout)).toMatchObject({
+      current_ref: "main",
+      other_ref: "feature",
+      engine: "index-merge",
+      conflicted_files: ["file.txt"],
+    });
+
+    const text = await readOnly("feature");
+    expect(text.code).toBe(1);
+    expect(text.stdout).toContain("CONFLICTS EXPECTED when merging feature");
+    expect(text.stdout).toContain("file.txt");
+    expect((await readOnly("main~1")).code).toBe(0);
+
+    // Without the option, git needs run permission
+    const git = await runScript(repo.dir, ["feature"], {}, ["--allow-read"]);
+    expect(git.code).toBe(2);
+
+    const unknown = await runScript(repo.dir, ["--backend", "svn", "feature"]);
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain("Unknown backend 'svn'");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("CLI - fs backend reports details with read permission only", async () => {
+  const repo = await createTestRepo("fs_backend_details");
+  try {
+    await setupRepo(repo.dir);
+    const lines = (changed: Record<number, string>) =>
+      Array.from({ length: 12 }, (_, i) => `${changed[i] ?? `line ${i}`}\n`)
+        .join("");
+    await writeFile(repo.dir, "file.txt", lines({}));
+    await runGit(repo.dir, ["add", "file.txt"]);
+    await runGit(repo.dir, ["commit", "-m", "base"]);
+    await runGit(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(
+      repo.dir,
+      "file.txt",
+      lines({ 3: "feature", 8: "feature" }),
+    );
+    await runGit(repo.dir, ["commit", "-am", "feature"]);
+    await runGit(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", lines({ 0: "main", 8: "main" }));
+    await runGit(repo.dir, ["commit", "-am", "main"]);
+
+    const readOnly = (...args: string[]) =>
+      runScript(repo.dir, ["--backend", "fs", ...args], {}, ["--allow-read"]);
+    const sarif = await readOnly("--format", "sarif", "feature");
+    expect(sarif.stderr).toBe("");
+    expect(sarif.code).toBe(1);
+    const [run] = JSON.parse(sarif.stdout).runs;
+    expect(run.results).toHaveLength(1);
+    expect(run.results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "file.txt", uriBaseId: "%SRCROOT%" },
+      region: { startLine: 9, endLine: 9 },
+    });
+    for (const format of ["junit", "markdown", "html", "ndjson"]) {
+      const report = await readOnly("--format", format, "feature");
+      expect([format, report.stderr, report.code]).toEqual([format, "", 1]);
+      expect(report.stdout).toContain("file.txt");
+    }
+
+    // Hunks and diffs match the ones git computes
+    const details = (output: { stdout: string }) => {
+      const files: Record<string, { diff: string; hunks: unknown }> =
+        JSON.parse(output.stdout).files;
+      return Object.values(files).map(({ diff, hunks }) => ({ diff, hunks }));
+    };
+    const fs = await readOnly("--json", "--diff", "feature");
+    expect(fs.stderr).toBe("");
+    const git = await runScript(repo.dir, ["--json", "--diff", "feature"]);
+    expect(details(fs)).toEqual(details(git));
+  } finally {
+    await repo.cleanup();
+  }
+});
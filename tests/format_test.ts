@@ -0,0 +1,546 @@
+/**
+ * Unit tests for format.ts
+ */
+
+import { expect } from "@std/expect";
+import {
+  DEFAULT_MAX_REPORT_SIZE,
+  formatBackportText,
+  formatConflictHunk,
+  formatGithubAnnotations,
+  formatGithubSummary,
+  formatHtml,
+  formatJunit,
+  formatMarkdown,
+  formatPairwiseCsv,
+  formatPairwiseText,
+  formatSarif,
+  isOutputFormat,
+  MARKDOWN_REPORT_MARKER,
+} from "../src/format.ts";
+import type {
+  BackportCheckResult,
+  ConflictCheckResult,
+  PairwiseCell,
+  PairwiseCheckResult,
+} from "../src/lib.ts";
+
+function cell(
+  status: PairwiseCell["status"],
+  conflicted_files: string[] = [],
+): PairwiseCell {
+  return { status, conflicted_files };
+}
+
+function pairwiseFixture(): PairwiseCheckResult {
+  const self = cell("self");
+  const skipped = cell("skipped");
+  const clean = cell("clean");
+  const conflict = cell("conflict", ["a.txt", "dir/b, c.txt"]);
+  return {
+    refs: ["feature/a", "feature/b", "feature/c"],
+    commits: ["1111111", "2222222", "3333333"],
+    conflicts: true,
+    matrix: [
+      [self, conflict, clean],
+      [conflict, self, skipped],
+      [clean, skipped, self],
+    ],
+  };
+}
+
+Deno.test("isOutputFormat - known and unknown formats", () => {
+  expect(isOutputFormat("text")).toBe(true);
+  expect(isOutputFormat("json")).toBe(true);
+  expect(isOutputFormat("csv")).toBe(true);
+  expect(isOutputFormat("sarif")).toBe(true);
+  expect(isOutputFormat("yaml")).toBe(false);
+});
+
+Deno.test("formatPairwiseText - grid and conflicting pairs", () => {
+  const text = formatPairwiseText(pairwiseFixture());
+  const lines = text.split("\n");
+  expect(lines[0]).toBe("Pairwise conflict matrix (3 refs):");
+  expect(lines[1]).toBe("  [1] feature/a (1111111)");
+  expect(text).toContain("       [1]  [2]  [3]");
+  expect(text).toContain("  [1]  -    2    .");
+  expect(text).toContain("  [2]  2    -    =");
+  expect(text).toContain("  [3]  .    =    -");
+  expect(text).toContain(
+    "  feature/a <-> feature/b: a.txt, dir/b, c.txt",
+  );
+});
+
+Deno.test("formatPairwiseText - no conflicts", () => {
+  const result = pairwiseFixture();
+  result.matrix[0][1] = cell("clean");
+  result.matrix[1][0] = cell("clean");
+  result.conflicts = false;
+  expect(formatPairwiseText(result)).toContain(
+    "No conflicts expected between any pair.",
+  );
+});
+
+Deno.test("formatPairwiseCsv - header, cells and quoting", () => {
+  const csv = formatPairwiseCsv(pairwiseFixture());
+  expect(csv.split("\n")).toEqual([
+    ",feature/a,feature/b,feature/c",
+    'feature/a,-,"a.txt;dir/b, c.txt",',
+    'feature/b,"a.txt;dir/b, c.txt",-,=',
+    "feature/c,,=,-",
+  ]);
+});
+
+Deno.test("formatBackportText - clean and failing targets", () => {
+  const result: BackportCheckResult = {
+    range: "main~2..main",
+    commits: ["a".repeat(40), "b".repeat(40)],
+    clean: false,
+    targets: [
+      {
+        target: "release/1.0",
+        target_commit: "1".repeat(40),
+        clean: true,
+        label: "backport-clean",
+        failed_commit: null,
+        conflicted_files: [],
+        commits: [],
+      },
+      {
+        target: "v2",
+        target_commit: "2".repeat(40),
+        clean: false,
+        label: "backport-needs-manual",
+        failed_commit: "b".repeat(40),
+        conflicted_files: ["config.txt", "src/app.ts"],
+        commits: [
+          {
+            commit: "a".repeat(40),
+            subject: "fix login",
+            status: "clean",
+            conflicted_files: [],
+          },
+          {
+            commit: "b".repeat(40),
+            subject: "add timeout",
+            status: "conflict",
+            conflicted_files: ["config.txt", "src/app.ts"],
+          },
+        ],
+      },
+    ],
+  };
+  expect(formatBackportText(result).split("\n")).toEqual([
+    "Backport of 2 commits (main~2..main):",
+    "  release/1.0  backport-clean",
+    "  v2           backport-needs-manual",
+    `    stops at ${"b".repeat(12)} (add timeout): config.txt, src/app.ts`,
+  ]);
+});
+
+Deno.test("formatConflictHunk - line ranges and diff3 markers", () => {
+  const text = formatConflictHunk({
+    base: { start: 4, end: 4, text: "4\n" },
+    ours: { start: 6, end: 7, text: "ours\nmore\n" },
+    theirs: { start: 3, end: 2, text: "" },
+  }, 1);
+  expect(text.split("\n")).toEqual([
+    "Conflict hunk 2: ours lines 6-7, base line 4, theirs no lines (at 3)",
+    "<<<<<<< ours",
+    "ours",
+    "more",
+    "||||||| base",
+    "4",
+    "=======",
+    ">>>>>>> theirs",
+  ]);
+});
+
+Deno.test("formatSarif - rules per conflict type and hunk regions", () => {
+  const result: ConflictCheckResult = {
+    current_ref: "feature",
+    other_ref: "main",
+    ours_commit: "1".repeat(40),
+    theirs_commit: "2".repeat(40),
+    merge_base: "3".repeat(40),
+    merge_bases: ["3".repeat(40)],
+    criss_cross: false,
+    engine: "merge-ort",
+    conflicts: true,
+    conflicted_files: ["a.txt", "b.txt", "c.txt"],
+    files: {
+      "a.txt": {
+        conflict_type: "content",
+        hunks: [
+          {
+            base: { start: 2, end: 2, text: "x\n" },
+            ours: { start: 3, end: 4, text: "y\nz\n" },
+            theirs: { start: 2, end: 2, text: "w\n" },
+          },
+          {
+            base: { start: 9, end: 9, text: "x\n" },
+            ours: { start: 11, end: 10, text: "" },
+            theirs: { start: 9, end: 9, text: "w\n" },
+          },
+        ],
+      },
+      "b.txt": {
+        conflict_type: "modify_delete",
+        message: "Your branch: modified b.txt\nTheir branch: deleted b.txt",
+      },
+      "c.txt": { conflict_type: "content" },
+    },
+  };
+
+  const sarif = JSON.parse(
+    formatSarif([result], { name: "git-check-conflicts", version: "1.2.3" }),
+  );
+  expect(sarif.version).toBe("2.1.0");
+  const [run] = sarif.runs;
+  expect(run.tool.driver.name).toBe("git-check-conflicts");
+  expect(run.tool.driver.version).toBe("1.2.3");
+  expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual([
+    "content",
+    "modify_delete",
+  ]);
+
+  expect(run.results).toHaveLength(3);
+  const [a, b, c] = run.results;
+  expect(a.ruleId).toBe("content");
+  expect(a.ruleIndex).toBe(0);
+  expect(a.level).toBe("warning");
+  expect(
+    a.locations.map((l: { physicalLocation: unknown }) => l.physicalLocation),
+  )
+    .toEqual([
+      {
+        artifactLocation: { uri: "a.txt", uriBaseId: "%SRCROOT%" },
+        region: { startLine: 3, endLine: 4 },
+      },
+      {
+        artifactLocation: { uri: "a.txt", uriBaseId: "%SRCROOT%" },
+        region: { startLine: 11, endLine: 11 },
+      },
+    ]);
+  expect(b.ruleIndex).toBe(1);
+  expect(b.message.text).toBe(
+    "Merging main into feature is expected to conflict in b.txt: " +
+      "Your branch: modified b.txt; Their branch: deleted b.txt",
+  );
+  expect(c.locations[0].physicalLocation.region).toBeUndefined();
+});
+
+Deno.test("formatJunit - testcases per changed file with failures", () => {
+  const result: ConflictCheckResult = {
+    current_ref: "feature",
+    other_ref: "release/<1.x>",
+    ours_commit: "1".repeat(40),
+    theirs_commit: "2".repeat(40),
+    merge_base: "3".repeat(40),
+    merge_bases: ["3".repeat(40)],
+    criss_cross: false,
+    engine: "merge-ort",
+    conflicts: true,
+    conflicted_files: ["b.txt", "a.txt"],
+    files: {
+      "a.txt": {
+        conflict_type: "content",
+        diff: "<<<<<<< ours\nx & y\u0007\n=======\nz\n>>>>>>> theirs\n",
+      },
+      "b.txt": {
+        conflict_type: "modify_delete",
+        message: 'Your branch: modified "b.txt"',
+      },
+    },
+  };
+
+  const xml = formatJunit(
+    [{ result, changedFiles: ["a.txt", "c.txt"] }],
+    "git-check-conflicts",
+  );
+  expect(xml).toMatch(/^<\?xml version="1\.0" encoding="UTF-8"\?>\n/);
+  expect(xml).toContain(
+    '<testsuites name="git-check-conflicts" tests="3" failures="2">',
+  );
+  expect(xml).toContain(
+    '<testsuite name="release/&lt;1.x&gt;" tests="3" failures="2"',
+  );
+  expect(xml).toContain('<property name="engine" value="merge-ort"/>');
+  expect(xml).toContain(
+    '<failure message="Conflict in a.txt when merging release/&lt;1.x&gt;" ' +
+      'type="content">&lt;&lt;&lt;&lt;&lt;&lt;&lt; ours\nx &amp; y\n',
+  );
+  expect(xml).toContain(
+    '<failure message="Your branch: modified &quot;b.txt&quot;" ' +
+      'type="modify_delete"></failure>',
+  );
+  expect(xml).toContain(
+    '<testcase classname="release/&lt;1.x&gt;" name="c.txt" file="c.txt"/>',
+  );
+  expect(xml.indexOf('name="a.txt"')).toBeLessThan(
+    xml.indexOf('name="b.txt"'),
+  );
+});
+
+Deno.test("formatGithubAnnotations - escaped workflow commands", () => {
+  const result: ConflictCheckResult = {
+    current_ref: "feature",
+    other_ref: "main",
+    ours_commit: "1".repeat(40),
+    theirs_commit: "2".repeat(40),
+    merge_base: "3".repeat(40),
+    merge_bases: ["3".repeat(40)],
+    criss_cross: false,
+    engine: "merge-ort",
+    conflicts: true,
+    conflicted_files: ["dir/a,b.txt", "c.txt"],
+    files: {
+      "dir/a,b.txt": {
+        conflict_type: "content",
+        hunks: [{
+          base: { start: 2, end: 2, text: "x\n" },
+          ours: { start: 3, end: 4, text: "y\nz\n" },
+          theirs: { start: 2, end: 2, text: "w\n" },
+        }],
+      },
+      "c.txt": {
+        conflict_type: "modify_delete",
+        message: "Your branch: modified c.txt\nTheir branch: deleted c.txt",
+      },
+    },
+  };
+
+  expect(formatGithubAnnotations([result]).split("\n")).toEqual([
+    "::error file=dir/a%2Cb.txt,line=3,endLine=4," +
+    "title=Merge conflict with main (content)::" +
+    "Merging main into feature is expected to conflict in dir/a,b.txt: " +
+    "Both branches changed the same lines",
+    "::error file=c.txt,title=Merge conflict with main (modify_delete)::" +
+    "Merging main into feature is expected to conflict in c.txt: " +
+    "Your branch: modified c.txt; Their branch: deleted c.txt",
+  ]);
+  expect(formatGithubAnnotations([{ ...result, conflicted_files: [] }])).toBe(
+    "",
+  );
+});
+
+Deno.test("formatGithubSummary - table and conflicting files", () => {
+  const base = {
+    current_ref: "feature",
+    ours_commit: "1".repeat(40),
+    theirs_commit: "2".repeat(40),
+    merge_base: "3".repeat(40),
+    merge_bases: ["3".repeat(40)],
+    criss_cross: false,
+    engine: "merge-ort" as const,
+  };
+  const summary = formatGithubSummary([
+    {
+      ...base,
+      other_ref: "main",
+      conflicts: true,
+      conflicted_files: ["a|b.txt"],
+      files: { "a|b.txt": { conflict_type: "add_add" } },
+    },
+    {
+      ...base,
+      other_ref: "release/1.x",
+      conflicts: false,
+      conflicted_files: [],
+      files: {},
+    },
+  ], "git-check-conflicts");
+
+  expect(summary.split("\n")).toEqual([
+    "## git-check-conflicts",
+    "",
+    ":x: Conflicts expected with 1 of 2 target(s).",
+    "",
+    "| Target | Result | Conflicting files |",
+    "| ------ | ------ | ----------------- |",
+    "| `main` | :x: 1 conflicting file(s) | `a\\|b.txt` |",
+    "| `release/1.x` | :white_check_mark: clean |  |",
+    "",
+    "### Merging `main`",
+    "",
+    "- `a\\|b.txt` (add_add): Both branches added the file with different contents",
+  ]);
+});
+
+Deno.test("formatMarkdown - header, file table and truncated diffs", () => {
+  const longDiff = Array.from({ length: 10 }, (_, i) => `+line ${i}`).join(
+    "\n",
+  ) + "\n";
+  const result: ConflictCheckResult = {
+    current_ref: "feature",
+    other_ref: "main",
+    ours_commit: "1".repeat(40),
+    theirs_commit: "2".repeat(40),
+    merge_base: "3".repeat(40),
+    merge_bases: ["3".repeat(40)],
+    criss_cross: false,
+    engine: "merge-ort",
+    conflicts: true,
+    conflicted_files: ["a.txt", "<b>.md"],
+    files: {
+      "a.txt": { conflict_type: "content", diff: longDiff },
+      "<b>.md": { conflict_type: "add_add", diff: "```\ncode\n```\n" },
+    },
+  };
+  const clean: ConflictCheckResult = {
+    ...result,
+    other_ref: "release/1.x",
+    conflicts: false,
+    conflicted_files: [],
+    files: {},
+  };
+
+  const markdown = formatMarkdown([result, clean], {
+    title: "git-check-conflicts",
+    maxDiffSize: 30,
+  });
+  const lines = markdown.split("\n");
+  expect(lines[0]).toBe(MARKDOWN_REPORT_MARKER);
+  expect(lines).toContain("### :x: Merging `main` into `feature`");
+  expect(lines).toContain(`| Ours | \`feature\` | \`${"1".repeat(40)}\` |`);
+  expect(lines).toContain(`| Merge base | | \`${"3".repeat(40)}\` |`);
+  expect(lines).toContain("| `a.txt` | content |");
+  expect(lines).toContain("| `<b>.md` | add_add |");
+  expect(lines).toContain(
+    "<summary><code>&lt;b&gt;.md</code> (add_add)</summary>",
+  );
+  expect(markdown).toContain(
+    "```diff\n+line 0\n+line 1\n+line 2\n… 7 more line(s) truncated\n```",
+  );
+  expect(markdown).toContain("````diff\n```\ncode\n```\n````");
+  expect(lines).toContain(
+    "### :white_check_mark: Merging `release/1.x` into `feature`",
+  );
+  expect(lines.at(-1)).toBe("No conflicts expected.");
+});
+
+Deno.test("formatMarkdown - reports with many files stay under the size limit", () => {
+  const files = Array.from({ length: 200 }, (_, i) => `src/file${i}.ts`);
+  const diff = Array.from({ length: 50 }, (_, i) => `+line ${i}`).join("\n");
+  const result: ConflictCheckResult = {
+    current_ref: "feature",
+    other_ref: "main",
+    ours_commit: "1".repeat(40),
+    theirs_commit: "2".repeat(40),
+    merge_base: "3".repeat(40),
+    merge_bases: ["3".repeat(40)],
+    criss_cross: false,
+    engine: "merge-ort",
+    conflicts: true,
+    conflicted_files: files,
+    files: Object.fromEntries(
+      files.map((file) => [file, { conflict_type: "content", diff }]),
+    ),
+  };
+  const clean: ConflictCheckResult = {
+    ...result,
+    other_ref: "release/1.x",
+    conflicts: false,
+    conflicted_files: [],
+    files: {},
+  };
+
+  const markdown = formatMarkdown([result, clean], {
+    title: "git-check-conflicts",
+  });
+  expect(markdown.length).toBeLessThanOrEqual(DEFAULT_MAX_REPORT_SIZE);
+  const lines = markdown.split("\n");
+  // The file table comes first, then as many diffs as fit
+  for (const file of files) {
+    expect(lines).toContain(`| \`${file}\` | content |`);
+  }
+  const shown = lines.filter((line) => line.startsWith("<summary>")).length;
+  expect(shown).toBeGreaterThan(50);
+  expect(shown).toBeLessThan(files.length);
+  expect(lines.at(-1)).toBe(
+    `… ${
+      files.length - shown
+    } more file(s) omitted to stay under 65536 characters`,
+  );
+  expect(lines).toContain(
+    "### :white_check_mark: Merging `release/1.x` into `feature`",
+  );
+
+  // Small limits cut the file table too; no file keeps its diff
+  const small = formatMarkdown([result], {
+    title: "git-check-conflicts",
+    maxReportSize: 1000,
+  });
+  expect(small.length).toBeLessThanOrEqual(1000);
+  expect(small).toContain("| `src/file0.ts` | content |");
+  expect(small).not.toContain(`| \`${files.at(-1)}\` | content |`);
+  expect(small).not.toContain("<details>");
+  expect(small.split("\n").at(-1)).toBe(
+    `… ${files.length} more file(s) omitted to stay under 1000 characters`,
+  );
+
+  // Reports that fit are left alone
+  expect(formatMarkdown([clean], { title: "t" })).not.toContain("omitted");
+});
+
+Deno.test("formatHtml - summary, type filter and highlighted three-way view", () => {
+  const result: ConflictCheckResult = {
+    current_ref: "feature",
+    other_ref: "main",
+    ours_commit: "1".repeat(40),
+    theirs_commit: "2".repeat(40),
+    merge_base: "3".repeat(40),
+    merge_bases: ["3".repeat(40)],
+    criss_cross: false,
+    engine: "merge-ort",
+    conflicts: true,
+    conflicted_files: ["a.txt", "b.txt"],
+    files: {
+      "a.txt": {
+        conflict_type: "content",
+        hunks: [{
+          base: { start: 2, end: 2, text: "two\n" },
+          ours: { start: 2, end: 2, text: "<ours>\n" },
+          theirs: { start: 2, end: 2, text: "theirs\n" },
+        }],
+      },
+      "b.txt": { conflict_type: "modify_delete" },
+    },
+  };
+
+  const html = formatHtml([{
+    result,
+    versions: {
+      "a.txt": {
+        base: "one\ntwo\nthree\n",
+        ours: "one\n<ours>\nthree\n",
+        theirs: "one\ntheirs\nthree\n",
+      },
+      "b.txt": { base: "b\n", ours: "b2\n" },
+    },
+  }], "git-check-conflicts");
+
+  expect(html).toMatch(/^<!DOCTYPE html>\n/);
+  expect(html).not.toMatch(/<(link|script) [^>]*(href|src)=/);
+  expect(html).toContain(`<td>${"3".repeat(12)}</td>`);
+  expect(html).toContain('<option value="content">content</option>');
+  expect(html).toContain(
+    '<option value="modify_delete">modify_delete</option>',
+  );
+  expect(html).toContain(
+    '<li data-type="content"><a href="#file-0-0"><code>a.txt</code></a>',
+  );
+  expect(html).toContain(
+    '<section class="file" id="file-0-1" data-type="modify_delete">',
+  );
+  expect(html).toContain(
+    '<tr class="conflict"><td class="ln">2</td><td class="code">&lt;ours&gt;</td></tr>',
+  );
+  expect(html).toContain(
+    '<tr><td class="ln">3</td><td class="code">three</td></tr>',
+  );
+  expect(html).toContain("Not present as text on this side");
+  expect(html).toContain(
+    "Our branch modified the file, their branch deleted it",
+  );
+});
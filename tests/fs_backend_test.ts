@@ -0,0 +1,268 @@
+/**
+ * Tests for the pure TypeScript backend (src/fs_backend.ts)
+ * These tests create actual git repositories and compare every answer of the
+ * file system backend with the CLI backend, with loose and packed objects
+ */
+
+import { expect } from "@std/expect";
+import { join } from "@std/path";
+import {
+  CliBackend,
+  FsBackend,
+  type GitBackend,
+  UnsupportedRepositoryError,
+} from "../src/backend.ts";
+import { ConflictChecker, type ConflictCheckResult } from "../src/checker.ts";
+
+async function runGit(dir: string, args: string[]): Promise<string> {
+  const { stdout } = await new Deno.Command("git", {
+    args,
+    cwd: dir,
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+  return new TextDecoder().decode(stdout).trim();
+}
+
+async function commit(
+  dir: string,
+  files: Record<string, string>,
+  message: string,
+): Promise<void> {
+  for (const [name, content] of Object.entries(files)) {
+    await Deno.mkdir(join(dir, name, ".."), { recursive: true });
+    await Deno.writeTextFile(join(dir, name), content);
+  }
+  await runGit(dir, ["add", "-A"]);
+  await runGit(dir, ["commit", "-q", "-m", message]);
+}
+
+/** A long file with line `changed` replaced, so packs store deltas */
+function bigFile(changed: number[], label: string): string {
+  return Array.from(
+    { length: 300 },
+    (_, i) => changed.includes(i) ? `${label} ${i}\n` : `line ${i}\n`,
+  ).join("");
+}
+
+/**
+ * Creates `main` and `feature`, which conflict in `src/app.ts` and change
+ * different lines of `big.txt`, criss-cross branches `x` and `y` with two
+ * merge bases, tags, and a remote-tracking branch `origin/topic`.
+ */
+async function setupRepo(objectFormat: "sha1" | "sha256"): Promise<string> {
+  const dir = await Deno.makeTempDir({
+    prefix: `git_fs_backend_${objectFormat}_`,
+  });
+  await runGit(dir, ["init", "-b", "main", `--object-format=${objectFormat}`]);
+  await runGit(dir, ["config", "user.email", "test@test.com"]);
+  await runGit(dir, ["config", "user.name", "Test User"]);
+  await commit(dir, {
+    "big.txt": bigFile([], ""),
+    "src/app.ts": "base\n",
+    "docs/guide.md": "guide\n",
+  }, "base");
+  await Deno.chmod(join(dir, "docs/guide.md"), 0o755);
+  await commit(dir, { "big.txt": bigFile([10], "main") }, "main 1");
+  await runGit(dir, ["tag", "-a", "v1", "-m", "v1"]);
+
+  await runGit(dir, ["checkout", "-q", "-b", "feature"]);
+  await commit(dir, {
+    "big.txt": bigFile([10, 250], "feature"),
+    "src/app.ts": "feature\n",
+  }, "feature");
+  await runGit(dir, ["checkout", "-q", "main"]);
+  await commit(dir, {
+    "big.txt": bigFile([10, 20], "main"),
+    "src/app.ts": "main\n",
+    "src/new.ts": "new\n",
+  }, "main 2");
+  await runGit(dir, ["tag", "light"]);
+
+  await runGit(dir, ["checkout", "-q", "-b", "x"]);
+  await commit(dir, { "x.txt": "x\n" }, "x");
+  await runGit(dir, ["checkout", "-q", "-b", "y", "main"]);
+  await commit(dir, { "y.txt": "y\n" }, "y");
+  await runGit(dir, ["merge", "-q", "--no-ff", "-m", "merge x", "x"]);
+  await runGit(dir, ["checkout", "-q", "x"]);
+  await runGit(dir, ["merge", "-q", "--no-ff", "-m", "merge y", "y~1"]);
+  await runGit(dir, ["checkout", "-q", "main"]);
+
+  await runGit(dir, ["config", "remote.origin.url", "https://example.com/r"]);
+  await runGit(dir, ["update-ref", "refs/remotes/origin/topic", "feature"]);
+  return dir;
+}
+
+const REVS = [
+  "HEAD",
+  "main",
+  "feature",
+  "x",
+  "y",
+  "v1",
+  "light",
+  "refs/heads/feature",
+  "origin/topic",
+  "topic",
+  "main~1",
+  "main~2",
+  "main^",
+  "y^2",
+  "x^2~1",
+  "v1^{commit}",
+  "missing",
+  "main~9",
+];
+
+/** Checks merging `theirs` into `ours` with a checker using a backend */
+async function check(
+  backend: GitBackend,
+  ours: string,
+  theirs: string,
+): Promise<ConflictCheckResult> {
+  await using checker = new ConflictChecker({ backend });
+  const result = await checker.check(theirs, await checker.resolveOurs(ours));
+  return { ...result, merge_bases: result.merge_bases.sort() };
+}
+
+/** Checks that both backends answer the same for all refs and commits */
+async function expectSameAsCli(dir: string): Promise<void> {
+  const fs = new FsBackend({ cwd: dir }, null);
+  const cli = new CliBackend({ cwd: dir });
+  expect(await fs.getCurrentBranch()).toBe(await cli.getCurrentBranch());
+  for (const rev of REVS) {
+    expect([rev, await fs.resolveCommit(rev)])
+      .toEqual([rev, await cli.resolveCommit(rev)]);
+  }
+
+  const commits = (await runGit(dir, ["rev-list", "--all"])).split("\n");
+  for (const commit of commits) {
+    const tree = await fs.listTree(commit);
+    expect(tree).toEqual(await cli.listTree(commit));
+    for (const file of tree) {
+      expect(await fs.readBlob(file.oid)).toEqual(await cli.readBlob(file.oid));
+    }
+  }
+
+  const pairs = [["main", "feature"], ["x", "y"], ["feature", "y"]];
+  for (const [ours, theirs] of pairs) {
+    const [a, b] = [
+      await cli.resolveCommit(ours),
+      await cli.resolveCommit(theirs),
+    ];
+    expect((await fs.getMergeBases(a!, b!)).sort())
+      .toEqual((await cli.getMergeBases(a!, b!)).sort());
+    expect(await check(fs, ours, theirs)).toEqual(
+      await check(cli, ours, theirs),
+    );
+  }
+}
+
+for (const objectFormat of ["sha1", "sha256"] as const) {
+  Deno.test(`FsBackend - ${objectFormat} loose and packed objects`, async () => {
+    const dir = await setupRepo(objectFormat);
+    try {
+      expect(await runGit(dir, ["merge-base", "--all", "x", "y"]))
+        .toContain("\n");
+      await expectSameAsCli(dir);
+
+      // Pack everything, with deltas, and the refs too
+      await runGit(dir, ["repack", "-a", "-d", "-f", "--depth=50"]);
+      await runGit(dir, ["pack-refs", "--all"]);
+      expect(await runGit(dir, ["count-objects"])).toMatch(/^0 objects/);
+      await expectSameAsCli(dir);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+}
+
+Deno.test("FsBackend - revisions", async () => {
+  const dir = await setupRepo("sha1");
+  try {
+    const fs = new FsBackend({ cwd: join(dir, "src") }, null);
+    const main = await runGit(dir, ["rev-parse", "main"]);
+    expect(await fs.getCurrentBranch()).toBe("main");
+    expect(await fs.resolveCommit(main)).toBe(main);
+    expect(await fs.resolveCommit(main.slice(0, 10))).toBe(main);
+    expect(await fs.resolveCommit(main.slice(0, 3))).toBeNull();
+    expect(await fs.resolveCommit("../config")).toBeNull();
+
+    // A tree or blob is not a commit
+    const tree = await runGit(dir, ["rev-parse", "main^{tree}"]);
+    expect(await fs.resolveCommit(tree)).toBeNull();
+    expect(await fs.readBlob(main)).toBeNull();
+    expect(await fs.readBlob("0".repeat(40))).toBeNull();
+    await expect(fs.listTree("0".repeat(40))).rejects.toThrow(
+      "Cannot list the tree",
+    );
+
+    const merge = await fs.mergeFile(
+      await runGit(dir, ["rev-parse", "main~1:src/app.ts"]),
+      await runGit(dir, ["rev-parse", "main:src/app.ts"]),
+      await runGit(dir, ["rev-parse", "feature:src/app.ts"]),
+    );
+    expect(merge.clean).toBe(false);
+    expect(merge.content).toContain("<<<<<<< ours\nmain\n");
+
+    const outside = await Deno.makeTempDir({ prefix: "git_fs_backend_none_" });
+    try {
+      await expect(new FsBackend({ cwd: outside }, null).resolveCommit("HEAD"))
+        .rejects.toThrow("Not a git repository");
+    } finally {
+      await Deno.remove(outside, { recursive: true });
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("FsBackend - unsupported repositories fall back to git", async () => {
+  const dir = await setupRepo("sha1");
+  try {
+    await runGit(dir, ["config", "pack.indexVersion", "1"]);
+    await runGit(dir, ["repack", "-a", "-d"]);
+
+    await expect(new FsBackend({ cwd: dir }, null).resolveCommit("main"))
+      .rejects.toThrow(UnsupportedRepositoryError);
+    const fs = new FsBackend({ cwd: dir });
+    const cli = new CliBackend({ cwd: dir });
+    expect(await check(fs, "main", "feature"))
+      .toEqual(await check(cli, "main", "feature"));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("FsBackend - runs with read permission only", async () => {
+  const dir = await setupRepo("sha1");
+  try {
+    const script = `
+      import { FsBackend } from
+        "${new URL("../src/backend.ts", import.meta.url)}";
+      import { ConflictChecker } from
+        "${new URL("../src/checker.ts", import.meta.url)}";
+      const backend = new FsBackend({ cwd: Deno.args[0] }, null);
+      await using checker = new ConflictChecker({ backend });
+      const ours = await checker.resolveOurs("main");
+      console.log(JSON.stringify(await checker.check("feature", ours)));
+    `;
+    const child = new Deno.Command(Deno.execPath(), {
+      args: ["run", "--allow-read", "--no-prompt", "-", dir],
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+    const writer = child.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(script));
+    await writer.close();
+    const output = await child.output();
+
+    expect(new TextDecoder().decode(output.stderr)).toBe("");
+    expect(JSON.parse(new TextDecoder().decode(output.stdout))).toEqual(
+      await check(new CliBackend({ cwd: dir }), "main", "feature"),
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -964,3 +964,959 @@ Deno.test("integration - JSON output with rename/modify conflict", async () => {
     await repo.cleanup();
   }
 });
+
+Deno.test("integration - merge-ort engine reports conflicts and messages", async () => {
+  const repo = await createTestRepo("merge_ort");
+  try {
+    await setupBasicRepo(repo.dir);
+
+    await writeFile(repo.dir, "content.txt", "line1\nline2\nline3\n");
+    await writeFile(repo.dir, "deleted.txt", "keep me\n");
+    await writeFile(repo.dir, "clean.txt", "a\nb\nc\nd\ne\nf\ng\n");
+    await gitInRepo(repo.dir, ["add", "."]);
+    await gitInRepo(repo.dir, ["commit", "-m", "base"]);
+
+    await gitInRepo(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "content.txt", "line1\nfeature\nline3\n");
+    await gitInRepo(repo.dir, ["rm", "deleted.txt"]);
+    await writeFile(repo.dir, "clean.txt", "A\nb\nc\nd\ne\nf\ng\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "feature"]);
+
+    await gitInRepo(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "content.txt", "line1\nmain\nline3\n");
+    await writeFile(repo.dir, "deleted.txt", "modified\n");
+    await writeFile(repo.dir, "clean.txt", "a\nb\nc\nd\ne\nf\nG\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "main"]);
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { checkConflictsWithMergeOrt, supportsMergeOrt } = await import(
+        "../src/lib.ts"
+      );
+      if (!(await supportsMergeOrt())) return;
+
+      const result = await checkConflictsWithMergeOrt("main", "feature");
+      expect(result.clean).toBe(false);
+      expect(result.tree).toMatch(/^[0-9a-f]{40}$/);
+      // Both sides changed clean.txt in different places: merged cleanly
+      expect(result.conflicted_files.sort()).toEqual([
+        "content.txt",
+        "deleted.txt",
+      ]);
+      expect(result.stages["content.txt"].map((s) => s.stage)).toEqual([
+        1,
+        2,
+        3,
+      ]);
+      expect(result.stages["deleted.txt"].map((s) => s.stage)).toEqual([1, 2]);
+      expect(result.messages.map((m) => m.type)).toContain(
+        "CONFLICT (modify/delete)",
+      );
+
+      const clean = await checkConflictsWithMergeOrt("main", "main~1");
+      expect(clean.clean).toBe(true);
+      expect(clean.conflicted_files).toEqual([]);
+    } finally {
+      Deno.chdir(originalDir);
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - expand ref patterns", async () => {
+  const repo = await createTestRepo("expand_refs");
+  const clone = await createTestRepo("expand_refs_clone");
+  try {
+    await setupBasicRepo(repo.dir);
+    await gitInRepo(repo.dir, ["branch", "release/1.0"]);
+    await gitInRepo(repo.dir, ["branch", "release/2.0"]);
+    await gitInRepo(repo.dir, ["branch", "release/2.0/hotfix"]);
+    await gitInRepo(repo.dir, ["branch", "feature/a"]);
+
+    await gitInRepo(clone.dir, ["clone", repo.dir, "."]);
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(clone.dir);
+      const { expandRefPattern } = await import("../src/lib.ts");
+
+      // Local branches do not exist in the clone, remote-tracking ones do
+      expect(await expandRefPattern("release/*")).toEqual([]);
+      expect(await expandRefPattern("origin/release/*")).toEqual([
+        "origin/release/1.0",
+        "origin/release/2.0",
+      ]);
+      // Symbolic refs such as origin/HEAD are skipped
+      const all = await expandRefPattern("refs/remotes/origin/*");
+      expect(all).toContain("origin/main");
+      expect(all.some((ref) => ref.endsWith("HEAD"))).toBe(false);
+      expect(all).not.toContain("origin");
+    } finally {
+      Deno.chdir(originalDir);
+    }
+  } finally {
+    await repo.cleanup();
+    await clone.cleanup();
+  }
+});
+
+Deno.test("integration - mergeTreesInIndex merges content and reports conflicts", async () => {
+  const repo = await createTestRepo("index_merge");
+  try {
+    await setupBasicRepo(repo.dir);
+
+    await writeFile(repo.dir, "clean.txt", "a\nb\nc\nd\ne\nf\ng\n");
+    await writeFile(repo.dir, "conflict.txt", "line1\nline2\nline3\n");
+    await gitInRepo(repo.dir, ["add", "."]);
+    await gitInRepo(repo.dir, ["commit", "-m", "base"]);
+
+    await gitInRepo(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "clean.txt", "A\nb\nc\nd\ne\nf\ng\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "feature"]);
+
+    await gitInRepo(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "clean.txt", "a\nb\nc\nd\ne\nf\nG\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "main clean"]);
+    await gitInRepo(repo.dir, ["branch", "main-clean"]);
+    await writeFile(repo.dir, "conflict.txt", "line1\nmain\nline3\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "main conflict"]);
+
+    await gitInRepo(repo.dir, ["checkout", "feature"]);
+    await writeFile(repo.dir, "conflict.txt", "line1\nfeature\nline3\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "feature conflict"]);
+    const status = await gitInRepo(repo.dir, ["status", "--porcelain"]);
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { mergeTreesInIndex, revToTree, getEmptyTreeHash, TempIndex } =
+        await import("../src/lib.ts");
+      const emptyTree = getEmptyTreeHash();
+      const tree = (rev: string) => revToTree(rev, emptyTree);
+
+      const tempIndex = new TempIndex();
+      try {
+        await tempIndex.create();
+
+        // Non-overlapping changes to clean.txt merge at the content level
+        const clean = await mergeTreesInIndex(
+          await tree("main~2"),
+          await tree("main-clean"),
+          await tree("feature~1"),
+          tempIndex,
+        );
+        expect(clean.conflicted_files).toEqual([]);
+        expect(clean.tree).toMatch(/^[0-9a-f]{40}$/);
+        const merged = await runCmd([
+          "git",
+          "cat-file",
+          "blob",
+          `${clean.tree}:clean.txt`,
+        ]);
+        expect(merged.stdout).toBe("A\nb\nc\nd\ne\nf\nG");
+
+        // Same line changed on both sides
+        const conflict = await mergeTreesInIndex(
+          await tree("main~2"),
+          await tree("main"),
+          await tree("feature"),
+          tempIndex,
+        );
+        expect(conflict.tree).toBeNull();
+        expect(conflict.conflicted_files).toEqual(["conflict.txt"]);
+        expect(conflict.stages["conflict.txt"]).toHaveLength(3);
+      } finally {
+        await tempIndex.cleanup();
+      }
+    } finally {
+      Deno.chdir(originalDir);
+    }
+
+    // Working tree and real index are untouched
+    expect((await gitInRepo(repo.dir, ["status", "--porcelain"])).stdout)
+      .toBe(status.stdout);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - simulateRebase stops at the first conflicting commit", async () => {
+  const repo = await createTestRepo("rebase_sim");
+  try {
+    await setupBasicRepo(repo.dir);
+
+    await writeFile(repo.dir, "file.txt", "line1\nx\nline3\n");
+    await gitInRepo(repo.dir, ["add", "file.txt"]);
+    await gitInRepo(repo.dir, ["commit", "-m", "base"]);
+
+    await gitInRepo(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(repo.dir, "new.txt", "new\n");
+    await gitInRepo(repo.dir, ["add", "new.txt"]);
+    await gitInRepo(repo.dir, ["commit", "-m", "add new file"]);
+    await writeFile(repo.dir, "file.txt", "line1\ny\nline3\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "change x to y"]);
+    await writeFile(repo.dir, "file.txt", "line1\nx\nline3\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "change y back to x"]);
+
+    await gitInRepo(repo.dir, ["checkout", "main"]);
+    await writeFile(repo.dir, "file.txt", "line1\nz\nline3\n");
+    await gitInRepo(repo.dir, ["commit", "-am", "change x to z"]);
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { simulateRebase, resolveCommit, getEmptyTreeHash } = await import(
+        "../src/lib.ts"
+      );
+      const { steps, stop } = await simulateRebase(
+        (await resolveCommit("main")).commit,
+        (await resolveCommit("feature")).commit,
+        getEmptyTreeHash(),
+      );
+      expect(steps.map((s) => s.subject)).toEqual([
+        "add new file",
+        "change x to y",
+        "change y back to x",
+      ]);
+      expect(steps.map((s) => s.status)).toEqual([
+        "clean",
+        "conflict",
+        "pending",
+      ]);
+      expect(steps[1].conflicted_files).toEqual(["file.txt"]);
+      expect(steps[1].commit).toBe(
+        (await resolveCommit("feature~1")).commit,
+      );
+      // The stop is applied onto main plus the first replayed commit
+      expect(stop?.commit).toBe(steps[1].commit);
+      expect(stop?.parent).toBe((await resolveCommit("feature~2")).commit);
+      const tree = await gitInRepo(repo.dir, [
+        "ls-tree",
+        "--name-only",
+        stop!.tree,
+      ]);
+      expect(tree.stdout.split("\n").sort()).toEqual(["file.txt", "new.txt"]);
+    } finally {
+      Deno.chdir(originalDir);
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - listCommitsInRange accepts a commit or a range", async () => {
+  const repo = await createTestRepo("commit_range");
+  try {
+    await setupBasicRepo(repo.dir);
+
+    await gitInRepo(repo.dir, ["checkout", "-b", "feature"]);
+    for (const name of ["a", "b", "c"]) {
+      await writeFile(repo.dir, `${name}.txt`, `${name}\n`);
+      await gitInRepo(repo.dir, ["add", `${name}.txt`]);
+      await gitInRepo(repo.dir, ["commit", "-m", `add ${name}`]);
+    }
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { listCommitsInRange, resolveCommit } = await import(
+        "../src/lib.ts"
+      );
+
+      const range = await listCommitsInRange("main..feature");
+      expect(range.map((c) => c.subject)).toEqual(["add a", "add b", "add c"]);
+      expect(range[1].parent).toBe(range[0].commit);
+
+      const single = await listCommitsInRange("feature~1");
+      expect(single).toEqual([{
+        commit: (await resolveCommit("feature~1")).commit,
+        parent: (await resolveCommit("feature~2")).commit,
+        subject: "add b",
+      }]);
+
+      await expect(listCommitsInRange("feature..main")).rejects.toThrow(
+        "No commits",
+      );
+    } finally {
+      Deno.chdir(originalDir);
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - writeUncommittedTree leaves index and worktree untouched", async () => {
+  const repo = await createTestRepo("uncommitted_tree");
+  try {
+    await setupBasicRepo(repo.dir);
+    await writeFile(repo.dir, "tracked.txt", "committed\n");
+    await gitInRepo(repo.dir, ["add", "tracked.txt"]);
+    await gitInRepo(repo.dir, ["commit", "-m", "add tracked"]);
+
+    // One staged change, one unstaged change and one untracked file
+    await writeFile(repo.dir, "tracked.txt", "staged\n");
+    await gitInRepo(repo.dir, ["add", "tracked.txt"]);
+    await writeFile(repo.dir, "tracked.txt", "unstaged\n");
+    await writeFile(repo.dir, "untracked.txt", "new\n");
+    const statusBefore = await gitInRepo(repo.dir, ["status", "--porcelain"]);
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { writeUncommittedTree, createSnapshotCommit, resolveCommit } =
+        await import("../src/lib.ts");
+
+      const staged = await writeUncommittedTree("staged");
+      expect(
+        (await gitInRepo(repo.dir, ["cat-file", "-p", `${staged}:tracked.txt`]))
+          .stdout,
+      ).toBe("staged");
+      expect(
+        (await gitInRepo(repo.dir, ["ls-tree", "--name-only", staged])).stdout,
+      ).not.toContain("untracked.txt");
+
+      const worktree = await writeUncommittedTree("worktree");
+      expect(
+        (await gitInRepo(repo.dir, [
+          "cat-file",
+          "-p",
+          `${worktree}:tracked.txt`,
+        ])).stdout,
+      ).toBe("unstaged");
+      expect(
+        (await gitInRepo(repo.dir, ["ls-tree", "--name-only", worktree]))
+          .stdout,
+      ).toContain("untracked.txt");
+
+      const head = (await resolveCommit("HEAD")).commit;
+      const snapshot = await createSnapshotCommit(worktree, head, "snapshot");
+      expect(
+        (await gitInRepo(repo.dir, ["rev-parse", `${snapshot}^`])).stdout,
+      ).toBe(head);
+      expect((await resolveCommit("HEAD")).commit).toBe(head);
+    } finally {
+      Deno.chdir(originalDir);
+    }
+
+    const statusAfter = await gitInRepo(repo.dir, ["status", "--porcelain"]);
+    expect(statusAfter.stdout).toBe(statusBefore.stdout);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - getMergeBases reports all bases of a criss-cross history", async () => {
+  const repo = await createTestRepo("criss_cross");
+  try {
+    await setupBasicRepo(repo.dir);
+
+    await gitInRepo(repo.dir, ["checkout", "-b", "a"]);
+    await writeFile(repo.dir, "a.txt", "a\n");
+    await gitInRepo(repo.dir, ["add", "a.txt"]);
+    await gitInRepo(repo.dir, ["commit", "-m", "a1"]);
+
+    await gitInRepo(repo.dir, ["checkout", "-b", "b", "main"]);
+    await writeFile(repo.dir, "b.txt", "b\n");
+    await gitInRepo(repo.dir, ["add", "b.txt"]);
+    await gitInRepo(repo.dir, ["commit", "-m", "b1"]);
+
+    // Each branch merges the other's first commit
+    await gitInRepo(repo.dir, ["merge", "--no-edit", "a"]);
+    await gitInRepo(repo.dir, ["checkout", "a"]);
+    await gitInRepo(repo.dir, ["merge", "--no-edit", "b~1"]);
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { getMergeBases, getMergeBase, resolveCommit } = await import(
+        "../src/lib.ts"
+      );
+      const a1 = (await resolveCommit("a^1")).commit;
+      const b1 = (await resolveCommit("b^1")).commit;
+
+      const bases = await getMergeBases("a", "b");
+      expect(bases.toSorted()).toEqual([a1, b1].toSorted());
+      expect(bases).toContain(await getMergeBase("a", "b"));
+
+      expect(await getMergeBases("a", "a^1")).toEqual([a1]);
+    } finally {
+      Deno.chdir(originalDir);
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict hunks with line ranges on each side", async () => {
+  const repo = await createTestRepo("conflict_hunks");
+  try {
+    await setupBasicRepo(repo.dir);
+    const lines = (values: (string | number)[]) =>
+      values.map((v) => `${v}\n`).join("");
+
+    await writeFile(repo.dir, "file.txt", lines([1, 2, 3, 4, 5, 6, 7, 8]));
+    await gitInRepo(repo.dir, ["add", "file.txt"]);
+    await gitInRepo(repo.dir, ["commit", "-m", "base"]);
+
+    // Clean changes of different sizes shift the conflicts on each side
+    await gitInRepo(repo.dir, ["checkout", "-b", "feature"]);
+    await writeFile(
+      repo.dir,
+      "file.txt",
+      lines(["a", "b", 1, 2, 3, "ours", 5, 6, 7, "x"]),
+    );
+    await gitInRepo(repo.dir, ["commit", "-am", "ours"]);
+
+    await gitInRepo(repo.dir, ["checkout", "main"]);
+    await writeFile(
+      repo.dir,
+      "file.txt",
+      lines([1, 3, "theirs", "theirs 2", 5, 6, 7, "y", "z"]),
+    );
+    await gitInRepo(repo.dir, ["commit", "-am", "theirs"]);
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { getFileConflictDetail, getMergeBase } = await import(
+        "../src/lib.ts"
+      );
+      const detail = await getFileConflictDetail(
+        "file.txt",
+        "feature",
+        "main",
+        await getMergeBase("feature", "main"),
+      );
+      expect(detail.hunks).toEqual([
+        {
+          base: { start: 4, end: 4, text: "4\n" },
+          ours: { start: 6, end: 6, text: "ours\n" },
+          theirs: { start: 3, end: 4, text: "theirs\ntheirs 2\n" },
+        },
+        {
+          base: { start: 8, end: 8, text: "8\n" },
+          ours: { start: 10, end: 10, text: "x\n" },
+          theirs: { start: 8, end: 9, text: "y\nz\n" },
+        },
+      ]);
+    } finally {
+      Deno.chdir(originalDir);
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+/**
+ * Creates `ours` and `theirs` branches from a common base commit. Each
+ * callback changes and stages files; the helper commits.
+ */
+async function setupConflictBranches(
+  dir: string,
+  base: () => Promise<void>,
+  ours: () => Promise<void>,
+  theirs: () => Promise<void>,
+): Promise<void> {
+  await setupBasicRepo(dir);
+  await base();
+  await gitInRepo(dir, ["commit", "--allow-empty", "-m", "base"]);
+  await gitInRepo(dir, ["checkout", "-b", "theirs"]);
+  await theirs();
+  await gitInRepo(dir, ["commit", "-m", "theirs"]);
+  await gitInRepo(dir, ["checkout", "-b", "ours", "main"]);
+  await ours();
+  await gitInRepo(dir, ["commit", "-m", "ours"]);
+}
+
+/**
+ * Classifies every conflicting path of merging `theirs` into `ours`, once
+ * from merge-ort's stage entries and once from the trees alone.
+ */
+async function classifyConflicts(
+  dir: string,
+  treePath: string,
+): Promise<{
+  ort: Record<string, { conflict_type: string; message?: string }>;
+  trees: { conflict_type: string; message?: string };
+}> {
+  const originalDir = Deno.cwd();
+  try {
+    Deno.chdir(dir);
+    const { checkConflictsWithMergeOrt, getFileConflictDetail, getMergeBase } =
+      await import("../src/lib.ts");
+    const mergeBase = await getMergeBase("ours", "theirs");
+    const ortResult = await checkConflictsWithMergeOrt("ours", "theirs");
+    const ort: Record<string, { conflict_type: string; message?: string }> = {};
+    for (const file of ortResult.conflicted_files) {
+      ort[file] = await getFileConflictDetail(
+        file,
+        "ours",
+        "theirs",
+        mergeBase,
+        ortResult,
+      );
+    }
+    const trees = await getFileConflictDetail(
+      treePath,
+      "ours",
+      "theirs",
+      mergeBase,
+    );
+    return { ort, trees };
+  } finally {
+    Deno.chdir(originalDir);
+  }
+}
+
+Deno.test("integration - conflict type add/add", async () => {
+  const repo = await createTestRepo("type_add_add");
+  try {
+    await setupConflictBranches(repo.dir, async () => {}, async () => {
+      await writeFile(repo.dir, "new.txt", "ours\n");
+      await gitInRepo(repo.dir, ["add", "new.txt"]);
+    }, async () => {
+      await writeFile(repo.dir, "new.txt", "theirs\n");
+      await gitInRepo(repo.dir, ["add", "new.txt"]);
+    });
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "new.txt");
+    expect(ort["new.txt"].conflict_type).toBe("add_add");
+    expect(trees.conflict_type).toBe("add_add");
+    expect(trees.message).toContain("Both branches added new.txt");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict types modify/delete and delete/modify", async () => {
+  const repo = await createTestRepo("type_modify_delete");
+  try {
+    await setupConflictBranches(repo.dir, async () => {
+      await writeFile(repo.dir, "kept.txt", "base\n");
+      await writeFile(repo.dir, "gone.txt", "base\n");
+      await gitInRepo(repo.dir, ["add", "."]);
+    }, async () => {
+      await writeFile(repo.dir, "kept.txt", "ours\n");
+      await gitInRepo(repo.dir, ["rm", "-q", "gone.txt"]);
+      await gitInRepo(repo.dir, ["add", "kept.txt"]);
+    }, async () => {
+      await writeFile(repo.dir, "gone.txt", "theirs\n");
+      await gitInRepo(repo.dir, ["rm", "-q", "kept.txt"]);
+      await gitInRepo(repo.dir, ["add", "gone.txt"]);
+    });
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "kept.txt");
+    expect(ort["kept.txt"].conflict_type).toBe("modify_delete");
+    expect(ort["kept.txt"].message).toBe(
+      "Your branch: modified kept.txt\nTheir branch: deleted kept.txt",
+    );
+    expect(ort["gone.txt"].conflict_type).toBe("delete_modify");
+    expect(trees.conflict_type).toBe("modify_delete");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict type rename/rename (1→2)", async () => {
+  const repo = await createTestRepo("type_rename_1to2");
+  try {
+    await setupConflictBranches(repo.dir, async () => {
+      await writeFile(repo.dir, "old.txt", "one\ntwo\nthree\nfour\n");
+      await gitInRepo(repo.dir, ["add", "old.txt"]);
+    }, async () => {
+      await gitInRepo(repo.dir, ["mv", "old.txt", "ours.txt"]);
+    }, async () => {
+      await gitInRepo(repo.dir, ["mv", "old.txt", "theirs.txt"]);
+    });
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "old.txt");
+    expect(Object.keys(ort).toSorted()).toEqual([
+      "old.txt",
+      "ours.txt",
+      "theirs.txt",
+    ]);
+    for (const detail of Object.values(ort)) {
+      expect(detail.conflict_type).toBe("rename_rename_1to2");
+      expect(detail.message).toBe(
+        "Your branch: renamed old.txt → ours.txt\nTheir branch: renamed old.txt → theirs.txt",
+      );
+    }
+    expect(trees.conflict_type).toBe("rename_rename_1to2");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict type rename/rename (2→1)", async () => {
+  const repo = await createTestRepo("type_rename_2to1");
+  try {
+    await setupConflictBranches(repo.dir, async () => {
+      await writeFile(repo.dir, "a.txt", "alpha\nbeta\ngamma\ndelta\n");
+      await writeFile(repo.dir, "b.txt", "one\ntwo\nthree\nfour\n");
+      await gitInRepo(repo.dir, ["add", "."]);
+    }, async () => {
+      await gitInRepo(repo.dir, ["mv", "a.txt", "c.txt"]);
+    }, async () => {
+      await gitInRepo(repo.dir, ["mv", "b.txt", "c.txt"]);
+    });
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "c.txt");
+    expect(ort["c.txt"].conflict_type).toBe("rename_rename_2to1");
+    expect(ort["c.txt"].message).toBe(
+      "Your branch: renamed a.txt → c.txt\nTheir branch: renamed b.txt → c.txt",
+    );
+    expect(trees.conflict_type).toBe("rename_rename_2to1");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict type directory/file", async () => {
+  const repo = await createTestRepo("type_directory_file");
+  try {
+    await setupConflictBranches(repo.dir, async () => {}, async () => {
+      await writeFile(repo.dir, "thing", "a file\n");
+      await gitInRepo(repo.dir, ["add", "thing"]);
+    }, async () => {
+      await Deno.mkdir(join(repo.dir, "thing"));
+      await writeFile(repo.dir, "thing/inner.txt", "in a directory\n");
+      await gitInRepo(repo.dir, ["add", "thing"]);
+    });
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "thing");
+    const [moved] = Object.keys(ort).filter((f) => f.startsWith("thing~"));
+    expect(moved).toBeTruthy();
+    expect(ort[moved].conflict_type).toBe("directory_file");
+    expect(trees.conflict_type).toBe("directory_file");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict type mode", async () => {
+  const repo = await createTestRepo("type_mode");
+  try {
+    await setupConflictBranches(repo.dir, async () => {}, async () => {
+      await writeFile(repo.dir, "run.sh", "echo hi\n");
+      await gitInRepo(repo.dir, ["add", "run.sh"]);
+    }, async () => {
+      await writeFile(repo.dir, "run.sh", "echo hi\n");
+      await Deno.chmod(join(repo.dir, "run.sh"), 0o755);
+      await gitInRepo(repo.dir, ["add", "run.sh"]);
+    });
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "run.sh");
+    expect(ort["run.sh"].conflict_type).toBe("mode");
+    expect(ort["run.sh"].message).toBe(
+      "Your branch: file with mode 100644\nTheir branch: file with mode 100755",
+    );
+    expect(trees.conflict_type).toBe("mode");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict type symlink", async () => {
+  const repo = await createTestRepo("type_symlink");
+  try {
+    const link = (target: string) => async () => {
+      await Deno.remove(join(repo.dir, "link")).catch(() => {});
+      await Deno.symlink(target, join(repo.dir, "link"));
+      await gitInRepo(repo.dir, ["add", "link"]);
+    };
+    await setupConflictBranches(
+      repo.dir,
+      link("base-target"),
+      link("our-target"),
+      link("their-target"),
+    );
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "link");
+    expect(ort["link"].conflict_type).toBe("symlink");
+    expect(ort["link"].message).toBe(
+      "Your branch: symlink to our-target\nTheir branch: symlink to their-target",
+    );
+    expect(trees.conflict_type).toBe("symlink");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - conflict type submodule", async () => {
+  const repo = await createTestRepo("type_submodule");
+  try {
+    // Gitlink entries can point at any commit; use commits of this repo
+    const pointer = (message: string) => async () => {
+      const tree = await gitInRepo(repo.dir, ["write-tree"]);
+      const commit = await gitInRepo(repo.dir, [
+        "commit-tree",
+        tree.stdout,
+        "-m",
+        message,
+      ]);
+      await gitInRepo(repo.dir, [
+        "update-index",
+        "--add",
+        "--cacheinfo",
+        `160000,${commit.stdout},sub`,
+      ]);
+    };
+    await setupConflictBranches(
+      repo.dir,
+      pointer("base pointer"),
+      pointer("our pointer"),
+      pointer("their pointer"),
+    );
+
+    const { ort, trees } = await classifyConflicts(repo.dir, "sub");
+    expect(ort["sub"].conflict_type).toBe("submodule");
+    expect(ort["sub"].message).toMatch(
+      /^Your branch: submodule at [0-9a-f]{12}\nTheir branch: submodule at [0-9a-f]{12}$/,
+    );
+    expect(trees.conflict_type).toBe("submodule");
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - getFileVersions reads the text of each side", async () => {
+  const repo = await createTestRepo("file_versions");
+  try {
+    await setupConflictBranches(repo.dir, async () => {
+      await writeFile(repo.dir, "gone.txt", "base\n");
+      await Deno.writeFile(
+        join(repo.dir, "data.bin"),
+        new Uint8Array([1, 0, 2]),
+      );
+      await gitInRepo(repo.dir, ["add", "."]);
+    }, async () => {
+      await writeFile(repo.dir, "gone.txt", "ours\n");
+      await gitInRepo(repo.dir, ["add", "gone.txt"]);
+    }, async () => {
+      await gitInRepo(repo.dir, ["rm", "-q", "gone.txt"]);
+    });
+
+    const originalDir = Deno.cwd();
+    try {
+      Deno.chdir(repo.dir);
+      const { getFileVersions, getMergeBase } = await import("../src/lib.ts");
+      const mergeBase = await getMergeBase("ours", "theirs");
+      expect(await getFileVersions("gone.txt", mergeBase, "ours", "theirs"))
+        .toEqual({ base: "base\n", ours: "ours\n" });
+      expect(await getFileVersions("data.bin", mergeBase, "ours", "theirs"))
+        .toEqual({});
+    } finally {
+      Deno.chdir(originalDir);
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - RepoContext checks two repositories concurrently", async () => {
+  const clean = await createTestRepo("context_clean");
+  const conflicting = await createTestRepo("context_conflicting");
+  try {
+    const setup = (dir: string, theirs: string) =>
+      setupConflictBranches(dir, async () => {
+        await writeFile(dir, "file.txt", "base\n");
+        await gitInRepo(dir, ["add", "file.txt"]);
+      }, async () => {
+        await writeFile(dir, "file.txt", "ours\n");
+        await gitInRepo(dir, ["add", "file.txt"]);
+      }, async () => {
+        await writeFile(dir, theirs, "theirs\n");
+        await gitInRepo(dir, ["add", theirs]);
+      });
+    await setup(clean.dir, "other.txt");
+    await setup(conflicting.dir, "file.txt");
+
+    // Neither run changes the working directory of the process
+    const originalDir = Deno.cwd();
+    const { checkConflictsWithMergeOrt, getCurrentRef, TempIndex } =
+      await import("../src/lib.ts");
+    const check = async (cwd: string) => {
+      const ctx = { cwd };
+      const tempIndex = new TempIndex(ctx);
+      await tempIndex.create();
+      try {
+        await tempIndex.runGitWithIndex(["read-tree", "ours"]);
+        const files = await tempIndex.runGitWithIndex(["ls-files"]);
+        return {
+          ref: await getCurrentRef(ctx),
+          files: files.stdout,
+          result: await checkConflictsWithMergeOrt("ours", "theirs", ctx),
+        };
+      } finally {
+        await tempIndex.cleanup();
+      }
+    };
+    const [cleanRun, conflictingRun] = await Promise.all([
+      check(clean.dir),
+      check(conflicting.dir),
+    ]);
+    expect(Deno.cwd()).toBe(originalDir);
+
+    expect(cleanRun.ref).toBe("ours");
+    expect(cleanRun.files).toBe("file.txt");
+    expect(cleanRun.result.conflicted_files).toEqual([]);
+    expect(conflictingRun.ref).toBe("ours");
+    expect(conflictingRun.result.conflicted_files).toEqual(["file.txt"]);
+  } finally {
+    await clean.cleanup();
+    await conflicting.cleanup();
+  }
+});
+
+/**
+ * Creates a SHA-256 repository with two unrelated branches, `ours` and
+ * `theirs`, that both add `file.txt`.
+ */
+async function setupSha256Repo(dir: string): Promise<void> {
+  await gitInRepo(dir, ["init", "-b", "ours", "--object-format=sha256"]);
+  await gitInRepo(dir, ["config", "user.email", "test@test.com"]);
+  await gitInRepo(dir, ["config", "user.name", "Test User"]);
+  await writeFile(dir, "file.txt", "ours\n");
+  await gitInRepo(dir, ["add", "file.txt"]);
+  await gitInRepo(dir, ["commit", "-m", "ours"]);
+  await gitInRepo(dir, ["checkout", "--orphan", "theirs"]);
+  await writeFile(dir, "file.txt", "theirs\n");
+  await writeFile(dir, "other.txt", "other\n");
+  await gitInRepo(dir, ["add", "file.txt", "other.txt"]);
+  await gitInRepo(dir, ["commit", "-m", "theirs"]);
+  await gitInRepo(dir, ["checkout", "ours"]);
+}
+
+Deno.test("integration - SHA-256 object format and empty tree", async () => {
+  const sha1 = await createTestRepo("sha1_format");
+  const sha256 = await createTestRepo("sha256_format");
+  try {
+    await setupBasicRepo(sha1.dir);
+    await setupSha256Repo(sha256.dir);
+    const { getEmptyTreeHash, getObjectFormat } = await import(
+      "../src/lib.ts"
+    );
+
+    expect(await getObjectFormat({ cwd: sha1.dir })).toBe("sha1");
+    expect(await getObjectFormat({ cwd: sha256.dir })).toBe("sha256");
+    for (const repo of [sha1, sha256]) {
+      const format = await getObjectFormat({ cwd: repo.dir });
+      const hashed = await gitInRepo(repo.dir, [
+        "hash-object",
+        "-t",
+        "tree",
+        "--stdin",
+      ]);
+      expect(getEmptyTreeHash(format)).toBe(hashed.stdout);
+    }
+    expect(getEmptyTreeHash()).toBe(getEmptyTreeHash("sha1"));
+  } finally {
+    await sha1.cleanup();
+    await sha256.cleanup();
+  }
+});
+
+Deno.test("integration - SHA-256 repository without a merge base", async () => {
+  const repo = await createTestRepo("sha256_no_base");
+  try {
+    await setupSha256Repo(repo.dir);
+    const { ConflictChecker } = await import("../src/checker.ts");
+
+    // Without a merge base, the trivial merge-tree merges against the empty
+    // tree and parses SHA-256 object IDs; merge-ort, like `git merge`, refuses
+    // unrelated histories
+    await using mergeTree = new ConflictChecker({
+      repo: repo.dir,
+      engine: "merge-tree",
+    });
+    const result = await mergeTree.check("theirs");
+    expect(result.ours_commit).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.merge_base).toBeNull();
+    expect(result.conflicts).toBe(true);
+    expect(await mergeTree.getChangedFiles(result))
+      .toEqual(["file.txt", "other.txt"]);
+
+    // Replaying root commits merges against the empty tree
+    await using checker = new ConflictChecker({
+      repo: repo.dir,
+      rebase: true,
+      details: true,
+    });
+    const rebase = await checker.check("theirs");
+    expect(rebase.rebase?.map((step) => step.status)).toEqual(["conflict"]);
+    expect(rebase.conflicted_files).toEqual(["file.txt"]);
+    expect(rebase.files["file.txt"].conflict_type).toBe("add_add");
+    const backport = await checker.checkBackport("theirs", ["ours"]);
+    expect(backport.targets[0].conflicted_files).toEqual(["file.txt"]);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test("integration - renamed paths with spaces share one analysis context", async () => {
+  const repo = await createTestRepo("rename_spaces");
+  try {
+    await setupBasicRepo(repo.dir);
+    const names = ["old name.txt", "second old.txt"];
+    for (const name of names) {
+      await writeFile(repo.dir, name, `${name}\nline 2\nline 3\n`);
+    }
+    await gitInRepo(repo.dir, ["add", "."]);
+    await gitInRepo(repo.dir, ["commit", "-m", "add files"]);
+
+    // feature renames both files, main modifies them in place
+    await gitInRepo(repo.dir, ["checkout", "-b", "feature"]);
+    for (const name of names) {
+      await gitInRepo(repo.dir, ["mv", name, `moved ${name}`]);
+    }
+    await gitInRepo(repo.dir, ["commit", "-m", "rename files"]);
+    await gitInRepo(repo.dir, ["checkout", "main"]);
+    for (const name of names) {
+      await writeFile(repo.dir, name, `${name}\nline 2 main\nline 3\n`);
+    }
+    await gitInRepo(repo.dir, ["commit", "-am", "modify files"]);
+
+    const {
+      createAnalysisContext,
+      fileDiffFor,
+      getFileConflictDetail,
+      getMergeBase,
+      resolveCommit,
+    } = await import("../src/lib.ts");
+    const ctx = { cwd: repo.dir };
+    const ours = (await resolveCommit("feature", ctx)).commit;
+    const theirs = (await resolveCommit("main", ctx)).commit;
+    const base = await getMergeBase(ours, theirs, ctx);
+
+    const analysis = createAnalysisContext(ctx);
+    for (const name of names) {
+      const detail = await getFileConflictDetail(
+        name,
+        ours,
+        theirs,
+        base,
+        undefined,
+        analysis,
+      );
+      expect(detail.conflict_type).toBe("rename_modify");
+      expect(detail.rename).toEqual({
+        old_path: name,
+        new_path: `moved ${name}`,
+        side: "ours",
+      });
+      expect(detail.diff).toContain("+line 2 main");
+
+      const diff = await fileDiffFor(name, ours, theirs, base, analysis);
+      expect(diff).toContain(`renamed ${name} → moved ${name}`);
+    }
+    // One rename diff per side for the whole check
+    expect([...analysis.renames.keys()]).toEqual([
+      `${base}..${ours}`,
+      `${base}..${theirs}`,
+    ]);
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -0,0 +1,113 @@
+/**
+ * Minimal JSON Schema validator for the tests.
+ *
+ * Supports the subset of draft 2020-12 used by `src/schema.json`: `type`,
+ * `const`, `enum`, `pattern`, `properties`, `required`,
+ * `additionalProperties`, `items`, `allOf`, `oneOf` and local `$ref`s.
+ */
+
+/** A (sub)schema */
+// deno-lint-ignore no-explicit-any
+type Schema = Record<string, any>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function resolveRef(root: Schema, ref: string): Schema {
+  if (!ref.startsWith("#/")) throw new Error(`Unsupported $ref ${ref}`);
+  return ref.slice(2).split("/").reduce(
+    (schema: Schema, key) => schema[key],
+    root,
+  );
+}
+
+function validateAt(
+  root: Schema,
+  schema: Schema,
+  value: unknown,
+  path: string,
+): string[] {
+  if (schema.$ref) {
+    return validateAt(root, resolveRef(root, schema.$ref), value, path);
+  }
+  const errors: string[] = [];
+  if (schema.type) {
+    const actual = typeOf(value);
+    const types = [schema.type].flat();
+    const matches = types.includes(actual) ||
+      (actual === "integer" && types.includes("number"));
+    if (!matches) {
+      return [`${path}: expected ${types.join("|")}, got ${actual}`];
+    }
+  }
+  if ("const" in schema && value !== schema.const) {
+    errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not one of the enum`);
+  }
+  if (
+    schema.pattern && typeof value === "string" &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    errors.push(`${path}: ${JSON.stringify(value)} does not match pattern`);
+  }
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${path}: missing ${key}`);
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key] ??
+        schema.additionalProperties;
+      if (propertySchema === false) {
+        errors.push(`${path}: unexpected property ${key}`);
+      } else if (propertySchema && propertySchema !== true) {
+        errors.push(
+          ...validateAt(root, propertySchema, child, `${path}/${key}`),
+        );
+      }
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) =>
+      errors.push(...validateAt(root, schema.items, item, `${path}/${i}`))
+    );
+  }
+  for (const sub of schema.allOf ?? []) {
+    errors.push(...validateAt(root, sub, value, path));
+  }
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter((sub: Schema) =>
+      validateAt(root, sub, value, path).length === 0
+    );
+    if (matching.length !== 1) {
+      errors.push(
+        `${path}: matches ${matching.length} of the oneOf schemas, expected 1`,
+      );
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates a value against a JSON Schema.
+ *
+ * @param schema - Root schema
+ * @param value - Value to validate
+ * @param ref - Local `$ref` of the definition to validate against, if not
+ *   the root schema
+ * @returns Validation errors as "path: message" strings (empty if valid)
+ */
+export function validateSchema(
+  schema: Schema,
+  value: unknown,
+  ref?: string,
+): string[] {
+  const target = ref ? resolveRef(schema, ref) : schema;
+  return validateAt(schema, target, value, "#");
+}
@@ -6,6 +6,8 @@ import { expect } from "@std/expect";
 import { join } from "@std/path";
 import {
   checkConflictsWithMergeTree,
+  classifyConflict,
+  compareGitVersions,
   detectDefaultBranch,
   fileDiffFor,
   getChangedFilesBetween,
@@ -13,10 +15,20 @@ import {
   getEmptyTreeHash,
   GitError,
   isGitRepository,
+  isRefPattern,
+  Limiter,
+  listCommitsInRange,
+  mapConcurrent,
+  parseConflictMarkers,
+  parseGitVersion,
+  parseMergeOrtOutput,
+  parseRenames,
+  parseUnmergedEntries,
   parseUnmergedFiles,
   resolveCommit,
   revToTree,
   runCmd,
+  runGitBytes,
   TempIndex,
 } from "../src/lib.ts";
 
@@ -50,6 +62,16 @@ Deno.test("runCmd - command not found", async () => {
   }
 });
 
+Deno.test("runGitBytes - input and output larger than the pipe buffers", async () => {
+  // Each line asks for the object header; neither side fits in a pipe
+  const input = new TextEncoder().encode("HEAD\n".repeat(20000));
+  const result = await runGitBytes(["cat-file", "--batch-check"], input);
+  expect(result.code).toBe(0);
+  const lines = new TextDecoder().decode(result.stdout).trim().split("\n");
+  expect(lines.length).toBe(20000);
+  expect(lines[19999]).toMatch(/ commit \d+$/);
+});
+
 Deno.test("GitError - creates error with code", () => {
   const error = new GitError("test message", 123);
   expect(error.message).toBe("test message");
@@ -91,6 +113,218 @@ Deno.test("parseUnmergedFiles - complex paths", () => {
   expect(result).toEqual(["src/deeply/nested/file.txt"]);
 });
 
+Deno.test("parseGitVersion - release and platform versions", () => {
+  expect(parseGitVersion("git version 2.39.5")).toEqual({
+    major: 2,
+    minor: 39,
+    patch: 5,
+  });
+  expect(parseGitVersion("git version 2.45.1.windows.1")).toEqual({
+    major: 2,
+    minor: 45,
+    patch: 1,
+  });
+  expect(parseGitVersion("git version 2.40")).toEqual({
+    major: 2,
+    minor: 40,
+    patch: 0,
+  });
+  expect(parseGitVersion("not git")).toBeNull();
+});
+
+Deno.test("compareGitVersions - orders versions", () => {
+  const v = (major: number, minor: number, patch: number) => ({
+    major,
+    minor,
+    patch,
+  });
+  expect(compareGitVersions(v(2, 38, 0), v(2, 38, 0))).toBe(0);
+  expect(compareGitVersions(v(2, 37, 9), v(2, 38, 0))).toBeLessThan(0);
+  expect(compareGitVersions(v(3, 0, 0), v(2, 38, 0))).toBeGreaterThan(0);
+});
+
+Deno.test("parseMergeOrtOutput - clean merge", () => {
+  const result = parseMergeOrtOutput("a7f7fa4e3bd629d8\0\0", true);
+  expect(result.clean).toBe(true);
+  expect(result.tree).toBe("a7f7fa4e3bd629d8");
+  expect(result.conflicted_files).toEqual([]);
+  expect(result.messages).toEqual([]);
+});
+
+Deno.test("parseMergeOrtOutput - conflicts with stages and messages", () => {
+  const output = [
+    "065eb67df993",
+    "100644 587be6b4 1\td.txt",
+    "100644 975fbec8 2\td.txt",
+    "100644 de980441 1\tmy file.txt",
+    "100644 3b6f40af 2\tmy file.txt",
+    "100644 f4ea702d 3\tmy file.txt",
+    "",
+    "1",
+    "d.txt",
+    "CONFLICT (modify/delete)",
+    "CONFLICT (modify/delete): d.txt deleted in br and modified in main.\n",
+    "1",
+    "my file.txt",
+    "CONFLICT (contents)",
+    "CONFLICT (content): Merge conflict in my file.txt\n",
+    "",
+  ].join("\0");
+  const result = parseMergeOrtOutput(output, false);
+  expect(result.clean).toBe(false);
+  expect(result.tree).toBe("065eb67df993");
+  expect(result.conflicted_files).toEqual(["d.txt", "my file.txt"]);
+  expect(result.stages["d.txt"]).toEqual([
+    { mode: "100644", oid: "587be6b4", stage: 1 },
+    { mode: "100644", oid: "975fbec8", stage: 2 },
+  ]);
+  expect(result.stages["my file.txt"]).toHaveLength(3);
+  expect(result.messages).toHaveLength(2);
+  expect(result.messages[0]).toEqual({
+    paths: ["d.txt"],
+    type: "CONFLICT (modify/delete)",
+    message:
+      "CONFLICT (modify/delete): d.txt deleted in br and modified in main.",
+  });
+  expect(result.messages[1].type).toBe("CONFLICT (contents)");
+});
+
+Deno.test("parseMergeOrtOutput - invalid output throws", () => {
+  expect(() => parseMergeOrtOutput("fatal: bad revision", false)).toThrow(
+    GitError,
+  );
+});
+
+Deno.test("parseUnmergedEntries - NUL-separated entries with spaces", () => {
+  const input = [
+    "100644 abc123 1\tmy file.txt",
+    "100755 def456 2\tmy file.txt",
+    "120000 fed789 3\tlink",
+    "",
+  ].join("\0");
+  expect(parseUnmergedEntries(input)).toEqual({
+    "my file.txt": [
+      { mode: "100644", oid: "abc123", stage: 1 },
+      { mode: "100755", oid: "def456", stage: 2 },
+    ],
+    "link": [{ mode: "120000", oid: "fed789", stage: 3 }],
+  });
+  expect(parseUnmergedEntries("")).toEqual({});
+});
+
+Deno.test("parseRenames - NUL-separated entries with spaces", () => {
+  const input = [
+    "R100",
+    "old name.txt",
+    "new name.txt",
+    "M",
+    "kept.txt",
+    "C075",
+    "a.txt",
+    "copy.txt",
+    "R087",
+    "dir/a\tb",
+    "dir/c d",
+    "",
+  ].join("\0");
+  expect(parseRenames(input)).toEqual([
+    ["old name.txt", "new name.txt"],
+    ["dir/a\tb", "dir/c d"],
+  ]);
+  expect(parseRenames("")).toEqual([]);
+});
+
+Deno.test("parseConflictMarkers - clean and diff3 conflict segments", () => {
+  const merged = [
+    "one",
+    "<<<<<<< ours",
+    "ours 1",
+    "ours 2",
+    "||||||| base",
+    "base",
+    "=======",
+    ">>>>>>> theirs",
+    "two",
+    "<<<<<<< ours",
+    "||||||| base",
+    "=======",
+    "theirs",
+    ">>>>>>> theirs",
+    "",
+  ].join("\n");
+  expect(parseConflictMarkers(merged)).toEqual([
+    { type: "clean", lines: ["one"] },
+    {
+      type: "conflict",
+      ours: ["ours 1", "ours 2"],
+      base: ["base"],
+      theirs: [],
+    },
+    { type: "clean", lines: ["two"] },
+    { type: "conflict", ours: [], base: [], theirs: ["theirs"] },
+  ]);
+  expect(parseConflictMarkers("a\nb\n")).toEqual([
+    { type: "clean", lines: ["a", "b"] },
+  ]);
+});
+
+Deno.test("classifyConflict - types from stage entries", () => {
+  const entry = (stage: 1 | 2 | 3, oid: string, mode = "100644") => ({
+    mode,
+    oid,
+    stage,
+  });
+  expect(classifyConflict([entry(1, "a1"), entry(2, "b2"), entry(3, "c3")]))
+    .toBe("content");
+  expect(classifyConflict([entry(2, "b2"), entry(3, "c3")])).toBe("add_add");
+  expect(classifyConflict([entry(1, "a1"), entry(2, "b2")])).toBe(
+    "modify_delete",
+  );
+  expect(classifyConflict([entry(1, "a1"), entry(3, "c3")])).toBe(
+    "delete_modify",
+  );
+  expect(classifyConflict([entry(1, "a1")])).toBe("rename_rename_1to2");
+  expect(classifyConflict([entry(2, "b2"), entry(3, "c3", "040000")])).toBe(
+    "directory_file",
+  );
+  expect(classifyConflict([entry(2, "b2", "100755"), entry(3, "b2")])).toBe(
+    "mode",
+  );
+  expect(
+    classifyConflict([
+      entry(1, "a1", "120000"),
+      entry(2, "b2", "120000"),
+      entry(3, "c3"),
+    ]),
+  ).toBe("mode");
+  expect(
+    classifyConflict([
+      entry(1, "a1", "120000"),
+      entry(2, "b2", "120000"),
+      entry(3, "c3", "120000"),
+    ]),
+  ).toBe("symlink");
+  expect(
+    classifyConflict([
+      entry(1, "a1", "160000"),
+      entry(2, "b2", "160000"),
+      entry(3, "c3", "160000"),
+    ]),
+  ).toBe("submodule");
+  expect(classifyConflict([entry(2, "b2")], ["CONFLICT (file/directory)"]))
+    .toBe("directory_file");
+  expect(classifyConflict([entry(2, "b2")], ["CONFLICT (rename/rename)"]))
+    .toBe("rename_rename_1to2");
+});
+
+Deno.test("isRefPattern - detects glob characters", () => {
+  expect(isRefPattern("release/*")).toBe(true);
+  expect(isRefPattern("release/1.?")).toBe(true);
+  expect(isRefPattern("release/[12].0")).toBe(true);
+  expect(isRefPattern("release/1.0")).toBe(false);
+  expect(isRefPattern("HEAD~2")).toBe(false);
+});
+
 Deno.test("TempIndex - lifecycle", async () => {
   const tempIndex = new TempIndex();
 
@@ -134,6 +368,9 @@ Deno.test("TempIndex - cleanup is idempotent", async () => {
 Deno.test("getEmptyTreeHash - returns valid hash", () => {
   const hash = getEmptyTreeHash();
   expect(hash).toBe("4b825dc642cb6eb9a060e54bf8d69288fbee4904");
+  expect(getEmptyTreeHash("sha256")).toBe(
+    "6ef19b41225c5369f1c104d45d8d85efa9b057b53b14b4b9b939dd74decc5321",
+  );
 });
 
 Deno.test("isGitRepository - in git repo", async () => {
@@ -261,6 +498,53 @@ Deno.test("resolveCommit - invalid ref throws", async () => {
   );
 });
 
+Deno.test("listCommitsInRange - ranges and single commits", async () => {
+  const tempDir = await Deno.makeTempDir();
+  const ctx = { cwd: tempDir };
+  try {
+    await runCmd(["git", "init"], undefined, ctx);
+    await runCmd(
+      ["git", "config", "user.email", "test@test.com"],
+      undefined,
+      ctx,
+    );
+    await runCmd(["git", "config", "user.name", "Test"], undefined, ctx);
+    for (const subject of ["first", "second", "third"]) {
+      await runCmd(
+        ["git", "commit", "--allow-empty", "-m", subject],
+        undefined,
+        ctx,
+      );
+    }
+    const sha = async (rev: string) =>
+      (await runCmd(["git", "rev-parse", rev], undefined, ctx)).stdout;
+
+    expect(await listCommitsInRange("HEAD~2..HEAD", ctx)).toEqual([
+      {
+        commit: await sha("HEAD~1"),
+        parent: await sha("HEAD~2"),
+        subject: "second",
+      },
+      {
+        commit: await sha("HEAD"),
+        parent: await sha("HEAD~1"),
+        subject: "third",
+      },
+    ]);
+    expect(await listCommitsInRange("HEAD~2", ctx)).toEqual([
+      { commit: await sha("HEAD~2"), parent: "", subject: "first" },
+    ]);
+    await expect(listCommitsInRange("HEAD..HEAD", ctx)).rejects.toThrow(
+      "No commits in range",
+    );
+    await expect(listCommitsInRange("missing", ctx)).rejects.toThrow(
+      "Couldn't resolve",
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
 Deno.test("revToTree - valid rev", async () => {
   const emptyTree = getEmptyTreeHash();
   const tree = await revToTree("HEAD", emptyTree);
@@ -330,3 +614,91 @@ Deno.test("fileDiffFor - same commit returns null or empty", async () => {
     await Deno.remove(tempDir, { recursive: true });
   }
 });
+
+Deno.test("mapConcurrent - limits concurrency and keeps the order", async () => {
+  let running = 0;
+  let peak = 0;
+  const reported: number[] = [];
+  const delays = [30, 5, 20, 0, 10];
+  const results = await mapConcurrent(
+    delays,
+    2,
+    async (delay, i) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return i * 10;
+    },
+    (result, i) => {
+      expect(result).toBe(i * 10);
+      reported.push(i);
+    },
+  );
+  expect(results).toEqual([0, 10, 20, 30, 40]);
+  expect(reported).toEqual([0, 1, 2, 3, 4]);
+  expect(peak).toBe(2);
+  expect(await mapConcurrent([], 4, () => Promise.resolve(1))).toEqual([]);
+});
+
+Deno.test("mapConcurrent - stops after the first failure", async () => {
+  const started: number[] = [];
+  await expect(
+    mapConcurrent([1, 2, 3, 4, 5], 2, async (n) => {
+      started.push(n);
+      await new Promise((resolve) => setTimeout(resolve, n === 2 ? 0 : 10));
+      if (n === 2) throw new Error("failed on 2");
+      return n;
+    }),
+  ).rejects.toThrow("failed on 2");
+  expect(started).toEqual([1, 2]);
+});
+
+Deno.test("Limiter - nested mapConcurrent calls share the limit", async () => {
+  const limiter = new Limiter(3);
+  let running = 0;
+  let peak = 0;
+  const leaf = (delay: number) =>
+    limiter.run(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return delay;
+    });
+
+  // 3 targets × 3 files would run 9 at once without the shared limiter
+  const results = await mapConcurrent(
+    [1, 2, 3],
+    3,
+    (target) => mapConcurrent([0, 5, 10], 3, (delay) => leaf(delay + target)),
+  );
+  expect(results).toEqual([[1, 6, 11], [2, 7, 12], [3, 8, 13]]);
+  expect(peak).toBe(3);
+
+  // A failing call frees its slot
+  await expect(limiter.run(() => Promise.reject(new Error("boom"))))
+    .rejects.toThrow("boom");
+  expect(await Promise.all([1, 2, 3, 4].map(leaf))).toEqual([1, 2, 3, 4]);
+  expect(peak).toBe(3);
+});
+
+Deno.test("runCmd - waits for a slot of the context's limiter", async () => {
+  const limiter = new Limiter(1);
+  let release = () => {};
+  const held = limiter.run(() =>
+    new Promise<void>((resolve) => release = resolve)
+  );
+  let done = false;
+  const command = runCmd(["git", "--version"], undefined, { limiter })
+    .then((result) => {
+      done = true;
+      return result;
+    });
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(done).toBe(false);
+
+  release();
+  await held;
+  expect((await command).code).toBe(0);
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the long-lived object reader (src/object_reader.ts)
+ * These tests create actual git repositories in temporary directories
+ */
+
+import { expect } from "@std/expect";
+import { join } from "@std/path";
+import {
+  ObjectReader,
+  parseBatchHeader,
+  parseTree,
+} from "../src/object_reader.ts";
+import { GitError } from "../src/lib.ts";
+
+async function runGit(dir: string, args: string[]): Promise<string> {
+  const { stdout } = await new Deno.Command("git", {
+    args,
+    cwd: dir,
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Creates a repository with one commit containing `README.md`, an executable
+ * `bin/run.sh` and a binary `data.bin`.
+ */
+async function setupRepo(objectFormat: "sha1" | "sha256"): Promise<string> {
+  const dir = await Deno.makeTempDir({
+    prefix: `git_objects_${objectFormat}_`,
+  });
+  await runGit(dir, ["init", "-b", "main", `--object-format=${objectFormat}`]);
+  await runGit(dir, ["config", "user.email", "test@test.com"]);
+  await runGit(dir, ["config", "user.name", "Test User"]);
+  await Deno.mkdir(join(dir, "bin"));
+  await Deno.writeTextFile(join(dir, "README.md"), "hello\n");
+  await Deno.writeTextFile(join(dir, "bin", "run.sh"), "#!/bin/sh\n");
+  await Deno.chmod(join(dir, "bin", "run.sh"), 0o755);
+  await Deno.writeFile(join(dir, "data.bin"), new Uint8Array([0, 1, 2, 10]));
+  await runGit(dir, ["add", "."]);
+  await runGit(dir, ["commit", "-m", "initial"]);
+  return dir;
+}
+
+Deno.test("parseBatchHeader - object, missing and ambiguous", () => {
+  const oid = "a".repeat(40);
+  expect(parseBatchHeader(`${oid} blob 12`)).toEqual({
+    oid,
+    type: "blob",
+    size: 12,
+  });
+  expect(parseBatchHeader("HEAD:nope missing")).toBeNull();
+  expect(parseBatchHeader("abc ambiguous")).toBeNull();
+  expect(() => parseBatchHeader("fatal: not a git repository"))
+    .toThrow(GitError);
+});
+
+Deno.test("parseTree - modes, names and object IDs", () => {
+  const entry = (mode: string, name: string, byte: number) => [
+    ...new TextEncoder().encode(`${mode} ${name}\0`),
+    ...new Uint8Array(20).fill(byte),
+  ];
+  const content = new Uint8Array([
+    ...entry("100644", "a.txt", 0x01),
+    ...entry("40000", "dir", 0xab),
+    ...entry("160000", "sub", 0xff),
+  ]);
+
+  expect(parseTree(content, 20)).toEqual([
+    { mode: "100644", type: "blob", oid: "01".repeat(20), name: "a.txt" },
+    { mode: "040000", type: "tree", oid: "ab".repeat(20), name: "dir" },
+    { mode: "160000", type: "commit", oid: "ff".repeat(20), name: "sub" },
+  ]);
+  expect(parseTree(new Uint8Array(0), 20)).toEqual([]);
+});
+
+for (const objectFormat of ["sha1", "sha256"] as const) {
+  Deno.test(`ObjectReader - ${objectFormat} repository`, async () => {
+    const dir = await setupRepo(objectFormat);
+    try {
+      await using reader = new ObjectReader({ cwd: dir });
+
+      const head = await reader.info("HEAD^{commit}");
+      expect(head?.oid).toBe(await runGit(dir, ["rev-parse", "HEAD"]));
+      expect(head?.type).toBe("commit");
+      expect(await reader.info("missing-branch")).toBeNull();
+
+      const readme = await reader.read("HEAD:README.md");
+      expect(readme?.type).toBe("blob");
+      expect(new TextDecoder().decode(readme?.content)).toBe("hello\n");
+      expect(readme?.oid).toBe(
+        await runGit(dir, ["rev-parse", "HEAD:README.md"]),
+      );
+      expect((await reader.read("HEAD:data.bin"))?.content).toEqual(
+        new Uint8Array([0, 1, 2, 10]),
+      );
+      expect(await reader.read("HEAD:nope.txt")).toBeNull();
+
+      const tree = await reader.readTree("HEAD^{tree}");
+      const listed = (await runGit(dir, ["ls-tree", "HEAD"])).split("\n");
+      expect(tree?.map((e) => `${e.mode} ${e.type} ${e.oid}\t${e.name}`))
+        .toEqual(listed);
+      expect((await reader.readTree("HEAD:bin"))?.[0]).toMatchObject({
+        mode: "100755",
+        name: "run.sh",
+      });
+      expect(await reader.readTree("HEAD:README.md")).toBeNull();
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+}
+
+Deno.test("ObjectReader - concurrent requests and reuse after close", async () => {
+  const dir = await setupRepo("sha1");
+  try {
+    const reader = new ObjectReader({ cwd: dir });
+    const revs = ["HEAD", "HEAD:README.md", "HEAD:bin", "HEAD:missing"];
+    const results = await Promise.all(revs.map((rev) => reader.read(rev)));
+    expect(results.map((r) => r?.type ?? null)).toEqual([
+      "commit",
+      "blob",
+      "tree",
+      null,
+    ]);
+
+    await reader.close();
+    expect((await reader.info("HEAD"))?.type).toBe("commit");
+    await reader.close();
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("ObjectReader - AbortSignal", async () => {
+  const dir = await setupRepo("sha1");
+  try {
+    await using reader = new ObjectReader({
+      cwd: dir,
+      signal: AbortSignal.abort(new Error("cancelled")),
+    });
+    await expect(reader.info("HEAD")).rejects.toThrow("cancelled");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
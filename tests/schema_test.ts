@@ -0,0 +1,204 @@
+/**
+ * Tests for the JSON Schema of the JSON output (src/schema.json)
+ */
+
+import { expect } from "@std/expect";
+import schema from "../src/schema.json" with { type: "json" };
+import {
+  formatJson,
+  formatNdjsonEvent,
+  JSON_SCHEMA_VERSION,
+  type NdjsonEvent,
+} from "../src/format.ts";
+import type {
+  BackportCheckResult,
+  BackportTargetResult,
+  CommitReplayResult,
+  ConflictCheckResult,
+  ConflictHunk,
+  ConflictHunkSide,
+  FileConflictDetail,
+  MatrixCheckResult,
+  PairwiseCell,
+  PairwiseCheckResult,
+  RenameInfo,
+} from "../src/lib.ts";
+import { validateSchema } from "./json_schema.ts";
+
+// Compile-time check that each schema definition lists exactly the fields of
+// its interface; `deno check` fails when one of them drifts.
+type Equal<A, B> = [A] extends [B] ? [B] extends [A] ? true : false : false;
+type Expect<T extends true> = T;
+type Defs = typeof schema.$defs;
+type Fields<K extends keyof Defs> = Defs[K] extends { properties: infer P }
+  ? Exclude<keyof P, "schema_version">
+  : never;
+
+export type SchemaMatchesInterfaces = [
+  Expect<Equal<Fields<"ConflictCheckResult">, keyof ConflictCheckResult>>,
+  Expect<Equal<Fields<"MatrixCheckResult">, keyof MatrixCheckResult>>,
+  Expect<Equal<Fields<"PairwiseCheckResult">, keyof PairwiseCheckResult>>,
+  Expect<Equal<Fields<"PairwiseCell">, keyof PairwiseCell>>,
+  Expect<Equal<Fields<"BackportCheckResult">, keyof BackportCheckResult>>,
+  Expect<Equal<Fields<"BackportTargetResult">, keyof BackportTargetResult>>,
+  Expect<Equal<Fields<"CommitReplayResult">, keyof CommitReplayResult>>,
+  Expect<Equal<Fields<"FileConflictDetail">, keyof FileConflictDetail>>,
+  Expect<Equal<Fields<"ConflictHunk">, keyof ConflictHunk>>,
+  Expect<Equal<Fields<"ConflictHunkSide">, keyof ConflictHunkSide>>,
+  Expect<Equal<Fields<"RenameInfo">, keyof RenameInfo>>,
+  Expect<
+    Equal<
+      Fields<"ConflictCheckSummary">,
+      keyof Omit<ConflictCheckResult, "files">
+    >
+  >,
+];
+
+const SHA = "a".repeat(40);
+
+function conflictResult(): ConflictCheckResult {
+  return {
+    current_ref: "feature",
+    other_ref: "main",
+    ours_commit: SHA,
+    theirs_commit: SHA,
+    merge_base: null,
+    merge_bases: [],
+    criss_cross: false,
+    engine: "merge-ort",
+    conflicts: true,
+    conflicted_files: ["a.txt"],
+    files: {
+      "a.txt": {
+        conflict_type: "content",
+        hunks: [{
+          base: { start: 1, end: 0, text: "" },
+          ours: { start: 1, end: 1, text: "a\n" },
+          theirs: { start: 1, end: 1, text: "b\n" },
+        }],
+      },
+    },
+  };
+}
+
+Deno.test("schema - version matches JSON_SCHEMA_VERSION", () => {
+  expect(schema.$defs.SchemaVersion.const).toBe(JSON_SCHEMA_VERSION);
+  expect(JSON.parse(formatJson(conflictResult())).schema_version).toBe(
+    JSON_SCHEMA_VERSION,
+  );
+});
+
+Deno.test("schema - accepts every kind of output document", () => {
+  const conflict = conflictResult();
+  const documents: object[] = [
+    conflict,
+    {
+      current_ref: "feature",
+      ours_commit: SHA,
+      conflicts: true,
+      targets: [conflict],
+    },
+    {
+      refs: ["a", "b"],
+      commits: [SHA, SHA],
+      conflicts: false,
+      matrix: [
+        [{ status: "self", conflicted_files: [] }, {
+          status: "clean",
+          conflicted_files: [],
+        }],
+        [{ status: "clean", conflicted_files: [] }, {
+          status: "self",
+          conflicted_files: [],
+        }],
+      ],
+    },
+    {
+      range: "main~1..main",
+      commits: [SHA],
+      clean: false,
+      targets: [{
+        target: "release/1.x",
+        target_commit: SHA,
+        clean: false,
+        label: "backport-needs-manual",
+        failed_commit: SHA,
+        conflicted_files: ["a.txt"],
+        commits: [{
+          commit: SHA,
+          subject: "fix",
+          status: "conflict",
+          conflicted_files: ["a.txt"],
+        }],
+      }],
+    },
+  ];
+  for (const document of documents) {
+    expect(validateSchema(schema, JSON.parse(formatJson(document)))).toEqual(
+      [],
+    );
+  }
+});
+
+Deno.test("schema - rejects drifted documents", () => {
+  const document = JSON.parse(formatJson(conflictResult()));
+
+  const { schema_version: _, ...unversioned } = document;
+  expect(validateSchema(schema, unversioned)).not.toEqual([]);
+
+  expect(validateSchema(schema, { ...document, diffs: {} })).not.toEqual([]);
+  expect(validateSchema(schema, {
+    ...document,
+    files: { "a.txt": { conflict_type: "unknown" } },
+  })).not.toEqual([]);
+  expect(validateSchema(schema, { ...document, ours_commit: "HEAD" })).not
+    .toEqual([]);
+});
+
+Deno.test("schema - accepts every kind of ndjson event", () => {
+  const { files, ...summary } = conflictResult();
+  const events: NdjsonEvent[] = [
+    {
+      event: "start",
+      schema_version: JSON_SCHEMA_VERSION,
+      current_ref: "feature",
+      ours_commit: SHA,
+      targets: ["main"],
+    },
+    {
+      event: "target_resolved",
+      requested: "main",
+      target: "main",
+      theirs_commit: SHA,
+    },
+    {
+      event: "file_conflict",
+      target: "main",
+      file: "a.txt",
+      detail: files["a.txt"],
+    },
+    { event: "target_done", target: "main", result: summary },
+    {
+      event: "summary",
+      conflicts: true,
+      targets: 1,
+      conflicting_targets: ["main"],
+    },
+  ];
+  for (const event of events) {
+    expect(
+      validateSchema(
+        schema,
+        JSON.parse(formatNdjsonEvent(event)),
+        "#/$defs/NdjsonEvent",
+      ),
+    ).toEqual([]);
+  }
+  expect(
+    validateSchema(
+      schema,
+      { event: "target_done", target: "main", result: { ...summary, files } },
+      "#/$defs/NdjsonEvent",
+    ),
+  ).not.toEqual([]);
+});